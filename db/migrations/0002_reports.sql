@@ -0,0 +1,22 @@
+-- Generated reports (type 'report') and saved searches (type 'search').
+-- user_id is TEXT so both Supabase UUIDs and local user ids fit.
+CREATE TABLE IF NOT EXISTS reports (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id TEXT NOT NULL,
+    title TEXT NOT NULL,
+    content TEXT,
+    papers JSONB,
+    -- NULL on reports saved before the column was set; treated as 'report'
+    type TEXT CHECK (type IN ('report', 'search')),
+    workspace_id UUID,
+    collection_id UUID,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS reports_user_created_idx ON reports (user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS reports_user_type_created_idx ON reports (user_id, type, created_at DESC);
+CREATE INDEX IF NOT EXISTS reports_workspace_idx ON reports (workspace_id, created_at DESC) WHERE workspace_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS reports_collection_idx ON reports (collection_id) WHERE collection_id IS NOT NULL;
+-- Full-text search over titles and content (GET /api/reports/search)
+CREATE INDEX IF NOT EXISTS reports_search_idx ON reports
+    USING GIN (to_tsvector('english', coalesce(title, '') || ' ' || coalesce(content, '')));
@@ -0,0 +1,31 @@
+-- Search alerts and the in-app notifications their runs produce
+CREATE TABLE IF NOT EXISTS search_alerts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id TEXT NOT NULL,
+    search_id UUID NOT NULL REFERENCES reports(id) ON DELETE CASCADE,
+    title TEXT NOT NULL,
+    query JSONB NOT NULL,
+    sources TEXT[] NOT NULL,
+    frequency TEXT NOT NULL CHECK (frequency IN ('daily', 'weekly')),
+    webhook_url TEXT,
+    active BOOLEAN NOT NULL DEFAULT TRUE,
+    seen_ids TEXT[] NOT NULL DEFAULT '{}',
+    next_run_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    last_run_at TIMESTAMP WITH TIME ZONE,
+    last_error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+CREATE INDEX IF NOT EXISTS search_alerts_due_idx ON search_alerts (next_run_at) WHERE active;
+CREATE INDEX IF NOT EXISTS search_alerts_user_idx ON search_alerts (user_id, created_at);
+
+CREATE TABLE IF NOT EXISTS notifications (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id TEXT NOT NULL,
+    alert_id UUID REFERENCES search_alerts(id) ON DELETE CASCADE,
+    title TEXT NOT NULL,
+    summary TEXT NOT NULL,
+    papers JSONB NOT NULL DEFAULT '[]',
+    read_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+CREATE INDEX IF NOT EXISTS notifications_user_idx ON notifications (user_id, created_at DESC);
@@ -0,0 +1,6 @@
+-- Shared response cache (CACHE_BACKEND=postgres)
+CREATE TABLE IF NOT EXISTS cache_entries (
+    key TEXT PRIMARY KEY,
+    value JSONB NOT NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
@@ -0,0 +1,29 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+
+const listFromEnv = (name: string) =>
+  (process.env[name] || '').split(',').map(value => value.trim().toLowerCase()).filter(Boolean);
+
+// An email only identifies an admin once the identity provider has confirmed the user owns it;
+// otherwise anyone could sign up with an admin's address
+const verifiedEmail = (user: any): string | null =>
+  user.email && user.email_confirmed_at ? String(user.email).toLowerCase() : null;
+
+// Must run after authenticateToken; admins are configured with ADMIN_USER_IDS, or ADMIN_EMAILS
+// for verified addresses
+export const requireAdmin = ((req: Request, res: Response, next: NextFunction) => {
+  const user = (req as any).user;
+  const ids = listFromEnv('ADMIN_USER_IDS');
+  const emails = listFromEnv('ADMIN_EMAILS');
+  const email = user ? verifiedEmail(user) : null;
+
+  const isAdmin = Boolean(user) && (
+    ids.includes(String(user.id).toLowerCase()) ||
+    (email !== null && emails.includes(email))
+  );
+
+  if (!isAdmin) {
+    res.status(403).json({ error: 'Admin access required' });
+    return;
+  }
+  next();
+}) as RequestHandler;
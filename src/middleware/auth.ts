@@ -1,40 +1,73 @@
 import { Request, Response, NextFunction } from 'express';
-import { createClient } from '@supabase/supabase-js';
 import { RequestHandler } from 'express';
 import dotenv from 'dotenv';
+import { getSupabase } from '../services/supabase';
+import { authenticateLocalToken, getAuthMode, isLocalToken, AuthError } from '../services/auth';
+import { authenticateApiKey, isApiKey, ApiKeyScope } from '../services/apiKeys';
+import { logger, setRequestUser } from '../services/observability';
 
 // Load environment variables
 dotenv.config();
 
-const supabaseUrl = process.env.SUPABASE_URL;
-const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+const authenticateSupabaseToken = async (token: string) => {
+  const { data: { user }, error } = await getSupabase().auth.getUser(token);
+  if (error || !user) throw new AuthError('Invalid token');
+  return user;
+};
 
-if (!supabaseUrl || !supabaseKey) {
-  throw new Error('Missing Supabase environment variables');
-}
+// AUTH_MODE picks the verifier; with `both`, tokens issued by /api/auth are verified
+// locally and everything else goes to Supabase
+const authenticateSessionToken = (token: string) => {
+  const mode = getAuthMode();
+  const local = mode === 'local' || (mode === 'both' && isLocalToken(token));
+  return local ? authenticateLocalToken(token) : authenticateSupabaseToken(token);
+};
 
-const supabase = createClient(supabaseUrl, supabaseKey);
+// `Authorization: Bearer <session token or API key>`, or `X-API-Key: <API key>`
+const credentialFrom = (req: Request) => {
+  const apiKeyHeader = req.headers['x-api-key'];
+  if (typeof apiKeyHeader === 'string' && apiKeyHeader) return apiKeyHeader.trim();
+  const authHeader = req.headers.authorization;
+  return authHeader?.startsWith('Bearer ') ? authHeader.slice('Bearer '.length).trim() : undefined;
+};
 
-export const authenticateToken = (async (req: Request, res: Response, next: NextFunction) => {
-  try {
-    const authHeader = req.headers.authorization;
-    
-    if (!authHeader?.startsWith('Bearer ')) {
-      res.status(401).json({ error: 'No token provided' });
-      return;
-    }
-
-    const token = authHeader.split(' ')[1];
-    const { data: { user }, error } = await supabase.auth.getUser(token);
+// Accepts session tokens everywhere. API keys are only accepted when the route names a
+// scope and the key has it, so a leaked key can't manage keys, workspaces or the account.
+export const authenticate = (scope?: ApiKeyScope): RequestHandler =>
+  (async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const credential = credentialFrom(req);
+      if (!credential) {
+        res.status(401).json({ error: 'No token provided' });
+        return;
+      }
 
-    if (error || !user) {
-      res.status(401).json({ error: 'Invalid token' });
-      return;
+      if (isApiKey(credential)) {
+        const { user, apiKey } = await authenticateApiKey(credential);
+        if (!scope) {
+          res.status(403).json({ error: 'API keys cannot be used for this endpoint' });
+          return;
+        }
+        if (!apiKey.scopes.includes(scope)) {
+          res.status(403).json({ error: `This API key lacks the ${scope} scope` });
+          return;
+        }
+        (req as any).user = user;
+        (req as any).apiKey = apiKey;
+      } else {
+        (req as any).user = await authenticateSessionToken(credential);
+      }
+      setRequestUser((req as any).user.id);
+      next();
+    } catch (error) {
+      if (error instanceof AuthError) {
+        res.status(401).json({ error: error.message });
+        return;
+      }
+      logger.error('Authentication error', error);
+      res.status(401).json({ error: 'Authentication failed' });
     }
+  }) as RequestHandler;
 
-    (req as any).user = user;
-    next();
-  } catch (error) {
-    res.status(401).json({ error: 'Authentication failed' });
-  }
-}) as RequestHandler; 
\ No newline at end of file
+// Session tokens only
+export const authenticateToken = authenticate();
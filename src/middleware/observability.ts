@@ -0,0 +1,70 @@
+import crypto from 'crypto';
+import { ErrorRequestHandler, NextFunction, Request, RequestHandler, Response } from 'express';
+import { getRequestId, httpRequestDuration, httpRequests, logger, runWithRequestContext } from '../services/observability';
+
+// Accepted from the caller (e.g. a load balancer) when it looks like an id, otherwise generated
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+// Probes and scrapes are counted but not logged
+const QUIET_PATHS = new Set(['/healthz', '/readyz', '/metrics']);
+// Path segments that are ids; collapsed so metrics have one series per route
+const ID_SEGMENT = /^([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}|\d+|[0-9a-f]{24,})$/i;
+
+const normalizePath = (path: string) =>
+  path.split('/').map(segment => ID_SEGMENT.test(segment) ? ':id' : segment).join('/');
+
+// The matched route pattern, so /api/reports/123 and /api/reports/456 share a label
+const routeLabel = (req: Request) => {
+  if (!req.route) return 'unmatched';
+  const path = `${normalizePath(req.baseUrl)}${req.route.path === '/' && req.baseUrl ? '' : req.route.path}`;
+  return path || '/';
+};
+
+// Error bodies ({ error }) carry the request id so users can quote it in bug reports
+const echoRequestIdInErrors = (res: Response, requestId: string) => {
+  const json = res.json.bind(res);
+  res.json = (body?: any) => {
+    if (res.statusCode >= 400 && body && typeof body === 'object' && !Array.isArray(body) && 'error' in body && !('requestId' in body)) {
+      return json({ ...body, requestId });
+    }
+    return json(body);
+  };
+};
+
+// Assigns the request id, runs the request inside its logging context, and records
+// latency and status once the response is finished
+export const requestContext: RequestHandler = (req: Request, res: Response, next: NextFunction) => {
+  const incoming = req.get('x-request-id');
+  const requestId = incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : crypto.randomUUID();
+  const started = process.hrtime.bigint();
+  const context = { requestId, method: req.method, path: normalizePath(req.path) };
+
+  res.set('X-Request-Id', requestId);
+  echoRequestIdInErrors(res, requestId);
+
+  res.on('finish', () => {
+    const seconds = Number(process.hrtime.bigint() - started) / 1e9;
+    const route = routeLabel(req);
+    httpRequests.inc({ method: req.method, route, status: String(res.statusCode) });
+    httpRequestDuration.observe({ method: req.method, route }, seconds);
+
+    if (QUIET_PATHS.has(req.path)) return;
+    runWithRequestContext(context, () => {
+      const fields = { route, status: res.statusCode, durationMs: Math.round(seconds * 1000) };
+      if (res.statusCode >= 500) logger.error('request failed', fields);
+      else logger.info('request', fields);
+    });
+  });
+
+  runWithRequestContext(context, () => next());
+};
+
+// Last in the chain: errors passed to next() become JSON instead of Express's HTML page
+export const errorHandler: ErrorRequestHandler = (error, req, res, next) => {
+  logger.error('Unhandled error', error);
+  if (res.headersSent) {
+    next(error);
+    return;
+  }
+  res.status(typeof error?.status === 'number' && error.status >= 400 ? error.status : 500)
+    .json({ error: error instanceof Error ? error.message : 'Internal server error', requestId: getRequestId() });
+};
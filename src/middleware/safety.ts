@@ -0,0 +1,45 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { detectInjection, normalizeUserText, InputValidationError } from '../services/safety';
+import { logger, promptInjectionFlags } from '../services/observability';
+
+// Body field -> maximum length in characters
+export type FieldLimits = Record<string, number>;
+
+// PROMPT_INJECTION_POLICY=block rejects flagged input; the default only flags it
+const blocksInjection = () => process.env.PROMPT_INJECTION_POLICY === 'block';
+
+// Normalizes and length-checks the listed body fields in place (missing ones are left to
+// the handler), then screens them for prompt injection. Flagged requests carry
+// `X-Input-Flags: prompt-injection` and `req.inputFlags`.
+export const screenInput = (fields: FieldLimits): RequestHandler =>
+  ((req: Request, res: Response, next: NextFunction) => {
+    const body = req.body ?? {};
+    const signals = new Set<string>();
+
+    try {
+      Object.entries(fields).forEach(([field, maxLength]) => {
+        if (body[field] === undefined || body[field] === null) return;
+        body[field] = normalizeUserText(body[field], field, maxLength);
+        detectInjection(body[field]).forEach(signal => signals.add(signal));
+      });
+    } catch (error) {
+      if (error instanceof InputValidationError) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
+      throw error;
+    }
+
+    if (signals.size > 0) {
+      const flagged = Array.from(signals);
+      promptInjectionFlags.inc({ source: 'user' });
+      logger.warn('Possible prompt injection in request', { path: req.path, signals: flagged });
+      if (blocksInjection()) {
+        res.status(400).json({ error: 'Request looks like an attempt to instruct the model; rephrase it as a research question' });
+        return;
+      }
+      res.set('X-Input-Flags', 'prompt-injection');
+      (req as any).inputFlags = flagged;
+    }
+    next();
+  }) as RequestHandler;
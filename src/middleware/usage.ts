@@ -0,0 +1,29 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { admitRequest, planForUser, withUsageContext, UsageEndpoint, UsageLimitError } from '../services/usage';
+import { logger } from '../services/observability';
+
+// Must run after authenticateToken. Applies the user's plan limits, then runs the
+// handler with a usage context so its LLM token usage is charged to the user.
+export const limitUsage = (endpoint: UsageEndpoint): RequestHandler =>
+  (async (req: Request, res: Response, next: NextFunction) => {
+    const user = (req as any).user;
+    if (!user || !user.id) {
+      res.status(401).json({ error: 'No authenticated user found' });
+      return;
+    }
+
+    try {
+      await admitRequest(user.id, planForUser(user), endpoint);
+    } catch (error) {
+      if (error instanceof UsageLimitError) {
+        res.set('Retry-After', String(error.retryAfter));
+        res.status(429).json({ error: error.message, limit: error.limit, retryAfter: error.retryAfter });
+        return;
+      }
+      logger.error('Usage check error', error);
+      res.status(500).json({ error: 'Failed to check usage limits' });
+      return;
+    }
+
+    withUsageContext({ userId: user.id, endpoint }, () => next());
+  }) as RequestHandler;
@@ -0,0 +1,42 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import {
+  requireWorkspaceRole,
+  WorkspaceNotFoundError,
+  WorkspacePermissionError,
+  WorkspaceValidationError,
+  WorkspaceRole
+} from '../services/workspaces';
+import { logger } from '../services/observability';
+
+// Maps workspace errors to responses; returns false for anything else so the caller can handle it
+export const sendWorkspaceError = (res: Response, error: unknown): boolean => {
+  if (error instanceof WorkspaceNotFoundError) {
+    res.status(404).json({ error: error.message });
+    return true;
+  }
+  if (error instanceof WorkspacePermissionError) {
+    res.status(403).json({ error: error.message });
+    return true;
+  }
+  if (error instanceof WorkspaceValidationError) {
+    res.status(400).json({ error: error.message });
+    return true;
+  }
+  return false;
+};
+
+// Must run after authenticateToken on routes with a :workspaceId param; the caller's
+// role is left on req.workspaceRole for the handler
+export const requireWorkspace = (role: WorkspaceRole): RequestHandler =>
+  (async (req: Request, res: Response, next: NextFunction) => {
+    const user = (req as any).user;
+    try {
+      (req as any).workspaceRole = await requireWorkspaceRole(req.params.workspaceId, user.id, role);
+    } catch (error) {
+      if (sendWorkspaceError(res, error)) return;
+      logger.error('Workspace access error', error);
+      res.status(500).json({ error: 'Failed to check workspace access' });
+      return;
+    }
+    next();
+  }) as RequestHandler;
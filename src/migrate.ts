@@ -0,0 +1,24 @@
+import { getPool } from './services/db';
+import { migrationLabel, migrationStatus, runMigrations } from './services/migrations';
+
+// npm run migrate [up|status]
+const main = async () => {
+  const command = process.argv[2] || 'up';
+  if (command === 'up') {
+    const applied = await runMigrations();
+    console.log(applied.length ? `Applied ${applied.length} migration(s)` : 'Database is up to date');
+  } else if (command === 'status') {
+    for (const migration of await migrationStatus()) {
+      console.log(`${migrationLabel(migration)}\t${migration.appliedAt || 'pending'}`);
+    }
+  } else {
+    throw new Error(`Unknown command "${command}" (expected up or status)`);
+  }
+};
+
+main()
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => getPool().end());
@@ -0,0 +1,25 @@
+import express, { RequestHandler } from 'express';
+import { purgeCache, CACHE_NAMESPACES, CacheNamespace } from '../services/cache';
+import { logger } from '../services/observability';
+
+const router = express.Router();
+
+const purge: RequestHandler = async (req, res) => {
+  const namespace = req.body?.namespace as CacheNamespace | undefined;
+  if (namespace !== undefined && !CACHE_NAMESPACES.includes(namespace)) {
+    res.status(400).json({ error: `namespace must be one of: ${CACHE_NAMESPACES.join(', ')}` });
+    return;
+  }
+
+  try {
+    const purged = await purgeCache(namespace);
+    res.json({ namespace: namespace || 'all', purged });
+  } catch (error) {
+    logger.error('Cache purge error', error);
+    res.status(500).json({ error: 'Failed to purge cache' });
+  }
+};
+
+router.post('/cache/purge', purge);
+
+export default router;
@@ -0,0 +1,161 @@
+import express, { RequestHandler } from 'express';
+import {
+  createAlert,
+  deleteAlert,
+  listAlerts,
+  nextRunAt,
+  runAlertNow,
+  updateAlert,
+  validateWebhookUrl,
+  getAlert,
+  ALERT_FREQUENCIES,
+  AlertFrequency,
+  AlertNotFoundError,
+  AlertValidationError,
+  SearchAlert
+} from '../services/alerts';
+import { hasSearchTerms, parseArxivSearchQuery, resolveSources, ArxivSearchQuery } from '../services/papers';
+import { limitUsage } from '../middleware/usage';
+import { logger } from '../services/observability';
+
+const router = express.Router();
+
+type AlertParams = { id: string };
+type AlertHandler = RequestHandler<AlertParams>;
+
+// seen_ids can hold thousands of keys; clients only need the count
+const toAlertView = ({ seen_ids, ...alert }: SearchAlert) => ({ ...alert, seenCount: seen_ids.length });
+
+const parseFrequency = (value: unknown): AlertFrequency => {
+  if (!ALERT_FREQUENCIES.includes(value as AlertFrequency)) {
+    throw new AlertValidationError(`frequency must be one of: ${ALERT_FREQUENCIES.join(', ')}`);
+  }
+  return value as AlertFrequency;
+};
+
+const parseWebhook = (value: unknown) =>
+  value === undefined || value === null || value === '' ? null : validateWebhookUrl(value);
+
+const sendError = (res: express.Response, error: unknown, fallback: string, label: string) => {
+  if (error instanceof AlertNotFoundError) {
+    res.status(404).json({ error: error.message });
+    return;
+  }
+  if (error instanceof AlertValidationError) {
+    res.status(400).json({ error: error.message });
+    return;
+  }
+  logger.error(`${label} error`, error);
+  res.status(500).json({ error: error instanceof Error ? error.message : fallback });
+};
+
+const listAlertsHandler: RequestHandler = async (req, res) => {
+  try {
+    const user = (req as any).user;
+    res.json({ alerts: (await listAlerts(user.id)).map(toAlertView) });
+  } catch (error) {
+    sendError(res, error, 'Failed to list alerts', 'List alerts');
+  }
+};
+
+const createAlertHandler: RequestHandler = async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const searchId = typeof req.body.searchId === 'string' ? req.body.searchId.trim() : '';
+    if (!searchId) throw new AlertValidationError('searchId is required');
+
+    let query: ArxivSearchQuery | undefined;
+    let sources;
+    try {
+      const parsed = parseArxivSearchQuery(req.body);
+      query = hasSearchTerms(parsed) ? parsed : undefined;
+      sources = resolveSources(req.body.sources);
+    } catch (error) {
+      throw new AlertValidationError((error as Error).message);
+    }
+
+    const alert = await createAlert(user.id, {
+      searchId,
+      frequency: parseFrequency(req.body.frequency ?? 'weekly'),
+      query,
+      sources,
+      webhookUrl: parseWebhook(req.body.webhookUrl)
+    });
+    res.status(201).json({ alert: toAlertView(alert) });
+  } catch (error) {
+    sendError(res, error, 'Failed to create alert', 'Create alert');
+  }
+};
+
+const getAlertHandler: AlertHandler = async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const alert = await getAlert(req.params.id, user.id);
+    if (!alert) throw new AlertNotFoundError();
+    res.json({ alert: toAlertView(alert) });
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch alert', 'Get alert');
+  }
+};
+
+// Changes frequency, pauses/resumes (`active`) or sets the webhook
+const updateAlertHandler: AlertHandler = async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const existing = await getAlert(req.params.id, user.id);
+    if (!existing) throw new AlertNotFoundError();
+
+    const changes: Partial<SearchAlert> = {};
+    if (req.body.frequency !== undefined) changes.frequency = parseFrequency(req.body.frequency);
+    if (req.body.webhookUrl !== undefined) changes.webhook_url = parseWebhook(req.body.webhookUrl);
+    if (req.body.active !== undefined) {
+      if (typeof req.body.active !== 'boolean') throw new AlertValidationError('active must be a boolean');
+      changes.active = req.body.active;
+    }
+    if (Object.keys(changes).length === 0) {
+      throw new AlertValidationError('Nothing to update: set frequency, active or webhookUrl');
+    }
+
+    // A new frequency, or resuming a paused alert, starts the schedule from now
+    const frequency = changes.frequency || existing.frequency;
+    if (changes.frequency || (changes.active && !existing.active)) {
+      changes.next_run_at = nextRunAt(frequency, new Date()).toISOString();
+    }
+
+    const alert = await updateAlert(req.params.id, user.id, changes);
+    if (!alert) throw new AlertNotFoundError();
+    res.json({ alert: toAlertView(alert) });
+  } catch (error) {
+    sendError(res, error, 'Failed to update alert', 'Update alert');
+  }
+};
+
+const deleteAlertHandler: AlertHandler = async (req, res) => {
+  try {
+    const user = (req as any).user;
+    if (!await deleteAlert(req.params.id, user.id)) throw new AlertNotFoundError();
+    res.status(204).end();
+  } catch (error) {
+    sendError(res, error, 'Failed to delete alert', 'Delete alert');
+  }
+};
+
+// Runs the alert immediately without moving its schedule
+const runAlertHandler: AlertHandler = async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const { alert, newPapers, notification, webhook } = await runAlertNow(req.params.id, user.id);
+    res.json({ alert: toAlertView(alert), newPapers: newPapers.length, notification, webhook });
+  } catch (error) {
+    sendError(res, error, 'Failed to run alert', 'Run alert');
+  }
+};
+
+router.get('/', listAlertsHandler);
+router.post('/', createAlertHandler);
+router.get('/:id', getAlertHandler);
+router.patch('/:id', updateAlertHandler);
+router.delete('/:id', deleteAlertHandler);
+router.post('/:id/run', limitUsage('search'), runAlertHandler);
+
+export default router;
@@ -0,0 +1,78 @@
+import express, { RequestHandler } from 'express';
+import {
+  createApiKey,
+  listApiKeys,
+  renameApiKey,
+  revokeApiKey,
+  ApiKeyNotFoundError,
+  ApiKeyValidationError
+} from '../services/apiKeys';
+import { logger } from '../services/observability';
+
+const router = express.Router();
+
+type ApiKeyParams = { id: string };
+type ApiKeyHandler = RequestHandler<ApiKeyParams>;
+
+const sendError = (res: express.Response, error: unknown, fallback: string, label: string) => {
+  if (error instanceof ApiKeyNotFoundError) {
+    res.status(404).json({ error: error.message });
+    return;
+  }
+  if (error instanceof ApiKeyValidationError) {
+    res.status(400).json({ error: error.message });
+    return;
+  }
+  logger.error(`${label} error`, error);
+  res.status(500).json({ error: error instanceof Error ? error.message : fallback });
+};
+
+const listApiKeysHandler: RequestHandler = async (req, res) => {
+  try {
+    const user = (req as any).user;
+    res.json({ apiKeys: await listApiKeys(user.id) });
+  } catch (error) {
+    sendError(res, error, 'Failed to list API keys', 'List API keys');
+  }
+};
+
+// The key is in this response only; it can't be retrieved later
+const createApiKeyHandler: RequestHandler = async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const { apiKey, key } = await createApiKey(user.id, {
+      name: req.body.name,
+      scopes: req.body.scopes,
+      expiresInDays: req.body.expiresInDays
+    });
+    res.status(201).json({ apiKey, key });
+  } catch (error) {
+    sendError(res, error, 'Failed to create API key', 'Create API key');
+  }
+};
+
+const renameApiKeyHandler: ApiKeyHandler = async (req, res) => {
+  try {
+    const user = (req as any).user;
+    res.json({ apiKey: await renameApiKey(req.params.id, user.id, req.body.name) });
+  } catch (error) {
+    sendError(res, error, 'Failed to rename API key', 'Rename API key');
+  }
+};
+
+const revokeApiKeyHandler: ApiKeyHandler = async (req, res) => {
+  try {
+    const user = (req as any).user;
+    await revokeApiKey(req.params.id, user.id);
+    res.status(204).end();
+  } catch (error) {
+    sendError(res, error, 'Failed to revoke API key', 'Revoke API key');
+  }
+};
+
+router.get('/', listApiKeysHandler);
+router.post('/', createApiKeyHandler);
+router.patch('/:id', renameApiKeyHandler);
+router.delete('/:id', revokeApiKeyHandler);
+
+export default router;
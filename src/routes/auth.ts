@@ -1,4 +1,17 @@
 import express, { Request, Response, RequestHandler } from 'express';
+import {
+  refreshSession,
+  requestPasswordReset,
+  resendVerification,
+  resetPassword,
+  signIn,
+  signOut,
+  signUp,
+  verifyEmail,
+  AuthError
+} from '../services/auth';
+import { authenticateToken } from '../middleware/auth';
+import { logger } from '../services/observability';
 
 const router = express.Router();
 
@@ -11,36 +24,147 @@ interface SignUpBody extends SignInBody {
   fullName: string;
 }
 
+interface RefreshBody {
+  refreshToken: string;
+}
+
+interface LogoutBody {
+  refreshToken?: string;
+  // Revoke every session of the user, not just this one
+  allSessions?: boolean;
+}
+
+interface ForgotPasswordBody {
+  email: string;
+}
+
+interface ResetPasswordBody {
+  token: string;
+  password: string;
+}
+
+interface VerifyEmailBody {
+  token: string;
+}
+
 type SignUpHandler = RequestHandler<{}, any, SignUpBody>;
 type SignInHandler = RequestHandler<{}, any, SignInBody>;
+type RefreshHandler = RequestHandler<{}, any, RefreshBody>;
+type LogoutHandler = RequestHandler<{}, any, LogoutBody>;
+type ForgotPasswordHandler = RequestHandler<{}, any, ForgotPasswordBody>;
+type ResetPasswordHandler = RequestHandler<{}, any, ResetPasswordBody>;
+type VerifyEmailHandler = RequestHandler<{}, any, VerifyEmailBody>;
+type ResendVerificationHandler = RequestHandler<{}, any, ForgotPasswordBody>;
+
+const handleError = (res: Response, error: unknown, label: string) => {
+  if (error instanceof AuthError) {
+    res.status(error.status).json({ error: error.message });
+    return;
+  }
+  logger.error(`${label} error`, error);
+  res.status(500).json({ error: error instanceof Error ? error.message : `${label} failed` });
+};
+
+const bearerToken = (req: Request) => {
+  const header = req.headers.authorization;
+  return header?.startsWith('Bearer ') ? header.slice('Bearer '.length) : undefined;
+};
 
 const signUpHandler: SignUpHandler = async (req, res) => {
   try {
-    // Just return success since auth is handled by Supabase
-    res.json({ 
-      message: 'Signup successful'
-    });
-  } catch (error: any) {
-    res.status(400).json({ 
-      error: error.message 
-    });
+    const { user, session } = await signUp(req.body, req.get('user-agent'));
+    const message = session ? 'Signup successful' : 'Signup successful; check your email to verify your address';
+    res.status(201).json({ message, user, session });
+  } catch (error) {
+    handleError(res, error, 'Signup');
   }
 };
 
 const signInHandler: SignInHandler = async (req, res) => {
   try {
-    // Just return success since auth is handled by Supabase
-    res.json({ 
-      message: 'Signin successful'
-    });
-  } catch (error: any) {
-    res.status(500).json({ 
-      error: error.message 
-    });
+    const { user, session } = await signIn(req.body, req.get('user-agent'));
+    res.json({ message: 'Signin successful', user, session });
+  } catch (error) {
+    handleError(res, error, 'Signin');
   }
 };
 
+const refreshHandler: RefreshHandler = async (req, res) => {
+  try {
+    const { user, session } = await refreshSession(req.body.refreshToken);
+    res.json({ user, session });
+  } catch (error) {
+    handleError(res, error, 'Token refresh');
+  }
+};
+
+// Accepts the access token, or the refresh token when the access token has already expired
+const logoutHandler: LogoutHandler = async (req, res) => {
+  try {
+    const allSessions = req.body.allSessions === true;
+    if (typeof req.body.refreshToken === 'string' && req.body.refreshToken) {
+      await signOut(req.body.refreshToken, { type: 'refresh', allSessions });
+    } else {
+      const token = bearerToken(req);
+      if (!token) throw new AuthError('No token provided');
+      await signOut(token, { type: 'access', allSessions });
+    }
+    res.status(204).end();
+  } catch (error) {
+    handleError(res, error, 'Logout');
+  }
+};
+
+const forgotPasswordHandler: ForgotPasswordHandler = async (req, res) => {
+  try {
+    await requestPasswordReset(req.body.email);
+    // Same answer whether or not the account exists
+    res.json({ message: 'If an account exists for this email, a reset link has been sent' });
+  } catch (error) {
+    handleError(res, error, 'Password reset request');
+  }
+};
+
+const resetPasswordHandler: ResetPasswordHandler = async (req, res) => {
+  try {
+    await resetPassword(req.body.token, req.body.password);
+    res.json({ message: 'Password updated; sign in again' });
+  } catch (error) {
+    handleError(res, error, 'Password reset');
+  }
+};
+
+const verifyEmailHandler: VerifyEmailHandler = async (req, res) => {
+  try {
+    const { user } = await verifyEmail(req.body.token);
+    res.json({ message: 'Email verified; you can sign in now', user });
+  } catch (error) {
+    handleError(res, error, 'Email verification');
+  }
+};
+
+const resendVerificationHandler: ResendVerificationHandler = async (req, res) => {
+  try {
+    await resendVerification(req.body.email);
+    // Same answer whether or not the account exists
+    res.json({ message: 'If an unverified account exists for this email, a verification link has been sent' });
+  } catch (error) {
+    handleError(res, error, 'Verification request');
+  }
+};
+
+const meHandler: RequestHandler = (req, res) => {
+  res.json({ user: (req as any).user });
+};
+
 router.post('/signup', signUpHandler);
 router.post('/signin', signInHandler);
+router.post('/refresh', refreshHandler);
+router.post('/logout', logoutHandler);
+router.post('/forgot-password', forgotPasswordHandler);
+router.post('/reset-password', resetPasswordHandler);
+router.post('/verify-email', verifyEmailHandler);
+router.post('/resend-verification', resendVerificationHandler);
+router.get('/me', authenticateToken, meHandler);
 
-export default router; 
\ No newline at end of file
+export default router;
@@ -0,0 +1,191 @@
+import express, { RequestHandler, Response } from 'express';
+import {
+  addPapersToCollection,
+  deleteCollection,
+  deleteCollectionPaper,
+  getCollection,
+  insertCollection,
+  listCollectionPapers,
+  listCollectionReports,
+  listCollections,
+  placeReport,
+  updateCollection,
+  validateName,
+  Collection,
+  WorkspaceNotFoundError,
+  WorkspaceValidationError
+} from '../services/workspaces';
+import { requireWorkspace, sendWorkspaceError } from '../middleware/workspace';
+import { logger } from '../services/observability';
+
+// Mounted under /api/workspaces/:workspaceId/collections
+const router = express.Router({ mergeParams: true });
+
+const MAX_PAPERS_PER_REQUEST = 100;
+const MAX_DESCRIPTION_LENGTH = 2000;
+
+type WorkspaceParams = { workspaceId: string };
+type CollectionParams = WorkspaceParams & { collectionId: string };
+type ItemParams = CollectionParams & { itemId: string };
+
+const handleError = (res: Response, error: unknown, label: string, fallback: string) => {
+  if (sendWorkspaceError(res, error)) return;
+  logger.error(`${label} error`, error);
+  res.status(500).json({ error: error instanceof Error ? error.message : fallback });
+};
+
+const parseDescription = (value: unknown): string | null => {
+  if (value === undefined || value === null || value === '') return null;
+  if (typeof value !== 'string') throw new WorkspaceValidationError('description must be a string');
+  if (value.length > MAX_DESCRIPTION_LENGTH) {
+    throw new WorkspaceValidationError(`description must be at most ${MAX_DESCRIPTION_LENGTH} characters`);
+  }
+  return value.trim() || null;
+};
+
+const loadCollection = async (params: CollectionParams): Promise<Collection> => {
+  const collection = await getCollection(params.workspaceId, params.collectionId);
+  if (!collection) throw new WorkspaceNotFoundError('Collection not found');
+  return collection;
+};
+
+const listCollectionsHandler: RequestHandler<WorkspaceParams> = async (req, res) => {
+  try {
+    res.json({ collections: await listCollections(req.params.workspaceId) });
+  } catch (error) {
+    handleError(res, error, 'List collections', 'Failed to list collections');
+  }
+};
+
+const createCollectionHandler: RequestHandler<WorkspaceParams> = async (req, res) => {
+  try {
+    const collection = await insertCollection({
+      workspace_id: req.params.workspaceId,
+      name: validateName(req.body.name, 'Name'),
+      description: parseDescription(req.body.description),
+      created_by: (req as any).user.id,
+      created_at: new Date().toISOString()
+    });
+    res.status(201).json({ collection });
+  } catch (error) {
+    handleError(res, error, 'Create collection', 'Failed to create collection');
+  }
+};
+
+const getCollectionHandler: RequestHandler<CollectionParams> = async (req, res) => {
+  try {
+    const collection = await loadCollection(req.params);
+    const [papers, reports] = await Promise.all([
+      listCollectionPapers(collection.id),
+      listCollectionReports(collection.workspace_id, collection.id)
+    ]);
+    res.json({ collection, papers, reports });
+  } catch (error) {
+    handleError(res, error, 'Get collection', 'Failed to fetch collection');
+  }
+};
+
+const updateCollectionHandler: RequestHandler<CollectionParams> = async (req, res) => {
+  try {
+    const changes: Partial<Pick<Collection, 'name' | 'description'>> = {};
+    if (req.body.name !== undefined) changes.name = validateName(req.body.name, 'Name');
+    if (req.body.description !== undefined) changes.description = parseDescription(req.body.description);
+    if (Object.keys(changes).length === 0) throw new WorkspaceValidationError('Nothing to update: set name or description');
+
+    const collection = await updateCollection(req.params.workspaceId, req.params.collectionId, changes);
+    if (!collection) throw new WorkspaceNotFoundError('Collection not found');
+    res.json({ collection });
+  } catch (error) {
+    handleError(res, error, 'Update collection', 'Failed to update collection');
+  }
+};
+
+// Reports in the collection stay in the workspace
+const deleteCollectionHandler: RequestHandler<CollectionParams> = async (req, res) => {
+  try {
+    if (!await deleteCollection(req.params.workspaceId, req.params.collectionId)) {
+      throw new WorkspaceNotFoundError('Collection not found');
+    }
+    res.status(204).end();
+  } catch (error) {
+    handleError(res, error, 'Delete collection', 'Failed to delete collection');
+  }
+};
+
+// Takes papers as returned by /api/search-papers; papers already in the collection are skipped
+const addPapersHandler: RequestHandler<CollectionParams> = async (req, res) => {
+  try {
+    const collection = await loadCollection(req.params);
+    const papers = req.body.papers;
+    if (!Array.isArray(papers) || papers.length === 0) throw new WorkspaceValidationError('papers must be a non-empty array');
+    if (papers.length > MAX_PAPERS_PER_REQUEST) {
+      throw new WorkspaceValidationError(`At most ${MAX_PAPERS_PER_REQUEST} papers can be added at once`);
+    }
+    if (papers.some(paper => !paper || typeof paper.title !== 'string' || !paper.title.trim())) {
+      throw new WorkspaceValidationError('Every paper needs a title');
+    }
+    const note = typeof req.body.note === 'string' ? req.body.note.trim().slice(0, MAX_DESCRIPTION_LENGTH) : undefined;
+
+    const { added, skipped } = await addPapersToCollection(collection, (req as any).user.id, papers, note);
+    res.status(201).json({ added, skipped });
+  } catch (error) {
+    handleError(res, error, 'Add collection papers', 'Failed to add papers');
+  }
+};
+
+const removePaperHandler: RequestHandler<ItemParams> = async (req, res) => {
+  try {
+    const collection = await loadCollection(req.params);
+    if (!await deleteCollectionPaper(collection.id, req.params.itemId)) {
+      throw new WorkspaceNotFoundError('Paper not found in collection');
+    }
+    res.status(204).end();
+  } catch (error) {
+    handleError(res, error, 'Remove collection paper', 'Failed to remove paper');
+  }
+};
+
+// Files an existing report (personal or in this workspace) under the collection
+const addReportHandler: RequestHandler<CollectionParams> = async (req, res) => {
+  try {
+    const reportId = req.body.reportId;
+    if (reportId === undefined || reportId === null || reportId === '') throw new WorkspaceValidationError('reportId is required');
+    const report = await placeReport(String(reportId), (req as any).user.id, {
+      workspaceId: req.params.workspaceId,
+      collectionId: req.params.collectionId
+    });
+    res.json({ report });
+  } catch (error) {
+    handleError(res, error, 'Add collection report', 'Failed to add report');
+  }
+};
+
+// The report stays in the workspace, outside any collection
+const removeReportHandler: RequestHandler<ItemParams> = async (req, res) => {
+  try {
+    const collection = await loadCollection(req.params);
+    const reports = await listCollectionReports(collection.workspace_id, collection.id);
+    if (!reports.some(report => String(report.id) === req.params.itemId)) {
+      throw new WorkspaceNotFoundError('Report not found in collection');
+    }
+    const report = await placeReport(req.params.itemId, (req as any).user.id, {
+      workspaceId: req.params.workspaceId,
+      collectionId: null
+    });
+    res.json({ report });
+  } catch (error) {
+    handleError(res, error, 'Remove collection report', 'Failed to remove report');
+  }
+};
+
+router.get('/', requireWorkspace('viewer'), listCollectionsHandler);
+router.post('/', requireWorkspace('editor'), createCollectionHandler);
+router.get('/:collectionId', requireWorkspace('viewer'), getCollectionHandler);
+router.patch('/:collectionId', requireWorkspace('editor'), updateCollectionHandler);
+router.delete('/:collectionId', requireWorkspace('editor'), deleteCollectionHandler);
+router.post('/:collectionId/papers', requireWorkspace('editor'), addPapersHandler);
+router.delete('/:collectionId/papers/:itemId', requireWorkspace('editor'), removePaperHandler);
+router.post('/:collectionId/reports', requireWorkspace('editor'), addReportHandler);
+router.delete('/:collectionId/reports/:itemId', requireWorkspace('editor'), removeReportHandler);
+
+export default router;
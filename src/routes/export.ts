@@ -0,0 +1,126 @@
+import express, { RequestHandler, Response } from 'express';
+import { findAccessibleReport } from '../services/workspaces';
+import { Paper } from '../services/papers';
+import {
+  citationKeys,
+  formatCitations,
+  formatReferences,
+  formatReferenceSection,
+  toCitablePaper,
+  CITATION_FORMATS,
+  CITATION_CONTENT_TYPES,
+  REFERENCE_STYLES,
+  CitationFormat,
+  ReferenceStyle
+} from '../services/citations';
+import { logger } from '../services/observability';
+
+const router = express.Router();
+
+const MAX_PAPERS = 500;
+
+interface PaperSelection {
+  reportId?: string | number;
+  papers?: any[];
+}
+
+interface CitationsBody extends PaperSelection {
+  format?: CitationFormat;
+}
+
+interface ReferencesBody extends PaperSelection {
+  style?: ReferenceStyle;
+}
+
+type CitationsHandler = RequestHandler<{}, any, CitationsBody>;
+type ReferencesHandler = RequestHandler<{}, any, ReferencesBody>;
+
+// Papers come either from a saved report/search the user can view or from the request body.
+// Sends the error response itself and returns null when the selection is invalid.
+const loadPapers = async (body: PaperSelection, userId: string, res: Response): Promise<{ papers: Paper[]; title?: string } | null> => {
+  if (body.reportId !== undefined && body.reportId !== null && body.reportId !== '') {
+    const data = await findAccessibleReport(body.reportId, userId, 'viewer');
+    if (!data) {
+      res.status(404).json({ error: 'Report not found' });
+      return null;
+    }
+
+    const papers = Array.isArray(data.papers) ? data.papers : [];
+    if (papers.length === 0) {
+      res.status(422).json({ error: 'This report has no stored papers' });
+      return null;
+    }
+    return { papers: papers.map(toCitablePaper), title: data.title };
+  }
+
+  if (!Array.isArray(body.papers) || body.papers.length === 0) {
+    res.status(400).json({ error: 'Either reportId or a non-empty papers array is required' });
+    return null;
+  }
+  if (body.papers.length > MAX_PAPERS) {
+    res.status(400).json({ error: `At most ${MAX_PAPERS} papers can be exported at once` });
+    return null;
+  }
+
+  const papers = body.papers.map(toCitablePaper);
+  if (papers.some(paper => !paper.title)) {
+    res.status(400).json({ error: 'Every paper needs a title' });
+    return null;
+  }
+  return { papers };
+};
+
+const fileName = (title: string | undefined, extension: string) => {
+  const slug = (title || 'citations').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60);
+  return `${slug || 'citations'}.${extension}`;
+};
+
+const exportCitationsHandler: CitationsHandler = async (req, res) => {
+  try {
+    const format = req.body.format || 'bibtex';
+    if (!CITATION_FORMATS.includes(format)) {
+      res.status(400).json({ error: `format must be one of: ${CITATION_FORMATS.join(', ')}` });
+      return;
+    }
+
+    const selection = await loadPapers(req.body, (req as any).user.id, res);
+    if (!selection) return;
+
+    const { contentType, extension } = CITATION_CONTENT_TYPES[format];
+    const output = formatCitations(selection.papers, citationKeys(selection.papers), format);
+
+    res.setHeader('Content-Type', `${contentType}; charset=utf-8`);
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName(selection.title, extension)}"`);
+    res.send(output);
+  } catch (error) {
+    logger.error('Citation export error', error);
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to export citations' });
+  }
+};
+
+const exportReferencesHandler: ReferencesHandler = async (req, res) => {
+  try {
+    const style = req.body.style || 'apa';
+    if (!REFERENCE_STYLES.includes(style)) {
+      res.status(400).json({ error: `style must be one of: ${REFERENCE_STYLES.join(', ')}` });
+      return;
+    }
+
+    const selection = await loadPapers(req.body, (req as any).user.id, res);
+    if (!selection) return;
+
+    res.json({
+      style,
+      references: formatReferences(selection.papers, style),
+      markdown: formatReferenceSection(selection.papers, style)
+    });
+  } catch (error) {
+    logger.error('Reference export error', error);
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to format references' });
+  }
+};
+
+router.post('/citations', exportCitationsHandler);
+router.post('/references', exportReferencesHandler);
+
+export default router;
@@ -0,0 +1,48 @@
+import crypto from 'crypto';
+import express, { RequestHandler } from 'express';
+import { checkHealth, checkReadiness, HealthReport } from '../services/health';
+import { logger, renderMetrics } from '../services/observability';
+
+const router = express.Router();
+
+const sendReport = (res: express.Response, report: HealthReport) => {
+  res.status(report.status === 'ok' ? 200 : 503).json(report);
+};
+
+const healthHandler: RequestHandler = async (req, res) => {
+  try {
+    sendReport(res, await checkHealth());
+  } catch (error) {
+    logger.error('Health check error', error);
+    res.status(503).json({ status: 'error', error: 'Health check failed' });
+  }
+};
+
+const readinessHandler: RequestHandler = async (req, res) => {
+  try {
+    sendReport(res, await checkReadiness());
+  } catch (error) {
+    logger.error('Readiness check error', error);
+    res.status(503).json({ status: 'error', error: 'Readiness check failed' });
+  }
+};
+
+// Hashing first gives equal-length buffers whatever the input, including non-ASCII headers
+const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+const matches = (given: string, expected: string) => crypto.timingSafeEqual(digest(given), digest(expected));
+
+// With METRICS_TOKEN set, scrapers must send it as a bearer token
+const metricsHandler: RequestHandler = (req, res) => {
+  const token = process.env.METRICS_TOKEN;
+  if (token && !matches(req.get('authorization') || '', `Bearer ${token}`)) {
+    res.status(401).json({ error: 'Invalid metrics token' });
+    return;
+  }
+  res.type('text/plain; version=0.0.4').send(renderMetrics());
+};
+
+router.get('/healthz', healthHandler);
+router.get('/readyz', readinessHandler);
+router.get('/metrics', metricsHandler);
+
+export default router;
@@ -0,0 +1,66 @@
+import express, { RequestHandler } from 'express';
+import { countUnreadNotifications, listNotifications, markNotificationsRead } from '../services/alerts';
+import { logger } from '../services/observability';
+
+const router = express.Router();
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+interface ListQuery {
+  page?: string;
+  pageSize?: string;
+  unread?: string;
+}
+
+type ListHandler = RequestHandler<{}, any, any, ListQuery>;
+type ReadHandler = RequestHandler<{ id: string }>;
+
+const listNotificationsHandler: ListHandler = async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const page = Math.max(1, parseInt(req.query.page || '1', 10) || 1);
+    const pageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, parseInt(req.query.pageSize || '', 10) || DEFAULT_PAGE_SIZE));
+
+    const [{ notifications, total }, unread] = await Promise.all([
+      listNotifications(user.id, {
+        unreadOnly: req.query.unread === 'true',
+        from: (page - 1) * pageSize,
+        to: page * pageSize - 1
+      }),
+      countUnreadNotifications(user.id)
+    ]);
+
+    res.json({ notifications, page, pageSize, total, unread });
+  } catch (error) {
+    logger.error('List notifications error', error);
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to list notifications' });
+  }
+};
+
+const markReadHandler: ReadHandler = async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const updated = await markNotificationsRead(user.id, req.params.id);
+    res.json({ updated });
+  } catch (error) {
+    logger.error('Mark notification read error', error);
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to update notification' });
+  }
+};
+
+const markAllReadHandler: RequestHandler = async (req, res) => {
+  try {
+    const user = (req as any).user;
+    res.json({ updated: await markNotificationsRead(user.id) });
+  } catch (error) {
+    logger.error('Mark notifications read error', error);
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to update notifications' });
+  }
+};
+
+router.get('/', listNotificationsHandler);
+router.post('/read-all', markAllReadHandler);
+router.post('/:id/read', markReadHandler);
+
+export default router;
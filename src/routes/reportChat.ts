@@ -0,0 +1,77 @@
+import express, { RequestHandler } from 'express';
+import { askAboutReport, clearMessages, listMessages, loadChatReport, ReportNotFoundError } from '../services/chat';
+import { limitUsage } from '../middleware/usage';
+import { screenInput } from '../middleware/safety';
+import { logger } from '../services/observability';
+
+// Mounted under /api/reports/:id/chat
+const router = express.Router({ mergeParams: true });
+
+const MAX_QUESTION_LENGTH = 2000;
+
+type ChatParams = { id: string };
+type ChatHandler = RequestHandler<ChatParams>;
+
+const getHistoryHandler: ChatHandler = async (req, res) => {
+  try {
+    const user = (req as any).user;
+    if (!await loadChatReport(req.params.id, user.id)) {
+      res.status(404).json({ error: 'Report not found' });
+      return;
+    }
+    res.json({ messages: await listMessages(req.params.id, user.id) });
+  } catch (error) {
+    logger.error('Report chat history error', error);
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to load conversation' });
+  }
+};
+
+const askHandler: ChatHandler = async (req, res) => {
+  const message = typeof req.body.message === 'string' ? req.body.message.trim() : '';
+  if (!message) {
+    res.status(400).json({ error: 'Message is required' });
+    return;
+  }
+  if (message.length > MAX_QUESTION_LENGTH) {
+    res.status(400).json({ error: `Message must be at most ${MAX_QUESTION_LENGTH} characters` });
+    return;
+  }
+
+  // Stop spending tokens once the client has gone
+  const controller = new AbortController();
+  res.on('close', () => controller.abort());
+
+  try {
+    const user = (req as any).user;
+    const { question, answer } = await askAboutReport(req.params.id, user.id, message, controller.signal);
+    res.json({ question, answer, citations: answer.citations || [] });
+  } catch (error) {
+    if (error instanceof ReportNotFoundError) {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+    if (controller.signal.aborted) return;
+    logger.error('Report chat error', error);
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to answer question' });
+  }
+};
+
+const clearHistoryHandler: ChatHandler = async (req, res) => {
+  try {
+    const user = (req as any).user;
+    if (!await loadChatReport(req.params.id, user.id)) {
+      res.status(404).json({ error: 'Report not found' });
+      return;
+    }
+    res.json({ deleted: await clearMessages(req.params.id, user.id) });
+  } catch (error) {
+    logger.error('Report chat clear error', error);
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to clear conversation' });
+  }
+};
+
+router.get('/', getHistoryHandler);
+router.post('/', screenInput({ message: MAX_QUESTION_LENGTH }), limitUsage('chat'), askHandler);
+router.delete('/', clearHistoryHandler);
+
+export default router;
@@ -0,0 +1,111 @@
+import express, { RequestHandler, Response } from 'express';
+import { reportJobQueue, JobStateError, ReportJob, toJobStatus } from '../services/jobs';
+import { summarizeSections } from '../services/report';
+import { requireWorkspaceRole } from '../services/workspaces';
+import { sendWorkspaceError } from '../middleware/workspace';
+import { limitUsage } from '../middleware/usage';
+import { logger } from '../services/observability';
+
+const router = express.Router();
+
+type JobParams = { id: string };
+type JobHandler = RequestHandler<JobParams>;
+
+// Jobs belonging to other users are reported as missing
+const findOwnJob = async (id: string, userId: string): Promise<ReportJob | null> => {
+  const job = await reportJobQueue.get(id);
+  return job && job.userId === userId ? job : null;
+};
+
+const handleError = (res: Response, error: unknown) => {
+  if (error instanceof JobStateError) {
+    res.status(error.message === 'Job not found' ? 404 : 409).json({ error: error.message });
+    return;
+  }
+  logger.error('Report job error', error);
+  res.status(500).json({ error: error instanceof Error ? error.message : 'Report job request failed' });
+};
+
+const listJobsHandler: RequestHandler = async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const jobs = await reportJobQueue.list(user.id);
+    res.json({ jobs: jobs.map(toJobStatus) });
+  } catch (error) {
+    handleError(res, error);
+  }
+};
+
+const getJobHandler: JobHandler = async (req, res) => {
+  try {
+    const job = await findOwnJob(req.params.id, (req as any).user.id);
+    if (!job) {
+      res.status(404).json({ error: 'Job not found' });
+      return;
+    }
+    res.json(toJobStatus(job));
+  } catch (error) {
+    handleError(res, error);
+  }
+};
+
+// Whatever has been produced so far, even for failed or cancelled jobs
+const getJobResultHandler: JobHandler = async (req, res) => {
+  try {
+    const job = await findOwnJob(req.params.id, (req as any).user.id);
+    if (!job) {
+      res.status(404).json({ error: 'Job not found' });
+      return;
+    }
+    res.json({
+      ...toJobStatus(job),
+      papers: job.papers || [],
+      analyses: (job.analyses || []).filter(Boolean),
+      report: job.report || null,
+      sections: summarizeSections(job.sections || []),
+      consistencyIssues: job.consistencyIssues || [],
+      citations: job.citations || null,
+      savedReport: job.savedReport || null
+    });
+  } catch (error) {
+    handleError(res, error);
+  }
+};
+
+const cancelJobHandler: JobHandler = async (req, res) => {
+  try {
+    const job = await findOwnJob(req.params.id, (req as any).user.id);
+    if (!job) {
+      res.status(404).json({ error: 'Job not found' });
+      return;
+    }
+    res.json(toJobStatus(await reportJobQueue.cancel(job.id)));
+  } catch (error) {
+    handleError(res, error);
+  }
+};
+
+// Resuming spends tokens like a new report, and the user must still be allowed to write into the workspace
+const resumeJobHandler: JobHandler = async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const job = await findOwnJob(req.params.id, user.id);
+    if (!job) {
+      res.status(404).json({ error: 'Job not found' });
+      return;
+    }
+    if (job.workspaceId) await requireWorkspaceRole(job.workspaceId, user.id, 'editor');
+    res.status(202).json(toJobStatus(await reportJobQueue.resume(job.id)));
+  } catch (error) {
+    if (sendWorkspaceError(res, error)) return;
+    handleError(res, error);
+  }
+};
+
+router.get('/', listJobsHandler);
+router.get('/:id', getJobHandler);
+router.get('/:id/result', getJobResultHandler);
+router.post('/:id/cancel', cancelJobHandler);
+router.post('/:id/resume', limitUsage('report'), resumeJobHandler);
+
+export default router;
@@ -0,0 +1,195 @@
+import express, { RequestHandler, Response } from 'express';
+import { getReportRepository, ReportScope, ReportType } from '../services/reports';
+import { findAccessibleReport, listWorkspacesForUser, requireWorkspaceRole } from '../services/workspaces';
+import { sendWorkspaceError } from '../middleware/workspace';
+import { logger } from '../services/observability';
+import { sanitizeMarkdown } from '../services/safety';
+
+const router = express.Router();
+
+const REPORT_TYPES: ReportType[] = ['report', 'search'];
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const MAX_TITLE_LENGTH = 500;
+
+type ReportParams = { id: string };
+
+interface ListQuery {
+  page?: string;
+  pageSize?: string;
+  type?: string;
+  // Lists the workspace's reports instead of the user's own
+  workspaceId?: string;
+  collectionId?: string;
+}
+
+interface SearchQuery extends ListQuery {
+  q?: string;
+}
+
+interface RenameBody {
+  title: string;
+}
+
+type ListHandler = RequestHandler<{}, any, any, ListQuery>;
+type SearchHandler = RequestHandler<{}, any, any, SearchQuery>;
+type GetHandler = RequestHandler<ReportParams>;
+type RenameHandler = RequestHandler<ReportParams, any, RenameBody>;
+type DeleteHandler = RequestHandler<ReportParams>;
+
+const parsePaging = (query: ListQuery) => {
+  const page = Math.max(1, parseInt(query.page || '1', 10) || 1);
+  const pageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, parseInt(query.pageSize || '', 10) || DEFAULT_PAGE_SIZE));
+  return { page, pageSize, offset: (page - 1) * pageSize };
+};
+
+const parseType = (type: string | undefined, res: Response): ReportType | null | undefined => {
+  if (!type) return undefined;
+  if (!REPORT_TYPES.includes(type as ReportType)) {
+    res.status(400).json({ error: `type must be one of: ${REPORT_TYPES.join(', ')}` });
+    return null;
+  }
+  return type as ReportType;
+};
+
+// The user's own reports (leaving out workspaces they no longer belong to), or a workspace's
+// (optionally one collection's) when the user is a member
+const resolveScope = async (userId: string, params: ListQuery): Promise<ReportScope> => {
+  if (!params.workspaceId) {
+    const workspaces = await listWorkspacesForUser(userId);
+    return { userId, workspaceIds: workspaces.map(workspace => workspace.id) };
+  }
+  await requireWorkspaceRole(params.workspaceId, userId, 'viewer');
+  return { workspaceId: params.workspaceId, collectionId: params.collectionId || undefined };
+};
+
+const listReportsHandler: ListHandler = async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const type = parseType(req.query.type, res);
+    if (type === null) return;
+    const { page, pageSize, offset } = parsePaging(req.query);
+
+    const { reports, total } = await getReportRepository().list({
+      scope: await resolveScope(user.id, req.query),
+      type,
+      offset,
+      limit: pageSize
+    });
+
+    res.json({ reports, page, pageSize, total });
+  } catch (error) {
+    if (sendWorkspaceError(res, error)) return;
+    logger.error('List reports error', error);
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to list reports' });
+  }
+};
+
+const searchReportsHandler: SearchHandler = async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const q = (req.query.q || '').trim();
+    if (!q) {
+      res.status(400).json({ error: 'Search query (q) is required' });
+      return;
+    }
+    const type = parseType(req.query.type, res);
+    if (type === null) return;
+    const { page, pageSize, offset } = parsePaging(req.query);
+
+    const { reports, total } = await getReportRepository().list({
+      scope: await resolveScope(user.id, req.query),
+      type,
+      search: q,
+      offset,
+      limit: pageSize
+    });
+
+    res.json({ reports, page, pageSize, total, q });
+  } catch (error) {
+    if (sendWorkspaceError(res, error)) return;
+    logger.error('Search reports error', error);
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to search reports' });
+  }
+};
+
+const getReportHandler: GetHandler = async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const report = await findAccessibleReport(req.params.id, user.id, 'viewer');
+    if (!report) {
+      res.status(404).json({ error: 'Report not found' });
+      return;
+    }
+
+    // Reports saved before sanitization was added are cleaned on the way out
+    const { role, ...data } = report;
+    res.json({ report: { ...data, content: sanitizeMarkdown(data.content ?? '') }, role });
+  } catch (error) {
+    if (sendWorkspaceError(res, error)) return;
+    logger.error('Get report error', error);
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to fetch report' });
+  }
+};
+
+const renameReportHandler: RenameHandler = async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const title = typeof req.body.title === 'string' ? req.body.title.trim() : '';
+    if (!title) {
+      res.status(400).json({ error: 'Title is required' });
+      return;
+    }
+    if (title.length > MAX_TITLE_LENGTH) {
+      res.status(400).json({ error: `Title must be at most ${MAX_TITLE_LENGTH} characters` });
+      return;
+    }
+
+    if (!await findAccessibleReport(req.params.id, user.id, 'editor')) {
+      res.status(404).json({ error: 'Report not found' });
+      return;
+    }
+
+    const report = await getReportRepository().update(req.params.id, { title });
+    if (!report) {
+      res.status(404).json({ error: 'Report not found' });
+      return;
+    }
+
+    const { content, papers, ...summary } = report;
+    res.json({ report: summary });
+  } catch (error) {
+    if (sendWorkspaceError(res, error)) return;
+    logger.error('Rename report error', error);
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to rename report' });
+  }
+};
+
+const deleteReportHandler: DeleteHandler = async (req, res) => {
+  try {
+    const user = (req as any).user;
+    if (!await findAccessibleReport(req.params.id, user.id, 'editor')) {
+      res.status(404).json({ error: 'Report not found' });
+      return;
+    }
+
+    if (!await getReportRepository().delete(req.params.id)) {
+      res.status(404).json({ error: 'Report not found' });
+      return;
+    }
+
+    res.status(204).end();
+  } catch (error) {
+    if (sendWorkspaceError(res, error)) return;
+    logger.error('Delete report error', error);
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to delete report' });
+  }
+};
+
+router.get('/', listReportsHandler);
+router.get('/search', searchReportsHandler);
+router.get('/:id', getReportHandler);
+router.patch('/:id', renameReportHandler);
+router.delete('/:id', deleteReportHandler);
+
+export default router;
@@ -1,4 +1,5 @@
 import express, { RequestHandler } from 'express';
+import { logger } from '../services/observability';
 
 const router = express.Router();
 
@@ -9,14 +10,14 @@ interface GenerateReportBody {
 type GenerateReportHandler = RequestHandler<{}, any, GenerateReportBody>;
 
 const generateReportHandler: RequestHandler = async (req, res) => {
-  console.log('Request received for report generation');
+  logger.info('Request received for report generation');
   
   try {
     const { query } = req.body;
-    console.log('Query received:', query);
+    logger.info('Query received', query);
     
     if (!query) {
-      console.log('Error: No query provided');
+      logger.info('Error: No query provided');
       res.status(400).json({ error: 'Query is required' });
       return;
     }
@@ -42,12 +43,12 @@ const generateReportHandler: RequestHandler = async (req, res) => {
       }
     };
 
-    console.log('Sending response:', mockReport);
+    logger.info('Sending response', mockReport);
     res.json(mockReport);
     return;
 
   } catch (error) {
-    console.error('Error in generate report:', error);
+    logger.error('Error in generate report', error);
     res.status(500).json({ 
       error: error instanceof Error ? error.message : 'Failed to generate report'
     });
@@ -0,0 +1,22 @@
+import express, { RequestHandler } from 'express';
+import { listReportTemplates, DEFAULT_TEMPLATE_ID } from '../services/report';
+
+const router = express.Router();
+
+const listTemplatesHandler: RequestHandler = (req, res) => {
+  res.json({
+    defaultTemplate: process.env.REPORT_DEFAULT_TEMPLATE || DEFAULT_TEMPLATE_ID,
+    templates: listReportTemplates().map(template => ({
+      id: template.id,
+      name: template.name,
+      description: template.description,
+      sections: template.sections.map(section => section.heading),
+      maxWords: template.maxWords,
+      citationStyle: template.citationStyle
+    }))
+  });
+};
+
+router.get('/', listTemplatesHandler);
+
+export default router;
@@ -0,0 +1,18 @@
+import express, { RequestHandler } from 'express';
+import { getUsageSummary } from '../services/usage';
+import { logger } from '../services/observability';
+
+const router = express.Router();
+
+const usageHandler: RequestHandler = async (req, res) => {
+  try {
+    res.json(await getUsageSummary((req as any).user));
+  } catch (error) {
+    logger.error('Usage summary error', error);
+    res.status(500).json({ error: 'Failed to load usage' });
+  }
+};
+
+router.get('/', usageHandler);
+
+export default router;
@@ -0,0 +1,146 @@
+import express, { RequestHandler, Response } from 'express';
+import { userExists } from '../services/auth';
+import {
+  createWorkspace,
+  deleteWorkspace,
+  getWorkspace,
+  isWorkspaceRole,
+  listCollections,
+  listMembers,
+  listWorkspacesForUser,
+  removeMember,
+  setMemberRole,
+  updateWorkspace,
+  validateName,
+  WorkspaceValidationError,
+  WORKSPACE_ROLES
+} from '../services/workspaces';
+import { requireWorkspace, sendWorkspaceError } from '../middleware/workspace';
+import { logger } from '../services/observability';
+
+const router = express.Router();
+
+type WorkspaceParams = { workspaceId: string };
+type MemberParams = WorkspaceParams & { userId: string };
+type WorkspaceHandler = RequestHandler<WorkspaceParams>;
+type MemberHandler = RequestHandler<MemberParams>;
+
+const handleError = (res: Response, error: unknown, label: string, fallback: string) => {
+  if (sendWorkspaceError(res, error)) return;
+  logger.error(`${label} error`, error);
+  res.status(500).json({ error: error instanceof Error ? error.message : fallback });
+};
+
+const parseRole = (value: unknown) => {
+  if (!isWorkspaceRole(value)) throw new WorkspaceValidationError(`role must be one of: ${WORKSPACE_ROLES.join(', ')}`);
+  return value;
+};
+
+const listWorkspacesHandler: RequestHandler = async (req, res) => {
+  try {
+    const user = (req as any).user;
+    res.json({ workspaces: await listWorkspacesForUser(user.id) });
+  } catch (error) {
+    handleError(res, error, 'List workspaces', 'Failed to list workspaces');
+  }
+};
+
+const createWorkspaceHandler: RequestHandler = async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const workspace = await createWorkspace(user.id, validateName(req.body.name, 'Name'));
+    res.status(201).json({ workspace });
+  } catch (error) {
+    handleError(res, error, 'Create workspace', 'Failed to create workspace');
+  }
+};
+
+const getWorkspaceHandler: WorkspaceHandler = async (req, res) => {
+  try {
+    const { workspaceId } = req.params;
+    const [workspace, members, collections] = await Promise.all([
+      getWorkspace(workspaceId),
+      listMembers(workspaceId),
+      listCollections(workspaceId)
+    ]);
+    res.json({ workspace: { ...workspace, role: (req as any).workspaceRole }, members, collections });
+  } catch (error) {
+    handleError(res, error, 'Get workspace', 'Failed to fetch workspace');
+  }
+};
+
+const renameWorkspaceHandler: WorkspaceHandler = async (req, res) => {
+  try {
+    const workspace = await updateWorkspace(req.params.workspaceId, { name: validateName(req.body.name, 'Name') });
+    res.json({ workspace });
+  } catch (error) {
+    handleError(res, error, 'Rename workspace', 'Failed to rename workspace');
+  }
+};
+
+// Reports saved in the workspace go back to their creators' personal reports
+const deleteWorkspaceHandler: WorkspaceHandler = async (req, res) => {
+  try {
+    await deleteWorkspace(req.params.workspaceId, (req as any).user.id);
+    res.status(204).end();
+  } catch (error) {
+    handleError(res, error, 'Delete workspace', 'Failed to delete workspace');
+  }
+};
+
+const listMembersHandler: WorkspaceHandler = async (req, res) => {
+  try {
+    res.json({ members: await listMembers(req.params.workspaceId) });
+  } catch (error) {
+    handleError(res, error, 'List members', 'Failed to list members');
+  }
+};
+
+const addMemberHandler: WorkspaceHandler = async (req, res) => {
+  try {
+    const userId = typeof req.body.userId === 'string' ? req.body.userId.trim() : '';
+    if (!userId) throw new WorkspaceValidationError('userId is required');
+    const role = parseRole(req.body.role ?? 'viewer');
+
+    if (!await userExists(userId)) throw new WorkspaceValidationError('User not found');
+
+    const member = await setMemberRole(req.params.workspaceId, (req as any).user.id, userId, role);
+    res.status(201).json({ member });
+  } catch (error) {
+    handleError(res, error, 'Add member', 'Failed to add member');
+  }
+};
+
+const updateMemberHandler: MemberHandler = async (req, res) => {
+  try {
+    const member = await setMemberRole(req.params.workspaceId, (req as any).user.id, req.params.userId, parseRole(req.body.role));
+    res.json({ member });
+  } catch (error) {
+    handleError(res, error, 'Update member', 'Failed to update member');
+  }
+};
+
+const removeMemberHandler: MemberHandler = async (req, res) => {
+  try {
+    if (!await removeMember(req.params.workspaceId, (req as any).user.id, req.params.userId)) {
+      res.status(404).json({ error: 'Member not found' });
+      return;
+    }
+    res.status(204).end();
+  } catch (error) {
+    handleError(res, error, 'Remove member', 'Failed to remove member');
+  }
+};
+
+router.get('/', listWorkspacesHandler);
+router.post('/', createWorkspaceHandler);
+router.get('/:workspaceId', requireWorkspace('viewer'), getWorkspaceHandler);
+router.patch('/:workspaceId', requireWorkspace('owner'), renameWorkspaceHandler);
+router.delete('/:workspaceId', deleteWorkspaceHandler);
+router.get('/:workspaceId/members', requireWorkspace('viewer'), listMembersHandler);
+router.post('/:workspaceId/members', requireWorkspace('owner'), addMemberHandler);
+router.patch('/:workspaceId/members/:userId', updateMemberHandler);
+// Members may remove themselves, so the role check happens in the service
+router.delete('/:workspaceId/members/:userId', removeMemberHandler);
+
+export default router;
@@ -1,32 +1,67 @@
 import express, { Request, Response, Router, RequestHandler, NextFunction } from 'express';
 import cors from 'cors';
-import fetch from 'node-fetch';
 import dotenv from 'dotenv';
-import { DOMParser } from '@xmldom/xmldom';
-import { createClient } from '@supabase/supabase-js'
-import { authenticateToken } from './middleware/auth';
+import { authenticate, authenticateToken } from './middleware/auth';
+import authRoutes from './routes/auth';
+import reportJobRoutes from './routes/reportJobs';
+import reportRoutes from './routes/reports';
+import exportRoutes from './routes/export';
+import adminRoutes from './routes/admin';
+import { requireAdmin } from './middleware/admin';
+import { limitUsage } from './middleware/usage';
+import { screenInput } from './middleware/safety';
+import usageRoutes from './routes/usage';
+import templateRoutes from './routes/templates';
+import reportChatRoutes from './routes/reportChat';
+import alertRoutes from './routes/alerts';
+import workspaceRoutes from './routes/workspaces';
+import collectionRoutes from './routes/collections';
+import notificationRoutes from './routes/notifications';
+import apiKeyRoutes from './routes/apiKeys';
+import healthRoutes from './routes/health';
+import { errorHandler, requestContext } from './middleware/observability';
+import { logger } from './services/observability';
+import { createMarkdownStreamSanitizer, getQueryMaxLength, sanitizeMarkdown, untrusted } from './services/safety';
+import { UpstreamTimeoutError } from './services/upstream';
+import { suggestPrompt, getResearchTags } from './services/suggestions';
+import { complete, getLLMConfig } from './services/llm';
+import { cached, collectCacheStats } from './services/cache';
+import { getReportRepository } from './services/reports';
+import { runMigrations } from './services/migrations';
+import { localAuthEnabled } from './services/auth';
+import { openEventStream } from './services/sse';
+import { generateReport, getReportTemplate, ReportGenerationError, ReportInProgressError, ReportPlacement } from './services/report';
+import { requireWorkspaceRole, resolveReportTarget } from './services/workspaces';
+import { sendWorkspaceError } from './middleware/workspace';
+import { reportJobQueue, toJobStatus } from './services/jobs';
+import { startAlertScheduler } from './services/alerts';
+import {
+  searchPaperPage,
+  decodeCursor,
+  resolveSources,
+  parseArxivSearchQuery,
+  arxivQueryToText,
+  hasSearchTerms,
+  paperIdentity,
+  computeFacets,
+  ArxivSearchQuery,
+  Paper,
+  PaperSourceName
+} from './services/papers';
 
 dotenv.config();
 
 const app = express();
 
-const supabase = createClient(
-  process.env.SUPABASE_URL!,
-  process.env.SUPABASE_SERVICE_ROLE_KEY!, 
-  {
-    auth: {
-      autoRefreshToken: false,
-      persistSession: false
-    }
-  }
-)
+app.use(requestContext);
 
 // Configure CORS with middleware
 app.use(cors({
   origin: ['https://resego-ai-frontend-3.vercel.app', 'http://localhost:5173'],
-  methods: ['GET', 'POST'],
+  methods: ['GET', 'POST', 'PATCH', 'DELETE'],
   credentials: true,
-  allowedHeaders: ['Content-Type', 'Authorization']
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key', 'X-Request-Id'],
+  exposedHeaders: ['X-Request-Id', 'X-Input-Flags']
 }));
 
 app.use(express.json());
@@ -39,155 +74,127 @@ interface SearchRequest extends Request {
   body: { query: string }
 }
 
-interface AuthenticatedRequest extends Request {
-  user?: any;
-}
+// Bump when the summary prompt changes so cached summaries are not reused
+const SUMMARY_PROMPT_VERSION = 2;
+const DEFAULT_PAGE_SIZE = 6;
+const MAX_PAGE_SIZE = 20;
+
+const summarizeSearch = async (
+  arxivQuery: ArxivSearchQuery,
+  sources: PaperSourceName[],
+  pageSize: number,
+  cursor?: string,
+  rerank?: boolean
+) => {
+  const { papers, totalResults, totalsBySource, nextCursor } = await searchPaperPage(
+    arxivQueryToText(arxivQuery),
+    { sources, limit: pageSize, cursor, arxivQuery, rerank }
+  );
+
+  if (papers.length === 0) {
+    return {
+      papers: [],
+      summaries: [],
+      consolidatedSummary: '',
+      totalResults,
+      totalsBySource,
+      nextCursor,
+      facets: computeFacets([])
+    };
+  }
 
-interface Paper {
-  title: string;
-  authors: string[];
-  abstract: string;
-  link: string;
-}
+  // Get individual summaries
+  const summaryModel = getLLMConfig().tasks.searchSummary.model;
+  const summaries = await Promise.all(papers.map(async (paper) => {
+    try {
+      const content = await cached('summary',
+        { paper: paperIdentity(paper), version: SUMMARY_PROMPT_VERSION, model: summaryModel },
+        async () => (await complete('searchSummary',
+          `Provide a very brief 2-3 bullet point summary of this research paper (max 50 words total):
+            ${untrusted('paper', `Title: ${paper.title}\nAbstract: ${paper.abstract.substring(0, 1000)}`)}`
+        )).content,
+        { shouldCache: Boolean }
+      );
+      return content ? sanitizeMarkdown(content) : 'Summary not available';
+    } catch (error) {
+      logger.error('AI Summary error', error);
+      return 'Summary generation failed';
+    }
+  }));
+
+  // Generate consolidated summary
+  const consolidatedSummary = await complete('consolidatedSummary',
+    `Synthesize a cohesive overview of these research papers (max 100 words). Focus on common themes, key findings, and broader implications. Don't list papers individually.
+
+        Papers:
+        ${papers.map(paper => untrusted('paper', `${paper.title}\n${paper.abstract}`)).join('\n\n')}`
+  )
+    .then(({ content }) => content ? sanitizeMarkdown(content) : 'Overview not available')
+    .catch((error) => {
+      logger.error('AI Overview error', error);
+      return 'Overview not available';
+    });
 
-interface PaperAnalysis {
-  paper: Paper;
-  analysis: string;
-}
+  return {
+    papers,
+    summaries,
+    consolidatedSummary,
+    totalResults,
+    totalsBySource,
+    nextCursor,
+    facets: computeFacets(papers)
+  };
+};
 
 const searchPapers = async (req: Request, res: Response): Promise<void> => {
-  const { query } = req.body as { query: string };
+  let arxivQuery: ArxivSearchQuery;
+  let sources: PaperSourceName[];
+  let pageSize = DEFAULT_PAGE_SIZE;
+  const rerank: boolean | undefined = req.body.rerank;
+  try {
+    arxivQuery = parseArxivSearchQuery(req.body);
+    if (rerank !== undefined && typeof rerank !== 'boolean') {
+      throw new Error('rerank must be a boolean');
+    }
+    sources = resolveSources(req.body.sources);
+    if (req.body.cursor) decodeCursor(req.body.cursor);
+    if (req.body.pageSize !== undefined) {
+      pageSize = Number(req.body.pageSize);
+      if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+        throw new Error(`pageSize must be an integer between 1 and ${MAX_PAGE_SIZE}`);
+      }
+    }
+  } catch (error) {
+    res.status(400).json({ error: (error as Error).message });
+    return;
+  }
 
-  if (!query) {
+  if (!hasSearchTerms(arxivQuery)) {
     res.status(400).json({ error: 'Query is required' });
     return;
   }
 
   try {
-    // Fetch papers from arXiv
-    const arxivResponse = await fetch(
-      `https://export.arxiv.org/api/query?search_query=all:${encodeURIComponent(query)}&start=0&max_results=6`
+    const { result, cache } = await collectCacheStats(() =>
+      summarizeSearch(arxivQuery, sources, pageSize, req.body.cursor || undefined, rerank)
     );
-
-    if (!arxivResponse.ok) {
-      throw new Error(`ArXiv API error: ${arxivResponse.statusText}`);
-    }
-
-    const xmlData = await arxivResponse.text();
-    
-    const parser = new DOMParser();
-    const xmlDoc = parser.parseFromString(xmlData, "text/xml");
-    const entries = xmlDoc.getElementsByTagName("entry");
-
-    if (!entries || entries.length === 0) {
-      res.json({ papers: [], summaries: [], consolidatedSummary: '' });
-      return;
-    }
-    
-    const papers = Array.from(entries).map(entry => ({
-      title: entry.getElementsByTagName("title")[0]?.textContent?.replace(/\n/g, ' ').trim() || "",
-      authors: Array.from(entry.getElementsByTagName("author")).map(a => a.textContent?.trim() || ""),
-      abstract: entry.getElementsByTagName("summary")[0]?.textContent?.trim() || "",
-      link: entry.getElementsByTagName("id")[0]?.textContent || ""
-    }));
-
-    // Get individual summaries
-    const summaries = await Promise.all(papers.map(async (paper) => {
-      try {
-        const aiResponse = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${process.env.OPENROUTER_API_KEY}`,
-            'HTTP-Referer': 'https://resego-ai-frontend-3.vercel.app',
-            'Content-Type': 'application/json',
-            'X-Title': 'Resego AI'
-          },
-          body: JSON.stringify({
-            model: 'qwen/qwen-vl-plus:free',
-            messages: [{
-              role: 'user',
-              content: `Provide a very brief 2-3 bullet point summary of this research paper (max 50 words total):
-              Title: ${paper.title}
-              Abstract: ${paper.abstract.substring(0, 1000)}`
-            }],
-            temperature: 0.2,
-            max_tokens: 100
-          }),
-        });
-
-        if (!aiResponse.ok) {
-          throw new Error(`OpenRouter API error: ${aiResponse.statusText}`);
-        }
-
-        const data = await aiResponse.json();
-        return data.choices?.[0]?.message?.content || 'Summary not available';
-      } catch (error) {
-        console.error('AI Summary error:', error);
-        return 'Summary generation failed';
-      }
-    }));
-
-    // Generate consolidated summary
-    const consolidatedResponse = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${process.env.OPENROUTER_API_KEY}`,
-        'HTTP-Referer': 'https://resego-ai-frontend-3.vercel.app',
-        'Content-Type': 'application/json',
-        'X-Title': 'Resego AI'
-      },
-      body: JSON.stringify({
-        model: 'qwen/qwen-vl-plus:free',
-        messages: [{
-          role: 'user',
-          content: `Synthesize a cohesive overview of these research papers (max 100 words). Focus on common themes, key findings, and broader implications. Don't list papers individually.
-
-          Papers:
-          ${papers.map(paper => `${paper.title}\n${paper.abstract}`).join('\n\n')}`
-        }],
-        temperature: 0.3,
-        max_tokens: 200
-      }),
-    });
-
-    const consolidatedData = await consolidatedResponse.json();
-    const consolidatedSummary = consolidatedData.choices?.[0]?.message?.content || 'Overview not available';
-
-    res.json({ papers, summaries, consolidatedSummary });
+    res.json({ ...result, cache });
   } catch (error) {
-    console.error('Server error:', error);
+    logger.error('Server error', error);
     const errorMessage = error instanceof Error ? error.message : 'Internal server error';
     res.status(500).json({ error: errorMessage });
   }
 };
 
-// Update the middleware type signature
-const authenticateUser = (async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
-  const authHeader = req.headers.authorization;
-  
-  if (!authHeader) {
-    res.status(401).json({ error: 'No authorization header' });
-    return;
-  }
-
-  try {
-    const token = authHeader.replace('Bearer ', '');
-    const { data: { user }, error } = await supabase.auth.getUser(token);
-
-    if (error || !user) {
-      res.status(401).json({ error: 'Invalid token' });
-      return;
-    }
-
-    req.user = user;
-    next();
-  } catch (error) {
-    res.status(401).json({ error: 'Authentication failed' });
-  }
-}) as RequestHandler;
+// Free-text fields that end up in prompts
+const searchFields = () => {
+  const limit = getQueryMaxLength();
+  return { query: limit, title: limit, author: limit, abstract: limit };
+};
+const ANALYZE_ABSTRACT_MAX_LENGTH = 10_000;
 
 // Apply middleware to protected routes
-router.post('/api/search-papers', authenticateToken, (async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+router.post('/api/search-papers', authenticate('search'), screenInput(searchFields()), limitUsage('search'), (async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   try {
     await searchPapers(req, res);
   } catch (error) {
@@ -195,382 +202,172 @@ router.post('/api/search-papers', authenticateToken, (async (req: Request, res:
   }
 }) as RequestHandler);
 
-router.post('/api/generate-report', authenticateToken, (async (req: Request, res: Response): Promise<void> => {
-  try {
-    const { query } = req.body;
-    let papers: Paper[] = [];  // Declare papers array outside try block
-    
-    if (!query) {
-      res.status(400).json({ error: 'Query is required' });
-      return;
-    }
-
-    // Step 1: Fetch papers
-    try {
-      const arxivResponse = await fetch(
-        `https://export.arxiv.org/api/query?search_query=all:${encodeURIComponent(query)}&start=0&max_results=5`
-      );
-      
-      if (!arxivResponse.ok) {
-        throw new Error('Failed to fetch papers from arXiv');
-      }
-
-      const xmlData = await arxivResponse.text();
-      const parser = new DOMParser();
-      const xmlDoc = parser.parseFromString(xmlData, "text/xml");
-      const entries = xmlDoc.getElementsByTagName("entry");
-      
-      papers = Array.from(entries).map(entry => ({
-        title: entry.getElementsByTagName("title")[0]?.textContent?.replace(/\n/g, ' ').trim() || "",
-        authors: Array.from(entry.getElementsByTagName("author")).map(a => a.textContent?.trim() || ""),
-        abstract: entry.getElementsByTagName("summary")[0]?.textContent?.trim() || "",
-        link: entry.getElementsByTagName("id")[0]?.textContent || ""
-      }));
-
-    } catch (error) {
-      console.error('ArXiv fetch error:', error);
-      res.status(500).json({ error: 'Failed to fetch papers from arXiv' });
-      return;
-    }
-
-    // Step 2: Extract key information from each paper
-    const paperAnalyses = await Promise.all(papers.map(async (paper: Paper) => {
-      const analysisResponse = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${process.env.OPENROUTER_API_KEY}`,
-          'HTTP-Referer': 'https://resego-ai-frontend-3.vercel.app',
-          'Content-Type': 'application/json',
-          'X-Title': 'Resego AI'
-        },
-        body: JSON.stringify({
-          model: 'qwen/qwen-vl-plus:free',
-          messages: [{
-            role: 'user',
-            content: `Analyze this research paper and provide the following details in a structured format:
-            - Research question
-            - Study methodology
-            - Key findings
-            - Limitations
-            - Conclusion
-
-            Title: ${paper.title}
-            Abstract: ${paper.abstract}`
-          }],
-          temperature: 0.3,
-          max_tokens: 500
-        }),
-      });
-
-      const data = await analysisResponse.json();
-      return {
-        paper,
-        analysis: data.choices[0]?.message?.content || 'Analysis failed'
-      } as PaperAnalysis;
-    }));
-
-    // Step 3: Generate final structured report
-    const reportPrompt = `Generate a comprehensive, **evidence-based** research report about **"${query}"** following this **structured academic format**:
-
-## <span style="color: #8B5CF6; font-size: 2.25rem; font-weight: bold;">${query}</span>
-
----
-
-### 📑 **Abstract**
-**Summarize** the key aspects of the research:
-- **Objective**: What is the study trying to achieve?
-- **Methodology Overview**: What methods were used?
-- **Key Findings Summary**: What are the main results?
-- **Significance**: Why is this research important?
-
----
-
-### 🎯 **Introduction & Research Objectives**
-Provide background information to **contextualize the research**:
-- **Research Context**: Explain why this topic is important.
-- **Problem Statement**: What problem does this research address?
-- **Research Questions**: List specific research questions being explored.
-- **Scope and Limitations**: Define the study's boundaries.
-
----
-
-### 📚 **Literature Review**
-Conduct a **comparative analysis** of existing research:
-- **Current State of Research**: Summarize key studies and trends.
-- **Theoretical Framework**: What models or theories apply?
-- **Research Gaps Identified**: What gaps exist in the current literature?
-- **Key Concepts Defined**: Define critical terms for clarity.
-
-⚡ **(Ensure findings are compared against the papers provided in the dataset.)**
-
----
-
-### 🔬 **Methodology**
-Break down the research methods **step-by-step**:
-- **Research Approach**: Is this qualitative, quantitative, or mixed?
-- **Data Collection Methods**: What data sources were used?
-- **Analysis Techniques**: What statistical or analytical methods were applied?
-- **Tools & Frameworks Used**: Specify technologies, software, or algorithms.
-
----
-
-### 📊 **Results & Analysis**
-Organize key results into a **structured table** for clarity:
-
-| **Category** | **Findings** | **Evidence** | **Impact** |
-|-------------|-------------|-------------|-------------|
-| [area] | [result] | [data] | [significance] |
-
-- **Provide statistical results with proper benchmarks.**
-- **Include citations from referenced papers where possible.**
-- **Highlight strengths and weaknesses of the findings.**
-
----
-
-### 💡 **Discussion**
-Critically evaluate the findings:
-- **Interpretation of Findings**: What do the results indicate?
-- **Comparison with Existing Research**: How does this compare with past studies?
-- **Practical Implications**: What are the real-world applications?
-- **Limitations Encountered**: Mention any potential biases or errors.
-
----
-
-### 🎯 **Conclusions**
-Summarize **key takeaways** from the research:
-- **Main Contributions**: What new insights does this study offer?
-- **Key Insights**: What should researchers or practitioners take away?
-- **Future Research Directions**: What questions remain unanswered?
-- **Recommendations**: Suggest next steps for researchers.
+interface ReportRequest {
+  query: string;
+  sources: PaperSourceName[];
+  fullText: boolean;
+  template: string;
+  // Set when writing from a collection instead of searching
+  papers?: Paper[];
+  placement: ReportPlacement;
+}
 
----
+const optionalId = (value: unknown) =>
+  value === undefined || value === null || value === '' ? undefined : String(value);
 
-### 📚 **References**
-Provide a **properly formatted reference list**:
-- **Cite relevant papers** (including those provided in the dataset).
-- **Highlight key studies referenced.**
-- **Ensure citations follow an academic format (APA/Harvard/IEEE).**
+const parseReportRequest = async (req: Request, res: Response): Promise<ReportRequest | null> => {
+  const user = (req as any).user;
+  const workspaceId = optionalId(req.body.workspaceId);
+  const collectionId = optionalId(req.body.collectionId);
 
----
+  let params: Omit<ReportRequest, 'query'>;
+  try {
+    params = {
+      sources: resolveSources(req.body.sources),
+      fullText: req.body.fullText === true,
+      template: getReportTemplate(req.body.template || undefined).id,
+      placement: {}
+    };
+  } catch (error) {
+    res.status(400).json({ error: (error as Error).message });
+    return null;
+  }
 
-### 📌 **Analysis Guidelines for Better Research Output**
-1. **Use an Academic Writing Style** (avoid vague or conversational language).  
-2. **Support Claims with Evidence** (always cite data or sources).  
-3. **Include Data Tables & Graphs** (where applicable).  
-4. **Use Comparative Analysis** (compare findings with multiple papers).  
-5. **Highlight Performance Metrics & Benchmarks** (where relevant).  
-6. **Ensure Quantitative Evidence is Prioritized** (numbers, percentages, charts).  
+  let query = typeof req.body.query === 'string' ? req.body.query.trim() : '';
+  try {
+    const target = await resolveReportTarget(user.id, { workspaceId, collectionId });
+    params.papers = target.papers;
+    params.placement = { workspaceId: target.workspaceId, collectionId: target.collection?.id };
+    // A collection report is about the collection unless a focus is given
+    if (!query && target.collection) query = target.collection.name;
+  } catch (error) {
+    if (sendWorkspaceError(res, error)) return null;
+    throw error;
+  }
 
-📌 **Base your analysis on these papers and their findings:**
-${paperAnalyses.map(({ paper, analysis }) => 
-  `Title: **${paper.title}**  
-   Authors: ${paper.authors.join(', ')}  
-   Key Findings: ${analysis}  
-  `
-).join('\n')}
+  if (!query) {
+    res.status(400).json({ error: 'Query is required' });
+    return null;
+  }
+  return { query, ...params };
+};
 
-🚀 **Ensure the AI processes findings step-by-step and focuses on data-driven insights rather than vague generalizations.**`;
-    // Step 3: Generate report
-    try {
-      const headers: HeadersInit = {
-        'Authorization': `Bearer ${process.env.OPENROUTER_API_KEY}`,
-        'HTTP-Referer': 'https://resego-ai-frontend-3.vercel.app',
-        'Content-Type': 'application/json',
-        'X-Title': 'Resego AI'
-      };
-
-      if (process.env.OPENROUTER_ORG_ID) {
-        headers['OpenAI-Organization'] = process.env.OPENROUTER_ORG_ID;
-      }
+router.post('/api/generate-report', authenticate('reports'), screenInput({ query: getQueryMaxLength() }), limitUsage('report'), (async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = (req as any).user;
+    if (!user || !user.id) {
+      throw new Error('No authenticated user found');
+    }
 
-      const reportResponse = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-        method: 'POST',
-        headers,
-        body: JSON.stringify({
-          model: 'qwen/qwen-vl-plus:free',
-          messages: [{
-            role: 'user',
-            content: reportPrompt
-          }],
-          temperature: 0.3,
-          max_tokens: 2000
-        }),
+    const params = await parseReportRequest(req, res);
+    if (!params) return;
+
+    // `async: true` queues the work and answers immediately with a job to poll
+    if (req.body.async) {
+      const { job, created } = await reportJobQueue.enqueue(user.id, params.query, {
+        sources: params.sources,
+        fullText: params.fullText,
+        template: params.template,
+        papers: params.papers,
+        ...params.placement
       });
-
-      if (!reportResponse.ok) {
-        const error = await reportResponse.json();
-        throw new Error(error.message || 'OpenRouter API error');
-      }
-
-      const reportData = await reportResponse.json();
-      const finalReport = reportData.choices[0]?.message?.content;
-
-      if (!finalReport) {
-        throw new Error('No report content generated');
-      }
-
-      // Step 4: Save to Supabase
-      try {
-        const user = (req as any).user;
-        if (!user || !user.id) {
-          throw new Error('No authenticated user found');
-        }
-
-        // Then insert the report directly (remove user verification)
-        const { data: reportRecord, error: saveError } = await supabase
-          .from('reports')
-          .insert({
-            user_id: user.id,
-            title: query,
-            content: finalReport
-          })
-          .select()
-          .single();
-
-        if (saveError) {
-          console.error('Supabase save error:', saveError);
-          throw new Error(`Failed to save report: ${saveError.message}`);
-        }
-
-        if (!reportRecord) {
-          throw new Error('No report record returned after save');
-        }
-
-        res.json({
-          report: finalReport,
-          papers: paperAnalyses,
-          savedReport: reportRecord
-        });
-
-      } catch (error) {
-        console.error('Database save error:', error);
-        res.status(500).json({ 
-          error: error instanceof Error ? error.message : 'Failed to save report to database' 
-        });
-      }
-
-    } catch (error) {
-      console.error('Report generation error:', error);
-      res.status(500).json({ error: 'Failed to generate report content' });
+      res.status(created ? 202 : 200).json({ jobId: job.id, job: toJobStatus(job) });
+      return;
     }
 
+    const { result, cache } = await collectCacheStats(() => generateReport(user.id, params.query, {
+      sources: params.sources,
+      fullText: params.fullText,
+      template: params.template,
+      papers: params.papers,
+      placement: params.placement
+    }));
+    res.json({ ...result, cache });
   } catch (error) {
-    console.error('General error:', error);
+    if (error instanceof ReportInProgressError) {
+      res.status(409).json({ error: error.message });
+      return;
+    }
+    logger.error('General error', error);
     res.status(500).json({ 
       error: error instanceof Error ? error.message : 'Failed to process request'
     });
   }
 }) as RequestHandler);
 
-// Modify the prompt suggestion endpoint
-router.post('/api/suggest-prompt', authenticateUser, (async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+// Same pipeline as /api/generate-report, reported as Server-Sent Events:
+// `progress` events, `token` events while the report is written, then `done` or `error`
+router.post('/api/generate-report/stream', authenticate('reports'), screenInput({ query: getQueryMaxLength() }), limitUsage('report'), (async (req: Request, res: Response): Promise<void> => {
+  const user = (req as any).user;
+  if (!user || !user.id) {
+    res.status(401).json({ error: 'No authenticated user found' });
+    return;
+  }
+
+  let params: ReportRequest | null;
   try {
-    const { initialQuery } = req.body;
-    const suggestionResponse = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${process.env.OPENROUTER_API_KEY}`,
-        'HTTP-Referer': 'https://resego-ai-frontend-3.vercel.app',
-        'Content-Type': 'application/json',
-        'X-Title': 'Resego AI'
-      },
-      body: JSON.stringify({
-        model: 'qwen/qwen-vl-plus:free',
-        messages: [{
-          role: 'user',
-          content: `As a research assistant, analyze this query and suggest improvements:
-          
-          Original query: "${initialQuery}"
-
-          Provide response in this JSON format:
-          {
-            "refinedQuery": "improved version of the query",
-            "suggestedElements": {
-              "specificity": [
-                "specific aspect 1",
-                "specific aspect 2"
-              ],
-              "researchType": [
-                "methodology 1",
-                "methodology 2"
-              ],
-              "practicalApplication": [
-                "application 1",
-                "application 2"
-              ]
-            },
-            "questionVariations": [
-              {
-                "question": "more specific version of the query",
-                "explanation": "why this version is more effective"
-              },
-              {
-                "question": "alternative approach to the query",
-                "explanation": "how this approach differs"
-              }
-            ],
-            "relatedConcepts": [
-              "technical term 1",
-              "technical term 2"
-            ]
-          }
-
-          Guidelines:
-          1. Make suggestions more specific and measurable
-          2. Include relevant technical terms
-          3. Consider different research approaches
-          4. Focus on practical applications
-          5. Break down complex queries into specific elements`
-        }],
-        temperature: 0.3,
-        max_tokens: 800
-      }),
-    });
+    params = await parseReportRequest(req, res);
+  } catch (error) {
+    logger.error('Streaming report error', error);
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to process request' });
+    return;
+  }
+  if (!params) return;
 
-    const data = await suggestionResponse.json();
-    const suggestions = JSON.parse(data.choices[0]?.message?.content || '{}');
-    
-    const researchTags = await getResearchTags(initialQuery);
-    suggestions.researchTags = researchTags;
+  const stream = openEventStream(res);
+  // Tokens are passed on a block at a time so markup is sanitized before the browser sees it
+  const tokens = createMarkdownStreamSanitizer(text => stream.send('token', { text }));
+  // Stop spending tokens once nobody is listening
+  const controller = new AbortController();
+  res.on('close', () => controller.abort());
 
-    res.json(suggestions);
+  try {
+    const { result, cache } = await collectCacheStats(() => generateReport(user.id, params.query, {
+      sources: params.sources,
+      fullText: params.fullText,
+      template: params.template,
+      papers: params.papers,
+      placement: params.placement,
+      signal: controller.signal,
+      onProgress: (event) => stream.send('progress', event),
+      onToken: (text) => tokens.write(text)
+    }));
+    tokens.flush();
+    stream.send('done', { ...result, cache });
   } catch (error) {
-    next(error);
+    if (!stream.closed) {
+      logger.error('Streaming report error', error);
+    }
+    stream.send('error', {
+      error: error instanceof Error ? error.message : 'Failed to process request',
+      stage: error instanceof ReportGenerationError ? error.stage : undefined
+    });
+  } finally {
+    stream.close();
   }
 }) as RequestHandler);
 
-// Helper function to generate research tags
-async function getResearchTags(query: string): Promise<string[]> {
+// Modify the prompt suggestion endpoint
+router.post('/api/suggest-prompt', authenticate('search'), screenInput({ initialQuery: getQueryMaxLength() }), limitUsage('suggest'), (async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   try {
-    const tagResponse = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${process.env.OPENROUTER_API_KEY}`,
-        'HTTP-Referer': 'https://resego-ai-frontend-3.vercel.app',
-        'Content-Type': 'application/json',
-        'X-Title': 'Resego AI'
-      },
-      body: JSON.stringify({
-        model: 'qwen/qwen-vl-plus:free',
-        messages: [{
-          role: 'user',
-          content: `Generate 3-4 relevant research type tags for this query: "${query}"
-          Return only the tags separated by commas, like: "Specificity, Research type, Practical application"`
-        }],
-        temperature: 0.2,
-        max_tokens: 100
-      }),
-    });
+    const { initialQuery } = req.body;
+    if (typeof initialQuery !== 'string' || !initialQuery.trim()) {
+      res.status(400).json({ error: 'initialQuery is required' });
+      return;
+    }
+
+    const [suggestions, researchTags] = await Promise.all([
+      suggestPrompt(initialQuery),
+      getResearchTags(initialQuery)
+    ]);
 
-    const data = await tagResponse.json();
-    return data.choices[0]?.message?.content.split(',').map((tag: string) => tag.trim()) || [];
+    res.json({ ...suggestions, researchTags });
   } catch (error) {
-    console.error('Tag generation error:', error);
-    return [];
+    next(error);
   }
-}
+}) as RequestHandler);
 
-router.post('/api/analyze-paper', authenticateToken, (async (req: Request, res: Response): Promise<void> => {
+router.post('/api/analyze-paper', authenticate('search'), screenInput({ abstract: ANALYZE_ABSTRACT_MAX_LENGTH }), limitUsage('analyze'), (async (req: Request, res: Response): Promise<void> => {
   try {
     const { abstract } = req.body;
     if (!abstract) {
@@ -583,46 +380,24 @@ router.post('/api/analyze-paper', authenticateToken, (async (req: Request, res:
     const timeout = setTimeout(() => controller.abort(), 30000);
 
     try {
-      const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${process.env.OPENROUTER_API_KEY}`,
-          'HTTP-Referer': 'https://resego-ai-frontend-3.vercel.app',
-          'Content-Type': 'application/json',
-          'X-Title': 'Resego AI'
-        },
-        body: JSON.stringify({
-          model: 'qwen/qwen-vl-plus:free',
-          messages: [{
-            role: 'user',
-            content: `Summarize this abstract in 3 key points:\n${abstract.substring(0, 1000)}`
-          }],
-          temperature: 0.1,
-          max_tokens: 150
-        }),
-        signal: controller.signal as any,
-      });
+      const { content } = await complete('abstractSummary',
+        `Summarize this abstract in 3 key points:\n${untrusted('abstract', abstract.substring(0, 1000))}`,
+        { signal: controller.signal }
+      );
 
       clearTimeout(timeout);
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error?.message || `HTTP error! status: ${response.status}`);
-      }
-
-      const data = await response.json();
-      
-      if (!data.choices?.[0]?.message?.content) {
+      if (!content) {
         throw new Error('No content in AI response');
       }
 
       res.json({
-        summary: data.choices[0].message.content,
+        summary: sanitizeMarkdown(content),
         status: 'success'
       });
 
     } catch (fetchError) {
-      if ((fetchError as Error).name === 'AbortError') {
+      if ((fetchError as Error).name === 'AbortError' || fetchError instanceof UpstreamTimeoutError) {
         throw new Error('Request timed out after 30 seconds');
       }
       throw fetchError;
@@ -631,7 +406,7 @@ router.post('/api/analyze-paper', authenticateToken, (async (req: Request, res:
     }
 
   } catch (error) {
-    console.error('Error in analyze-paper:', error);
+    logger.error('Error in analyze-paper', error);
     
     // Send appropriate error response based on error type
     if ((error as Error).message.includes('timed out')) {
@@ -648,7 +423,7 @@ router.post('/api/analyze-paper', authenticateToken, (async (req: Request, res:
   }
 }) as RequestHandler);
 
-router.post('/api/save-search', authenticateToken, (async (req: Request, res: Response): Promise<void> => {
+router.post('/api/save-search', authenticateToken, screenInput({ query: getQueryMaxLength() }), (async (req: Request, res: Response): Promise<void> => {
   try {
     const { query, papers, consolidatedSummary } = req.body;
     const user = (req as any).user;
@@ -657,40 +432,74 @@ router.post('/api/save-search', authenticateToken, (async (req: Request, res: Re
       throw new Error('No authenticated user found');
     }
 
-    // Save to Supabase with search type
-    const { data: savedSearch, error: saveError } = await supabase
-      .from('reports')
-      .insert({
-        user_id: user.id,
-        title: query,
-        content: consolidatedSummary,
-        papers: papers,
-        type: 'search',
-        created_at: new Date().toISOString()
-      })
-      .select()
-      .single();
-
-    if (saveError) {
-      console.error('Supabase save error:', saveError);
-      throw new Error(`Failed to save search: ${saveError.message}`);
+    // Saving into a workspace needs the editor role there
+    const workspaceId = optionalId(req.body.workspaceId);
+    if (workspaceId) {
+      try {
+        await requireWorkspaceRole(workspaceId, user.id, 'editor');
+      } catch (error) {
+        if (sendWorkspaceError(res, error)) return;
+        throw error;
+      }
     }
 
+    const savedSearch = await getReportRepository().create({
+      userId: user.id,
+      title: query,
+      // Comes from the client, so it is held to the same rules as generated markdown
+      content: typeof consolidatedSummary === 'string' ? sanitizeMarkdown(consolidatedSummary) : '',
+      papers,
+      type: 'search',
+      workspaceId
+    });
+
     res.json({
       savedSearch,
       message: 'Search saved successfully'
     });
 
   } catch (error) {
-    console.error('Save search error:', error);
+    logger.error('Save search error', error);
     res.status(500).json({ 
       error: error instanceof Error ? error.message : 'Failed to save search'
     });
   }
 }) as RequestHandler);
 
+app.use(healthRoutes);
 app.use(router);
+app.use('/api/auth', authRoutes);
+app.use('/api/api-keys', authenticateToken, apiKeyRoutes);
+app.use('/api/report-jobs', authenticate('reports'), reportJobRoutes);
+app.use('/api/reports/:id/chat', authenticateToken, reportChatRoutes);
+app.use('/api/reports', authenticateToken, reportRoutes);
+app.use('/api/export', authenticateToken, exportRoutes);
+app.use('/api/usage', authenticateToken, usageRoutes);
+app.use('/api/report-templates', authenticate('reports'), templateRoutes);
+app.use('/api/alerts', authenticateToken, alertRoutes);
+app.use('/api/workspaces/:workspaceId/collections', authenticateToken, collectionRoutes);
+app.use('/api/workspaces', authenticateToken, workspaceRoutes);
+app.use('/api/notifications', authenticateToken, notificationRoutes);
+app.use('/api/admin', authenticateToken, requireAdmin, adminRoutes);
+app.use(errorHandler);
+
+// Tables in DATABASE_URL only come from the migrations
+const usesMigratedSchema = () =>
+  ['REPORTS_BACKEND', 'API_KEYS_BACKEND', 'CACHE_BACKEND', 'USAGE_BACKEND'].some(name => process.env[name] === 'postgres') ||
+  localAuthEnabled();
+
+// The schema is brought up to date before accepting requests
+const start = async () => {
+  if (usesMigratedSchema() && process.env.MIGRATE_ON_START !== 'false') {
+    await runMigrations({ log: message => logger.info(message) });
+  }
+  app.listen(PORT, () => {
+    logger.info(`Server running on port ${PORT}`);
+    startAlertScheduler();
+  });
+};
 
-app.listen(PORT, () => {
-  console.log(`Server running on port ${PORT}`);
+start().catch((error) => {
+  logger.error('Startup error', error);
+  process.exit(1);
 }); 
\ No newline at end of file
@@ -0,0 +1,88 @@
+import { completeStructured, schema } from '../llm';
+import { normalizeTitle, paperIdentity, searchPaperPage, arxivQueryToText, ArxivSearchQuery, Paper, PaperSourceName } from '../papers';
+import { DigestPaper } from './types';
+import { logger } from '../observability';
+import { sanitizeMarkdown, untrusted } from '../safety';
+
+// Results fetched per source on each run; newest first, so new papers appear at the top
+const SEARCH_LIMIT = Math.max(1, parseInt(process.env.ALERT_SEARCH_LIMIT || '20', 10) || 20);
+// Papers summarized in one digest; the rest are listed with their abstracts
+const MAX_SUMMARIZED = 10;
+// Seen keys kept per alert, oldest dropped first
+const MAX_SEEN_IDS = 2000;
+
+const digestSchema = schema.object({
+  overview: schema.string({ minLength: 1 }),
+  papers: schema.array(schema.object({
+    number: schema.integer(),
+    summary: schema.string({ minLength: 1 })
+  }))
+});
+
+// Both the stable identity and the title, so a paper found later through another source still matches
+export const paperSeenKeys = (paper: Paper): string[] =>
+  Array.from(new Set([paperIdentity(paper), `title:${normalizeTitle(paper.title || '')}`]));
+
+export const mergeSeenIds = (seen: string[], papers: Paper[]): string[] => {
+  const merged = new Set(seen);
+  papers.flatMap(paperSeenKeys).forEach(key => {
+    // Re-adding moves the key to the end so recently returned papers are kept longest
+    merged.delete(key);
+    merged.add(key);
+  });
+  return Array.from(merged).slice(-MAX_SEEN_IDS);
+};
+
+export const findNewPapers = (papers: Paper[], seen: string[]): Paper[] => {
+  const seenSet = new Set(seen);
+  return papers.filter(paper => !paperSeenKeys(paper).some(key => seenSet.has(key)));
+};
+
+export const searchLatest = async (query: ArxivSearchQuery, sources: PaperSourceName[]): Promise<Paper[]> => {
+  const { papers } = await searchPaperPage(arxivQueryToText(query), {
+    sources,
+    limit: SEARCH_LIMIT,
+    arxivQuery: { ...query, sortBy: 'submittedDate', sortOrder: 'descending' },
+    rerank: false
+  });
+  return papers;
+};
+
+const fallbackSummary = (paper: Paper) =>
+  paper.abstract.length > 300 ? `${paper.abstract.slice(0, 297).trimEnd()}...` : paper.abstract;
+
+export const summarizeNewPapers = async (
+  title: string,
+  papers: Paper[]
+): Promise<{ overview: string; papers: DigestPaper[] }> => {
+  const summarized = papers.slice(0, MAX_SUMMARIZED);
+  const fallbackOverview = `${papers.length} new paper${papers.length === 1 ? '' : 's'} for "${title}".`;
+
+  const { value } = await completeStructured('alertDigest',
+    `These papers were newly published for the saved search below.
+${untrusted('query', title)}
+Write a short overview (max 80 words) of what is new across them, then a one-sentence summary of each paper.
+
+Papers:
+${summarized.map((paper, i) => `[${i + 1}] ${untrusted('paper', `${paper.title}\n${paper.abstract.slice(0, 1000)}`)}`).join('\n\n')}
+
+Respond with only JSON: {"overview": "...", "papers": [{"number": 1, "summary": "..."}]}`,
+    digestSchema,
+    { overview: fallbackOverview, papers: [] }
+  ).catch((error) => {
+    logger.error('Alert digest summary error', error);
+    return { value: { overview: fallbackOverview, papers: [] as { number: number; summary: string }[] } };
+  });
+
+  return {
+    overview: sanitizeMarkdown(value.overview),
+    papers: papers.map((paper, i) => ({
+      title: paper.title,
+      authors: paper.authors,
+      link: paper.link,
+      source: paper.source,
+      publishedAt: paper.publishedAt,
+      summary: sanitizeMarkdown(value.papers.find(entry => entry.number === i + 1)?.summary || fallbackSummary(paper))
+    }))
+  };
+};
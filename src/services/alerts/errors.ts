@@ -0,0 +1,13 @@
+export class AlertNotFoundError extends Error {
+  constructor(message = 'Alert not found') {
+    super(message);
+    this.name = 'AlertNotFoundError';
+  }
+}
+
+export class AlertValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AlertValidationError';
+  }
+}
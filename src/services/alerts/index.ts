@@ -0,0 +1,66 @@
+import { hasSearchTerms, ArxivSearchQuery, Paper, PaperSourceName } from '../papers';
+import { logger } from '../observability';
+import { AlertNotFoundError, AlertValidationError } from './errors';
+import { mergeSeenIds, searchLatest } from './digest';
+import { firstRunAt } from './schedule';
+import { insertAlert, loadSavedSearch } from './store';
+import { AlertFrequency, SearchAlert } from './types';
+
+export { AlertNotFoundError, AlertValidationError } from './errors';
+export { ALERT_FREQUENCIES, nextRunAt } from './schedule';
+export { validateWebhookUrl } from './webhook';
+export { runAlert, runAlertNow } from './run';
+export { startAlertScheduler, stopAlertScheduler, runDueAlerts } from './scheduler';
+export {
+  getAlert,
+  listAlerts,
+  updateAlert,
+  deleteAlert,
+  listNotifications,
+  countUnreadNotifications,
+  markNotificationsRead
+} from './store';
+export type { AlertFrequency, AlertNotification, AlertRunResult, DigestPaper, SearchAlert } from './types';
+
+export interface CreateAlertInput {
+  searchId: string;
+  frequency: AlertFrequency;
+  // Structured query to re-run; defaults to the saved search's text
+  query?: ArxivSearchQuery;
+  sources: PaperSourceName[];
+  webhookUrl?: string | null;
+}
+
+export const createAlert = async (userId: string, input: CreateAlertInput): Promise<SearchAlert> => {
+  const savedSearch = await loadSavedSearch(input.searchId, userId);
+  if (!savedSearch) throw new AlertNotFoundError('Saved search not found');
+
+  const query = input.query && hasSearchTerms(input.query) ? input.query : { text: savedSearch.title };
+  if (!hasSearchTerms(query)) throw new AlertValidationError('The saved search has no query to re-run');
+
+  // Baseline: everything the user already saw or that exists today is not "new"
+  let seenIds = mergeSeenIds([], (savedSearch.papers || []).filter(paper => paper?.title) as Paper[]);
+  try {
+    seenIds = mergeSeenIds(seenIds, await searchLatest(query, input.sources));
+  } catch (error) {
+    // The first run then reports a few older papers, which beats failing the subscription
+    logger.error('Alert baseline search error', error);
+  }
+
+  const now = new Date();
+  return insertAlert({
+    user_id: userId,
+    search_id: savedSearch.id,
+    title: savedSearch.title,
+    query,
+    sources: input.sources,
+    frequency: input.frequency,
+    webhook_url: input.webhookUrl || null,
+    active: true,
+    seen_ids: seenIds,
+    next_run_at: firstRunAt(input.frequency, now).toISOString(),
+    last_run_at: null,
+    last_error: null,
+    created_at: now.toISOString()
+  });
+};
@@ -0,0 +1,137 @@
+import { getPool } from '../db';
+import { AlertNotification, AlertStore, SearchAlert } from './types';
+
+// Anything else is not a valid uuid and would make Postgres raise instead of finding nothing
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+// Columns an update may set; the rest are fixed when the alert is created
+const UPDATABLE: (keyof SearchAlert)[] = [
+  'title', 'query', 'sources', 'frequency', 'webhook_url', 'active', 'seen_ids', 'next_run_at', 'last_run_at', 'last_error'
+];
+const JSON_COLUMNS = new Set<keyof SearchAlert>(['query']);
+
+const toIso = (value: Date | string | null | undefined) => value instanceof Date ? value.toISOString() : value;
+
+// Same JSON shape as PostgREST returns
+const toAlert = (row: any): SearchAlert => ({
+  ...row,
+  next_run_at: toIso(row.next_run_at),
+  last_run_at: toIso(row.last_run_at),
+  created_at: toIso(row.created_at)
+});
+
+const toNotification = (row: any): AlertNotification => ({
+  ...row,
+  read_at: toIso(row.read_at),
+  created_at: toIso(row.created_at)
+});
+
+const updateColumns = async (id: string, changes: Partial<SearchAlert>, where: string, values: unknown[]) => {
+  const columns = UPDATABLE.filter(column => changes[column] !== undefined);
+  if (columns.length === 0) return [];
+  const { rows } = await getPool().query(
+    `UPDATE search_alerts SET ${columns.map((column, i) => `${column} = $${i + values.length + 2}`).join(', ')}
+     WHERE id = $1 ${where} RETURNING *`,
+    [id, ...values, ...columns.map(column => JSON_COLUMNS.has(column) ? JSON.stringify(changes[column]) : changes[column])]
+  );
+  return rows;
+};
+
+// The tables are created by db/migrations/0005_alerts.sql
+export const createPostgresAlertStore = (): AlertStore => ({
+  name: 'postgres',
+  async insertAlert(alert) {
+    const { rows } = await getPool().query(
+      `INSERT INTO search_alerts
+         (user_id, search_id, title, query, sources, frequency, webhook_url, active, seen_ids, next_run_at, last_run_at, last_error)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+       RETURNING *`,
+      [
+        alert.user_id, alert.search_id, alert.title, JSON.stringify(alert.query), alert.sources, alert.frequency,
+        alert.webhook_url, alert.active, alert.seen_ids, alert.next_run_at, alert.last_run_at, alert.last_error
+      ]
+    );
+    return toAlert(rows[0]);
+  },
+  async getAlert(id, userId) {
+    if (!UUID_PATTERN.test(id)) return null;
+    const { rows } = userId === undefined
+      ? await getPool().query('SELECT * FROM search_alerts WHERE id = $1', [id])
+      : await getPool().query('SELECT * FROM search_alerts WHERE id = $1 AND user_id = $2', [id, userId]);
+    return rows[0] ? toAlert(rows[0]) : null;
+  },
+  async listAlerts(userId) {
+    const { rows } = await getPool().query(
+      'SELECT * FROM search_alerts WHERE user_id = $1 ORDER BY created_at DESC',
+      [userId]
+    );
+    return rows.map(toAlert);
+  },
+  async updateAlert(id, userId, changes) {
+    if (!UUID_PATTERN.test(id)) return null;
+    if (!UPDATABLE.some(column => changes[column] !== undefined)) return this.getAlert(id, userId);
+    const rows = await updateColumns(id, changes, 'AND user_id = $2', [userId]);
+    return rows[0] ? toAlert(rows[0]) : null;
+  },
+  async deleteAlert(id, userId) {
+    if (!UUID_PATTERN.test(id)) return false;
+    const { rowCount } = await getPool().query('DELETE FROM search_alerts WHERE id = $1 AND user_id = $2', [id, userId]);
+    return (rowCount ?? 0) > 0;
+  },
+  async listDueAlerts(now, limit) {
+    const { rows } = await getPool().query(
+      'SELECT * FROM search_alerts WHERE active AND next_run_at <= $1 ORDER BY next_run_at ASC LIMIT $2',
+      [now.toISOString(), limit]
+    );
+    return rows.map(toAlert);
+  },
+  async claimAlert(alert, nextRun) {
+    const { rowCount } = await getPool().query(
+      'UPDATE search_alerts SET next_run_at = $3 WHERE id = $1 AND next_run_at = $2',
+      [alert.id, alert.next_run_at, nextRun]
+    );
+    return (rowCount ?? 0) > 0;
+  },
+  async recordAlertRun(id, changes) {
+    await updateColumns(id, changes, '', []);
+  },
+  async insertNotification(notification) {
+    const { rows } = await getPool().query(
+      `INSERT INTO notifications (user_id, alert_id, title, summary, papers, created_at)
+       VALUES ($1, $2, $3, $4, $5, COALESCE($6, CURRENT_TIMESTAMP))
+       RETURNING *`,
+      [
+        notification.user_id, notification.alert_id, notification.title, notification.summary,
+        JSON.stringify(notification.papers), notification.created_at || null
+      ]
+    );
+    return toNotification(rows[0]);
+  },
+  async listNotifications(userId, options) {
+    const where = `user_id = $1${options.unreadOnly ? ' AND read_at IS NULL' : ''}`;
+    const [{ rows }, { rows: [count] }] = await Promise.all([
+      getPool().query(
+        `SELECT * FROM notifications WHERE ${where} ORDER BY created_at DESC LIMIT $2 OFFSET $3`,
+        [userId, options.to - options.from + 1, options.from]
+      ),
+      getPool().query(`SELECT COUNT(*)::int AS total FROM notifications WHERE ${where}`, [userId])
+    ]);
+    return { notifications: rows.map(toNotification), total: count.total };
+  },
+  async countUnreadNotifications(userId) {
+    const { rows } = await getPool().query(
+      'SELECT COUNT(*)::int AS count FROM notifications WHERE user_id = $1 AND read_at IS NULL',
+      [userId]
+    );
+    return rows[0].count;
+  },
+  async markNotificationsRead(userId, id) {
+    if (id !== undefined && !UUID_PATTERN.test(id)) return 0;
+    const { rowCount } = id === undefined
+      ? await getPool().query('UPDATE notifications SET read_at = now() WHERE user_id = $1 AND read_at IS NULL', [userId])
+      : await getPool().query(
+        'UPDATE notifications SET read_at = now() WHERE user_id = $1 AND read_at IS NULL AND id = $2',
+        [userId, id]
+      );
+    return rowCount ?? 0;
+  }
+});
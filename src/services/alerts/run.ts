@@ -0,0 +1,71 @@
+import { Paper } from '../papers';
+import { AlertNotFoundError } from './errors';
+import { findNewPapers, mergeSeenIds, searchLatest, summarizeNewPapers } from './digest';
+import { deliverWebhook, resolveWebhookUrl } from './webhook';
+import { getAlert, insertNotification, recordAlertRun } from './store';
+import { AlertRunResult, SearchAlert } from './types';
+import { logger } from '../observability';
+
+// Re-runs the search, notifies about papers not seen before and remembers them.
+// The schedule is not touched; the scheduler claims the next slot before calling this.
+export const runAlert = async (alert: SearchAlert): Promise<AlertRunResult> => {
+  const runAt = new Date().toISOString();
+
+  let papers: Paper[];
+  try {
+    papers = await searchLatest(alert.query, alert.sources);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Search failed';
+    await recordAlertRun(alert.id, { seen_ids: alert.seen_ids, last_run_at: runAt, last_error: message });
+    throw error;
+  }
+
+  const newPapers = findNewPapers(papers, alert.seen_ids);
+  const updated: SearchAlert = { ...alert, seen_ids: mergeSeenIds(alert.seen_ids, papers), last_run_at: runAt, last_error: null };
+
+  if (newPapers.length === 0) {
+    await recordAlertRun(alert.id, { seen_ids: updated.seen_ids, last_run_at: runAt, last_error: null });
+    return { alert: updated, newPapers, notification: null, webhook: 'skipped' };
+  }
+
+  const digest = await summarizeNewPapers(alert.title, newPapers);
+  const notification = await insertNotification({
+    user_id: alert.user_id,
+    alert_id: alert.id,
+    title: `${newPapers.length} new paper${newPapers.length === 1 ? '' : 's'}: ${alert.title}`,
+    summary: digest.overview,
+    papers: digest.papers,
+    created_at: runAt
+  });
+
+  // Papers are marked seen once the in-app notification exists; a failed webhook is
+  // reported on the alert rather than repeated next run
+  let webhook: AlertRunResult['webhook'] = 'skipped';
+  const webhookUrl = resolveWebhookUrl(alert.webhook_url);
+  if (webhookUrl) {
+    try {
+      await deliverWebhook(webhookUrl, {
+        type: 'search_alert.digest',
+        alert: { id: alert.id, title: alert.title, frequency: alert.frequency },
+        notificationId: notification.id,
+        summary: digest.overview,
+        papers: digest.papers,
+        createdAt: runAt
+      }, { publicOnly: Boolean(alert.webhook_url) });
+      webhook = 'sent';
+    } catch (error) {
+      logger.error(`Alert ${alert.id} webhook error`, error);
+      webhook = 'failed';
+      updated.last_error = `Webhook delivery failed: ${error instanceof Error ? error.message : 'unknown error'}`;
+    }
+  }
+
+  await recordAlertRun(alert.id, { seen_ids: updated.seen_ids, last_run_at: runAt, last_error: updated.last_error });
+  return { alert: updated, newPapers, notification, webhook };
+};
+
+export const runAlertNow = async (id: string, userId: string): Promise<AlertRunResult> => {
+  const alert = await getAlert(id, userId);
+  if (!alert) throw new AlertNotFoundError();
+  return runAlert(alert);
+};
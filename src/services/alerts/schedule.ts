@@ -0,0 +1,19 @@
+import { AlertFrequency } from './types';
+
+export const ALERT_FREQUENCIES: AlertFrequency[] = ['daily', 'weekly'];
+
+const INTERVAL_MS: Record<AlertFrequency, number> = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000
+};
+
+// Keeps the alert on its original time of day (and weekday) instead of drifting with
+// run duration; runs missed while the server was down collapse into one
+export const nextRunAt = (frequency: AlertFrequency, previous: Date, now = new Date()): Date => {
+  const interval = INTERVAL_MS[frequency];
+  const missed = Math.max(0, Math.floor((now.getTime() - previous.getTime()) / interval));
+  return new Date(previous.getTime() + (missed + 1) * interval);
+};
+
+export const firstRunAt = (frequency: AlertFrequency, now = new Date()): Date =>
+  new Date(now.getTime() + INTERVAL_MS[frequency]);
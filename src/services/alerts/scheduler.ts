@@ -0,0 +1,55 @@
+import { withUsageContext } from '../usage';
+import { runAlert } from './run';
+import { nextRunAt } from './schedule';
+import { claimAlert, listDueAlerts } from './store';
+import { logger } from '../observability';
+
+const POLL_INTERVAL_MS = Math.max(10_000, parseInt(process.env.ALERT_POLL_INTERVAL_MS || '', 10) || 5 * 60 * 1000);
+// Alerts handled per poll; the rest wait for the next one
+const BATCH_SIZE = 20;
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+// Runs every alert whose next_run_at has passed. Alerts run one at a time: arXiv's
+// pacing makes parallel searches no faster, and it keeps the scheduler's load flat.
+export const runDueAlerts = async (now = new Date()): Promise<number> => {
+  if (running) return 0;
+  running = true;
+  let processed = 0;
+
+  try {
+    const due = await listDueAlerts(now, BATCH_SIZE);
+    for (const alert of due) {
+      const next = nextRunAt(alert.frequency, new Date(alert.next_run_at), now).toISOString();
+      // Another instance got it first
+      if (!await claimAlert(alert, next)) continue;
+
+      try {
+        // Scheduled runs happen outside a request, so token usage is charged here
+        const { newPapers, webhook } = await withUsageContext({ userId: alert.user_id, endpoint: 'search' }, () => runAlert(alert));
+        logger.info(`Alert ${alert.id}: ${newPapers.length} new paper(s), webhook ${webhook}`);
+      } catch (error) {
+        logger.error(`Alert ${alert.id} run failed`, error);
+      }
+      processed++;
+    }
+  } catch (error) {
+    logger.error('Alert scheduler error', error);
+  } finally {
+    running = false;
+  }
+  return processed;
+};
+
+export const startAlertScheduler = () => {
+  if (timer || process.env.ALERTS_ENABLED === 'false') return;
+  timer = setInterval(() => void runDueAlerts(), POLL_INTERVAL_MS);
+  // The scheduler alone should not keep the process alive
+  timer.unref();
+};
+
+export const stopAlertScheduler = () => {
+  if (timer) clearInterval(timer);
+  timer = null;
+};
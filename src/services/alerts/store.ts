@@ -0,0 +1,41 @@
+import { findAccessibleReport } from '../workspaces';
+import { createPostgresAlertStore } from './postgres';
+import { createSupabaseAlertStore } from './supabase';
+import { AlertStore } from './types';
+
+export interface SavedSearch {
+  id: string;
+  title: string;
+  papers: any[] | null;
+}
+
+// The user's own saved searches and those of workspaces they can view
+export const loadSavedSearch = async (searchId: string, userId: string): Promise<SavedSearch | null> => {
+  const search = await findAccessibleReport(searchId, userId, 'viewer');
+  return search?.type === 'search' ? search : null;
+};
+
+let store: AlertStore | null = null;
+
+// Alerts point at saved searches (reports), so REPORTS_BACKEND picks their storage too
+export const getAlertStore = (): AlertStore => {
+  if (!store) {
+    store = process.env.REPORTS_BACKEND === 'postgres' ? createPostgresAlertStore() : createSupabaseAlertStore();
+  }
+  return store;
+};
+
+export const insertAlert: AlertStore['insertAlert'] = (...args) => getAlertStore().insertAlert(...args);
+export const getAlert: AlertStore['getAlert'] = (...args) => getAlertStore().getAlert(...args);
+export const listAlerts: AlertStore['listAlerts'] = (...args) => getAlertStore().listAlerts(...args);
+export const updateAlert: AlertStore['updateAlert'] = (...args) => getAlertStore().updateAlert(...args);
+export const deleteAlert: AlertStore['deleteAlert'] = (...args) => getAlertStore().deleteAlert(...args);
+export const listDueAlerts: AlertStore['listDueAlerts'] = (...args) => getAlertStore().listDueAlerts(...args);
+export const claimAlert: AlertStore['claimAlert'] = (...args) => getAlertStore().claimAlert(...args);
+export const recordAlertRun: AlertStore['recordAlertRun'] = (...args) => getAlertStore().recordAlertRun(...args);
+export const insertNotification: AlertStore['insertNotification'] = (...args) => getAlertStore().insertNotification(...args);
+export const listNotifications: AlertStore['listNotifications'] = (...args) => getAlertStore().listNotifications(...args);
+export const countUnreadNotifications: AlertStore['countUnreadNotifications'] = (...args) =>
+  getAlertStore().countUnreadNotifications(...args);
+export const markNotificationsRead: AlertStore['markNotificationsRead'] = (...args) =>
+  getAlertStore().markNotificationsRead(...args);
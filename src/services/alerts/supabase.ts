@@ -0,0 +1,139 @@
+import { supabase } from '../supabase';
+import { AlertNotification, AlertStore, SearchAlert } from './types';
+
+// PostgREST "no rows" for .single()
+const NOT_FOUND_CODE = 'PGRST116';
+
+export const createSupabaseAlertStore = (): AlertStore => ({
+  name: 'supabase',
+  async insertAlert(alert) {
+    const { data, error } = await supabase
+      .from('search_alerts')
+      .insert(alert)
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to create alert: ${error.message}`);
+    return data as SearchAlert;
+  },
+  async getAlert(id, userId) {
+    let query = supabase.from('search_alerts').select().eq('id', id);
+    if (userId) query = query.eq('user_id', userId);
+
+    const { data, error } = await query.single();
+    if (error?.code === NOT_FOUND_CODE || (!error && !data)) return null;
+    if (error) throw new Error(`Failed to fetch alert: ${error.message}`);
+    return data as SearchAlert;
+  },
+  async listAlerts(userId) {
+    const { data, error } = await supabase
+      .from('search_alerts')
+      .select()
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw new Error(`Failed to list alerts: ${error.message}`);
+    return (data || []) as SearchAlert[];
+  },
+  async updateAlert(id, userId, changes) {
+    const { data, error } = await supabase
+      .from('search_alerts')
+      .update(changes)
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select()
+      .single();
+
+    if (error?.code === NOT_FOUND_CODE || (!error && !data)) return null;
+    if (error) throw new Error(`Failed to update alert: ${error.message}`);
+    return data as SearchAlert;
+  },
+  async deleteAlert(id, userId) {
+    const { data, error } = await supabase
+      .from('search_alerts')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select('id');
+
+    if (error) throw new Error(`Failed to delete alert: ${error.message}`);
+    return (data || []).length > 0;
+  },
+  async listDueAlerts(now, limit) {
+    const { data, error } = await supabase
+      .from('search_alerts')
+      .select()
+      .eq('active', true)
+      .lte('next_run_at', now.toISOString())
+      .order('next_run_at', { ascending: true })
+      .limit(limit);
+
+    if (error) throw new Error(`Failed to list due alerts: ${error.message}`);
+    return (data || []) as SearchAlert[];
+  },
+  async claimAlert(alert, nextRun) {
+    const { data, error } = await supabase
+      .from('search_alerts')
+      .update({ next_run_at: nextRun })
+      .eq('id', alert.id)
+      .eq('next_run_at', alert.next_run_at)
+      .select('id');
+
+    if (error) throw new Error(`Failed to claim alert: ${error.message}`);
+    return (data || []).length > 0;
+  },
+  async recordAlertRun(id, changes) {
+    const { error } = await supabase
+      .from('search_alerts')
+      .update(changes)
+      .eq('id', id);
+
+    if (error) throw new Error(`Failed to update alert: ${error.message}`);
+  },
+  async insertNotification(notification) {
+    const { data, error } = await supabase
+      .from('notifications')
+      .insert(notification)
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to save notification: ${error.message}`);
+    return data as AlertNotification;
+  },
+  async listNotifications(userId, options) {
+    let query = supabase
+      .from('notifications')
+      .select('*', { count: 'exact' })
+      .eq('user_id', userId);
+    if (options.unreadOnly) query = query.is('read_at', null);
+
+    const { data, count, error } = await query
+      .order('created_at', { ascending: false })
+      .range(options.from, options.to);
+
+    if (error) throw new Error(`Failed to list notifications: ${error.message}`);
+    return { notifications: (data || []) as AlertNotification[], total: count || 0 };
+  },
+  async countUnreadNotifications(userId) {
+    const { count, error } = await supabase
+      .from('notifications')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .is('read_at', null);
+
+    if (error) throw new Error(`Failed to count notifications: ${error.message}`);
+    return count || 0;
+  },
+  async markNotificationsRead(userId, id) {
+    let query = supabase
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('user_id', userId)
+      .is('read_at', null);
+    if (id) query = query.eq('id', id);
+
+    const { data, error } = await query.select('id');
+    if (error) throw new Error(`Failed to update notifications: ${error.message}`);
+    return (data || []).length;
+  }
+});
@@ -0,0 +1,74 @@
+import { ArxivSearchQuery, Paper, PaperSourceName } from '../papers';
+
+export type AlertFrequency = 'daily' | 'weekly';
+
+// A `search_alerts` row: a saved search re-run on a schedule
+export interface SearchAlert {
+  id: string;
+  user_id: string;
+  // The saved search (`reports` row of type 'search') the alert was created from
+  search_id: string;
+  title: string;
+  query: ArxivSearchQuery;
+  sources: PaperSourceName[];
+  frequency: AlertFrequency;
+  webhook_url: string | null;
+  active: boolean;
+  // Identity keys of every paper already reported, newest last
+  seen_ids: string[];
+  next_run_at: string;
+  last_run_at: string | null;
+  last_error: string | null;
+  created_at?: string;
+}
+
+export interface DigestPaper {
+  title: string;
+  authors: string[];
+  link: string;
+  source: PaperSourceName;
+  publishedAt?: string;
+  summary: string;
+}
+
+// A `notifications` row shown in the app
+export interface AlertNotification {
+  id?: string;
+  user_id: string;
+  alert_id: string;
+  title: string;
+  summary: string;
+  papers: DigestPaper[];
+  read_at?: string | null;
+  created_at?: string;
+}
+
+export interface AlertRunResult {
+  alert: SearchAlert;
+  newPapers: Paper[];
+  notification: AlertNotification | null;
+  webhook: 'sent' | 'failed' | 'skipped';
+}
+
+// Rows come back in the JSON shape PostgREST returns, whichever backend stores them
+export interface AlertStore {
+  name: string;
+  insertAlert(alert: Omit<SearchAlert, 'id'>): Promise<SearchAlert>;
+  // Any user's alert when no userId is given (the scheduler)
+  getAlert(id: string, userId?: string): Promise<SearchAlert | null>;
+  listAlerts(userId: string): Promise<SearchAlert[]>;
+  updateAlert(id: string, userId: string, changes: Partial<SearchAlert>): Promise<SearchAlert | null>;
+  deleteAlert(id: string, userId: string): Promise<boolean>;
+  listDueAlerts(now: Date, limit: number): Promise<SearchAlert[]>;
+  // Moves next_run_at forward only if no other instance already did, so each run happens once
+  claimAlert(alert: SearchAlert, nextRun: string): Promise<boolean>;
+  recordAlertRun(id: string, changes: Pick<SearchAlert, 'seen_ids' | 'last_run_at' | 'last_error'>): Promise<void>;
+  insertNotification(notification: AlertNotification): Promise<AlertNotification>;
+  listNotifications(
+    userId: string,
+    options: { unreadOnly?: boolean; from: number; to: number }
+  ): Promise<{ notifications: AlertNotification[]; total: number }>;
+  countUnreadNotifications(userId: string): Promise<number>;
+  // Marks one notification, or all of the user's unread ones when no id is given
+  markNotificationsRead(userId: string, id?: string): Promise<number>;
+}
@@ -0,0 +1,88 @@
+import crypto from 'crypto';
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import { fetchText } from '../upstream';
+import { AlertValidationError } from './errors';
+
+// User-supplied webhooks must not reach the backend's own network. Names are checked when the
+// URL is saved; addresses are checked again for every connection, after DNS resolution.
+const PRIVATE_NAME = /^(localhost|.*\.localhost|.*\.local|.*\.internal)$/i;
+
+const BLOCKED_ADDRESSES = new net.BlockList();
+([
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]
+] as const).forEach(([address, prefix]) => BLOCKED_ADDRESSES.addSubnet(address, prefix, 'ipv4'));
+([
+  ['::', 127], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+] as const).forEach(([address, prefix]) => BLOCKED_ADDRESSES.addSubnet(address, prefix, 'ipv6'));
+
+// Loopback, private, link-local, shared, multicast and reserved ranges. IPv4-mapped IPv6 addresses
+// are matched against the IPv4 ranges by BlockList itself.
+export const isPrivateAddress = (address: string) => {
+  const family = net.isIP(address);
+  return family !== 0 && BLOCKED_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+};
+
+const isPrivateHost = (hostname: string) => {
+  const host = hostname.replace(/^\[(.*)\]$/, '$1');
+  return PRIVATE_NAME.test(host) || isPrivateAddress(host);
+};
+
+// Resolves like the default lookup but refuses private addresses, so a public name that
+// resolves (or later re-resolves) to an internal address can't be connected to
+const publicLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, options, (error, address, family) => {
+    if (error) return callback(error, address, family);
+    const addresses = Array.isArray(address) ? address.map(entry => entry.address) : [address];
+    if (addresses.some(isPrivateAddress)) {
+      return callback(Object.assign(new Error(`${hostname} resolves to a private address`), { code: 'EPRIVATEADDRESS' }), address, family);
+    }
+    callback(null, address, family);
+  });
+};
+
+const publicAgents = {
+  'http:': new http.Agent({ lookup: publicLookup }),
+  'https:': new https.Agent({ lookup: publicLookup })
+};
+
+export const validateWebhookUrl = (value: unknown): string => {
+  if (typeof value !== 'string' || !value.trim()) throw new AlertValidationError('webhookUrl must be a URL');
+  let url: URL;
+  try {
+    url = new URL(value.trim());
+  } catch {
+    throw new AlertValidationError('webhookUrl must be a URL');
+  }
+  if (url.protocol !== 'https:' && !(url.protocol === 'http:' && process.env.ALERT_WEBHOOK_ALLOW_HTTP === 'true')) {
+    throw new AlertValidationError('webhookUrl must use https');
+  }
+  if (isPrivateHost(url.hostname)) throw new AlertValidationError('webhookUrl must be a public address');
+  return url.toString();
+};
+
+// Per-alert URL, else the deployment-wide ALERT_WEBHOOK_URL
+export const resolveWebhookUrl = (alertUrl: string | null) => alertUrl || process.env.ALERT_WEBHOOK_URL || null;
+
+// Receivers verify `X-Alert-Signature: sha256=<hex HMAC of the body>` when ALERT_WEBHOOK_SECRET is set.
+// `publicOnly` is for URLs that came from users rather than the deployment's own configuration.
+export const deliverWebhook = async (url: string, payload: unknown, options: { publicOnly?: boolean } = {}): Promise<void> => {
+  const target = new URL(url);
+  if (options.publicOnly && isPrivateHost(target.hostname)) throw new AlertValidationError('webhookUrl must be a public address');
+
+  const body = JSON.stringify(payload);
+  const headers: Record<string, string> = { 'Content-Type': 'application/json', 'User-Agent': 'resegoAI-alerts' };
+  const secret = process.env.ALERT_WEBHOOK_SECRET;
+  if (secret) {
+    headers['X-Alert-Signature'] = `sha256=${crypto.createHmac('sha256', secret).update(body).digest('hex')}`;
+  }
+
+  // One breaker per receiving host, so a broken endpoint only affects its own alerts
+  // Redirects are not followed: the receiver could otherwise bounce the request to an internal address
+  const agent = options.publicOnly ? publicAgents[target.protocol as keyof typeof publicAgents] : undefined;
+  await fetchText('webhook', url, { method: 'POST', headers, body, redirect: 'manual', agent },
+    { upstream: `webhook:${target.host}`, label: 'Webhook' });
+};
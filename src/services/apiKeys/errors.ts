@@ -0,0 +1,13 @@
+export class ApiKeyNotFoundError extends Error {
+  constructor(message = 'API key not found') {
+    super(message);
+    this.name = 'ApiKeyNotFoundError';
+  }
+}
+
+export class ApiKeyValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ApiKeyValidationError';
+  }
+}
@@ -0,0 +1,118 @@
+import crypto from 'crypto';
+import { AuthError, findRequestUser } from '../auth';
+import { ApiKeyNotFoundError, ApiKeyValidationError } from './errors';
+import { createPostgresApiKeyStore } from './postgres';
+import { createSupabaseApiKeyStore } from './supabase';
+import { ApiKey, ApiKeyScope, ApiKeyStore } from './types';
+import { logger } from '../observability';
+
+export { ApiKeyNotFoundError, ApiKeyValidationError } from './errors';
+export type { ApiKey, ApiKeyScope, ApiKeyStore } from './types';
+
+export const API_KEY_SCOPES: ApiKeyScope[] = ['search', 'reports'];
+// Keys look like rsk_<43 base64url characters>, so they are easy to spot in code and logs
+const KEY_PREFIX = 'rsk_';
+const DISPLAY_PREFIX_LENGTH = KEY_PREFIX.length + 8;
+const MAX_NAME_LENGTH = 100;
+const MAX_ACTIVE_KEYS = Number(process.env.API_KEYS_MAX_PER_USER) || 25;
+const MAX_EXPIRY_DAYS = 365 * 5;
+// last_used_at is written at most this often per key, not on every request
+const TOUCH_INTERVAL_MS = 60_000;
+
+let store: ApiKeyStore | null = null;
+
+export const getApiKeyStore = (): ApiKeyStore => {
+  if (!store) {
+    store = process.env.API_KEYS_BACKEND === 'postgres' ? createPostgresApiKeyStore() : createSupabaseApiKeyStore();
+  }
+  return store;
+};
+
+export const isApiKey = (token: string) => token.startsWith(KEY_PREFIX);
+
+export const isApiKeyScope = (value: unknown): value is ApiKeyScope =>
+  typeof value === 'string' && API_KEY_SCOPES.includes(value as ApiKeyScope);
+
+// Keys carry 256 random bits, so a fast hash is enough (unlike passwords)
+const hashKey = (key: string) => crypto.createHash('sha256').update(key).digest('hex');
+
+export const validateKeyName = (value: unknown): string => {
+  const name = typeof value === 'string' ? value.trim() : '';
+  if (!name) throw new ApiKeyValidationError('Name is required');
+  if (name.length > MAX_NAME_LENGTH) throw new ApiKeyValidationError(`Name must be at most ${MAX_NAME_LENGTH} characters`);
+  return name;
+};
+
+const validateScopes = (value: unknown): ApiKeyScope[] => {
+  if (value === undefined) return ['search'];
+  if (!Array.isArray(value) || value.length === 0 || !value.every(isApiKeyScope)) {
+    throw new ApiKeyValidationError(`scopes must be a non-empty array of: ${API_KEY_SCOPES.join(', ')}`);
+  }
+  return Array.from(new Set(value));
+};
+
+const validateExpiry = (value: unknown): string | null => {
+  if (value === undefined || value === null) return null;
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > MAX_EXPIRY_DAYS) {
+    throw new ApiKeyValidationError(`expiresInDays must be a whole number between 1 and ${MAX_EXPIRY_DAYS}`);
+  }
+  return new Date(Date.now() + value * 24 * 60 * 60 * 1000).toISOString();
+};
+
+// The full key is only returned here; afterwards just its prefix can be shown
+export const createApiKey = async (
+  userId: string,
+  input: { name?: unknown; scopes?: unknown; expiresInDays?: unknown }
+): Promise<{ apiKey: ApiKey; key: string }> => {
+  const name = validateKeyName(input.name);
+  const scopes = validateScopes(input.scopes);
+  const expiresAt = validateExpiry(input.expiresInDays);
+
+  if (await getApiKeyStore().countActive(userId) >= MAX_ACTIVE_KEYS) {
+    throw new ApiKeyValidationError(`You can have at most ${MAX_ACTIVE_KEYS} active API keys; revoke one first`);
+  }
+
+  const key = `${KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+  const apiKey = await getApiKeyStore().insert({
+    userId,
+    name,
+    prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+    keyHash: hashKey(key),
+    scopes,
+    expiresAt
+  });
+  return { apiKey, key };
+};
+
+export const listApiKeys = (userId: string) => getApiKeyStore().listForUser(userId);
+
+export const renameApiKey = async (id: string, userId: string, name: unknown) => {
+  const apiKey = await getApiKeyStore().rename(id, userId, validateKeyName(name));
+  if (!apiKey) throw new ApiKeyNotFoundError();
+  return apiKey;
+};
+
+export const revokeApiKey = async (id: string, userId: string) => {
+  const apiKey = await getApiKeyStore().revoke(id, userId);
+  if (!apiKey) throw new ApiKeyNotFoundError();
+  return apiKey;
+};
+
+const recordUse = (apiKey: ApiKey) => {
+  if (apiKey.last_used_at && Date.now() - Date.parse(apiKey.last_used_at) < TOUCH_INTERVAL_MS) return;
+  getApiKeyStore().touch(apiKey.id).catch(error => logger.error('API key touch error', error));
+};
+
+// Resolves a key to its owner, in the same shape as a session's user
+export const authenticateApiKey = async (key: string) => {
+  const stored = await getApiKeyStore().findByHash(hashKey(key));
+  if (!stored || stored.revoked_at) throw new AuthError('Invalid API key');
+  if (stored.expires_at && Date.parse(stored.expires_at) <= Date.now()) throw new AuthError('API key expired');
+
+  const user = await findRequestUser(stored.user_id);
+  if (!user) throw new AuthError('Invalid API key');
+
+  const { key_hash, ...apiKey } = stored;
+  recordUse(apiKey);
+  return { user, apiKey };
+};
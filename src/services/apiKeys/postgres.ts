@@ -0,0 +1,72 @@
+import { getPool } from '../db';
+import { ApiKey, ApiKeyStore, StoredApiKey } from './types';
+
+const PUBLIC_COLUMNS = 'id, user_id, name, prefix, scopes, created_at, last_used_at, expires_at, revoked_at';
+// Anything else is not a valid uuid and would make Postgres raise instead of finding nothing
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const toIso = (value: Date | string | null) => value instanceof Date ? value.toISOString() : value;
+
+// Same JSON shape as PostgREST returns
+const toKey = <T extends ApiKey>(row: any): T => ({
+  ...row,
+  created_at: toIso(row.created_at),
+  last_used_at: toIso(row.last_used_at),
+  expires_at: toIso(row.expires_at),
+  revoked_at: toIso(row.revoked_at)
+});
+
+// The table is created by db/migrations/0003_api_keys.sql
+export const createPostgresApiKeyStore = (): ApiKeyStore => ({
+  name: 'postgres',
+  async insert(key) {
+    const { rows } = await getPool().query(
+      `INSERT INTO api_keys (user_id, name, prefix, key_hash, scopes, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING ${PUBLIC_COLUMNS}`,
+      [key.userId, key.name, key.prefix, key.keyHash, key.scopes, key.expiresAt]
+    );
+    return toKey(rows[0]);
+  },
+  async listForUser(userId) {
+    const { rows } = await getPool().query(
+      `SELECT ${PUBLIC_COLUMNS} FROM api_keys WHERE user_id = $1 ORDER BY created_at DESC`,
+      [userId]
+    );
+    return rows.map(row => toKey(row));
+  },
+  // Expired keys no longer count towards the limit
+  async countActive(userId) {
+    const { rows } = await getPool().query(
+      `SELECT COUNT(*)::int AS count FROM api_keys
+       WHERE user_id = $1 AND revoked_at IS NULL AND (expires_at IS NULL OR expires_at > NOW())`,
+      [userId]
+    );
+    return rows[0].count;
+  },
+  async findByHash(keyHash) {
+    const { rows } = await getPool().query('SELECT * FROM api_keys WHERE key_hash = $1', [keyHash]);
+    return rows[0] ? toKey<StoredApiKey>(rows[0]) : null;
+  },
+  async rename(id, userId, name) {
+    if (!UUID_PATTERN.test(id)) return null;
+    const { rows } = await getPool().query(
+      `UPDATE api_keys SET name = $3 WHERE id = $1 AND user_id = $2 RETURNING ${PUBLIC_COLUMNS}`,
+      [id, userId, name]
+    );
+    return rows[0] ? toKey(rows[0]) : null;
+  },
+  async revoke(id, userId) {
+    if (!UUID_PATTERN.test(id)) return null;
+    const { rows } = await getPool().query(
+      `UPDATE api_keys SET revoked_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND user_id = $2 AND revoked_at IS NULL
+       RETURNING ${PUBLIC_COLUMNS}`,
+      [id, userId]
+    );
+    return rows[0] ? toKey(rows[0]) : null;
+  },
+  async touch(id) {
+    await getPool().query('UPDATE api_keys SET last_used_at = CURRENT_TIMESTAMP WHERE id = $1', [id]);
+  }
+});
@@ -0,0 +1,90 @@
+import { supabase } from '../supabase';
+import { ApiKey, ApiKeyStore, StoredApiKey } from './types';
+
+const PUBLIC_COLUMNS = 'id, user_id, name, prefix, scopes, created_at, last_used_at, expires_at, revoked_at';
+
+export const createSupabaseApiKeyStore = (): ApiKeyStore => ({
+  name: 'supabase',
+  async insert(key) {
+    const { data, error } = await supabase
+      .from('api_keys')
+      .insert({
+        user_id: key.userId,
+        name: key.name,
+        prefix: key.prefix,
+        key_hash: key.keyHash,
+        scopes: key.scopes,
+        expires_at: key.expiresAt
+      })
+      .select(PUBLIC_COLUMNS)
+      .single();
+
+    if (error) throw new Error(`Failed to create API key: ${error.message}`);
+    return data as ApiKey;
+  },
+  async listForUser(userId) {
+    const { data, error } = await supabase
+      .from('api_keys')
+      .select(PUBLIC_COLUMNS)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw new Error(`Failed to list API keys: ${error.message}`);
+    return (data || []) as ApiKey[];
+  },
+  // Expired keys no longer count towards the limit
+  async countActive(userId) {
+    const { count, error } = await supabase
+      .from('api_keys')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .is('revoked_at', null)
+      .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`);
+
+    if (error) throw new Error(`Failed to count API keys: ${error.message}`);
+    return count ?? 0;
+  },
+  async findByHash(keyHash) {
+    const { data, error } = await supabase
+      .from('api_keys')
+      .select('*')
+      .eq('key_hash', keyHash)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to look up API key: ${error.message}`);
+    return data as StoredApiKey | null;
+  },
+  async rename(id, userId, name) {
+    const { data, error } = await supabase
+      .from('api_keys')
+      .update({ name })
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select(PUBLIC_COLUMNS)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to rename API key: ${error.message}`);
+    return data as ApiKey | null;
+  },
+  async revoke(id, userId) {
+    const { data, error } = await supabase
+      .from('api_keys')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('user_id', userId)
+      .is('revoked_at', null)
+      .select(PUBLIC_COLUMNS)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to revoke API key: ${error.message}`);
+    return data as ApiKey | null;
+  },
+  async touch(id) {
+    const { error } = await supabase
+      .from('api_keys')
+      .update({ last_used_at: new Date().toISOString() })
+      .eq('id', id);
+
+    if (error) throw new Error(`Failed to record API key use: ${error.message}`);
+  }
+});
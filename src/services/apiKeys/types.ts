@@ -0,0 +1,41 @@
+// `search`: paper search and the other read-only helpers; `reports`: report generation and jobs
+export type ApiKeyScope = 'search' | 'reports';
+
+export interface ApiKey {
+  id: string;
+  user_id: string;
+  name: string;
+  // First characters of the key, shown so users can tell their keys apart
+  prefix: string;
+  scopes: ApiKeyScope[];
+  created_at: string;
+  last_used_at: string | null;
+  expires_at: string | null;
+  revoked_at: string | null;
+}
+
+export interface StoredApiKey extends ApiKey {
+  // SHA-256 of the full key; the key itself is never stored
+  key_hash: string;
+}
+
+export interface NewApiKey {
+  userId: string;
+  name: string;
+  prefix: string;
+  keyHash: string;
+  scopes: ApiKeyScope[];
+  expiresAt: string | null;
+}
+
+export interface ApiKeyStore {
+  name: string;
+  insert(key: NewApiKey): Promise<ApiKey>;
+  // Newest first, revoked keys included
+  listForUser(userId: string): Promise<ApiKey[]>;
+  countActive(userId: string): Promise<number>;
+  findByHash(keyHash: string): Promise<StoredApiKey | null>;
+  rename(id: string, userId: string, name: string): Promise<ApiKey | null>;
+  revoke(id: string, userId: string): Promise<ApiKey | null>;
+  touch(id: string): Promise<void>;
+}
@@ -0,0 +1,42 @@
+export type AuthMode = 'supabase' | 'local' | 'both';
+
+const AUTH_MODES: AuthMode[] = ['supabase', 'local', 'both'];
+
+const numberFromEnv = (name: string, fallback: number) => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+// AUTH_MODE: `supabase` (default) verifies Supabase sessions, `local` only tokens issued by
+// /api/auth, `both` accepts either (useful while migrating users)
+export const getAuthMode = (): AuthMode => {
+  const mode = (process.env.AUTH_MODE || 'supabase').toLowerCase() as AuthMode;
+  if (!AUTH_MODES.includes(mode)) {
+    throw new Error(`AUTH_MODE must be one of: ${AUTH_MODES.join(', ')}`);
+  }
+  return mode;
+};
+
+export const localAuthEnabled = () => getAuthMode() !== 'supabase';
+export const supabaseAuthEnabled = () => getAuthMode() !== 'local';
+
+// Local accounts can't sign in until they open the link sent to their address, unless
+// AUTH_REQUIRE_EMAIL_VERIFICATION=false (e.g. a closed deployment without a mail relay)
+export const emailVerificationRequired = () => process.env.AUTH_REQUIRE_EMAIL_VERIFICATION !== 'false';
+
+export const getJwtSecret = (): string => {
+  const secret = process.env.JWT_SECRET;
+  if (!secret || secret.length < 32) {
+    throw new Error('JWT_SECRET (at least 32 characters) is required for local authentication');
+  }
+  return secret;
+};
+
+// Identifies tokens issued here, so `both` mode can tell them from Supabase tokens
+export const JWT_ISSUER = process.env.JWT_ISSUER || 'resegoai';
+
+export const ACCESS_TOKEN_TTL_SECONDS = numberFromEnv('ACCESS_TOKEN_TTL_SECONDS', 15 * 60);
+export const REFRESH_TOKEN_TTL_SECONDS = numberFromEnv('REFRESH_TOKEN_TTL_SECONDS', 30 * 24 * 60 * 60);
+export const PASSWORD_RESET_TTL_SECONDS = numberFromEnv('PASSWORD_RESET_TTL_SECONDS', 60 * 60);
+export const EMAIL_VERIFICATION_TTL_SECONDS = numberFromEnv('EMAIL_VERIFICATION_TTL_SECONDS', 24 * 60 * 60);
+export const BCRYPT_ROUNDS = numberFromEnv('BCRYPT_ROUNDS', 12);
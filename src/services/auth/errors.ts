@@ -0,0 +1,7 @@
+// Carries the HTTP status the auth routes respond with
+export class AuthError extends Error {
+  constructor(message: string, public status = 401) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
@@ -0,0 +1,252 @@
+import crypto from 'crypto';
+import { getSupabase } from '../supabase';
+import { fetchText } from '../upstream';
+import {
+  emailVerificationRequired,
+  localAuthEnabled,
+  supabaseAuthEnabled,
+  EMAIL_VERIFICATION_TTL_SECONDS,
+  PASSWORD_RESET_TTL_SECONDS,
+  REFRESH_TOKEN_TTL_SECONDS
+} from './config';
+import { AuthError } from './errors';
+import { hashPassword, normalizeEmail, validatePassword, verifyPassword } from './passwords';
+import {
+  consumeRefreshToken,
+  consumeResetToken,
+  consumeVerificationToken,
+  findSessionUser,
+  findUserByEmail,
+  findUserById,
+  insertResetToken,
+  insertSession,
+  insertUser,
+  insertVerificationToken,
+  revokeSession,
+  revokeUserSessions,
+  updatePasswordHash,
+  LocalUser,
+  UNIQUE_VIOLATION
+} from './store';
+import { createResetToken, hashResetToken, issueTokens, verifyLocalToken, TokenPair } from './tokens';
+import { logger } from '../observability';
+
+export { emailVerificationRequired, getAuthMode, getJwtSecret, localAuthEnabled, supabaseAuthEnabled } from './config';
+export type { AuthMode } from './config';
+export { AuthError } from './errors';
+export { isLocalToken } from './tokens';
+export type { TokenPair } from './tokens';
+
+const MAX_NAME_LENGTH = 255;
+
+const toIso = (value: Date | string | null) => value instanceof Date ? value.toISOString() : value;
+
+// Same shape as a Supabase user, so req.user looks alike in both modes
+export const toRequestUser = (user: LocalUser) => ({
+  id: user.id,
+  email: user.email,
+  // Set once the user opened the verification link, like Supabase's confirmed addresses
+  email_confirmed_at: toIso(user.email_verified_at) || undefined,
+  aud: 'authenticated',
+  role: 'authenticated',
+  app_metadata: { provider: 'local', ...(user.plan ? { plan: user.plan } : {}) },
+  user_metadata: { full_name: user.full_name },
+  created_at: user.created_at
+});
+
+const requireLocalAuth = () => {
+  if (!localAuthEnabled()) throw new AuthError('Local authentication is disabled (AUTH_MODE=supabase)', 404);
+};
+
+const startSession = async (user: LocalUser, userAgent?: string): Promise<TokenPair> => {
+  const sessionId = crypto.randomUUID();
+  await insertSession(sessionId, user.id, new Date(Date.now() + REFRESH_TOKEN_TTL_SECONDS * 1000), userAgent);
+  return issueTokens(user, sessionId);
+};
+
+export const signUp = async (
+  input: { email: unknown; password: unknown; fullName?: unknown },
+  userAgent?: string
+) => {
+  requireLocalAuth();
+  const email = normalizeEmail(input.email);
+  const password = validatePassword(input.password);
+  const fullName = typeof input.fullName === 'string' && input.fullName.trim()
+    ? input.fullName.trim().slice(0, MAX_NAME_LENGTH)
+    : null;
+
+  let user: LocalUser;
+  try {
+    user = await insertUser(email, await hashPassword(password), fullName);
+  } catch (error) {
+    if ((error as { code?: string }).code === UNIQUE_VIOLATION) {
+      throw new AuthError('An account with this email already exists', 409);
+    }
+    throw error;
+  }
+
+  await sendVerification(user);
+  // Without verification anyone could register an address they don't own
+  if (emailVerificationRequired()) return { user: toRequestUser(user), session: null };
+  return { user: toRequestUser(user), session: await startSession(user, userAgent) };
+};
+
+export const signIn = async (input: { email: unknown; password: unknown }, userAgent?: string) => {
+  requireLocalAuth();
+  const email = typeof input.email === 'string' ? input.email.trim().toLowerCase() : '';
+  const password = typeof input.password === 'string' ? input.password : '';
+
+  const user = email ? await findUserByEmail(email) : null;
+  // Compared even for unknown emails so both failures take the same time
+  if (!await verifyPassword(password, user?.password_hash || null) || !user) {
+    throw new AuthError('Invalid email or password');
+  }
+  if (emailVerificationRequired() && !user.email_verified_at) {
+    throw new AuthError('Verify your email address before signing in', 403);
+  }
+
+  return { user: toRequestUser(user), session: await startSession(user, userAgent) };
+};
+
+// Exchanges a refresh token for a new pair. The old refresh token is spent; presenting it
+// again revokes the session, since only a copied token would be used twice.
+export const refreshSession = async (refreshToken: unknown) => {
+  requireLocalAuth();
+  if (typeof refreshToken !== 'string' || !refreshToken) throw new AuthError('refreshToken is required', 400);
+
+  const payload = verifyLocalToken(refreshToken, 'refresh');
+  const result = await consumeRefreshToken(payload.jti, payload.sid);
+  if (result === 'reused') {
+    await revokeSession(payload.sid);
+    throw new AuthError('Refresh token already used; the session has been revoked');
+  }
+  if (result === 'invalid') throw new AuthError('Invalid token');
+
+  const user = await findSessionUser(payload.sid, payload.sub);
+  if (!user) throw new AuthError('Session expired or revoked');
+
+  return { user: toRequestUser(user), session: await issueTokens(user, payload.sid) };
+};
+
+// Revokes the session behind the token (access or refresh), or every session of the user
+export const signOut = async (token: string, options: { allSessions?: boolean; type?: 'access' | 'refresh' } = {}) => {
+  requireLocalAuth();
+  const payload = verifyLocalToken(token, options.type || 'access');
+  if (options.allSessions) {
+    await revokeUserSessions(payload.sub);
+  } else {
+    await revokeSession(payload.sid);
+  }
+};
+
+// Verifies a locally issued access token and returns the user for req.user
+export const authenticateLocalToken = async (token: string) => {
+  const payload = verifyLocalToken(token, 'access');
+  const user = await findSessionUser(payload.sid, payload.sub);
+  if (!user) throw new AuthError('Session expired or revoked');
+  return toRequestUser(user);
+};
+
+// Where each kind of token points users, with the token appended
+const TOKEN_LINKS = { password_reset: 'PASSWORD_RESET_URL', email_verification: 'EMAIL_VERIFICATION_URL' } as const;
+
+// Tokens go to AUTH_RESET_WEBHOOK_URL (e.g. a mail relay); without one they are only logged
+// outside production so they can be used during development
+const deliverToken = async (type: keyof typeof TOKEN_LINKS, email: string, token: string, expiresAt: Date) => {
+  const base = process.env[TOKEN_LINKS[type]];
+  const link = base ? `${base}${base.includes('?') ? '&' : '?'}token=${encodeURIComponent(token)}` : undefined;
+  const webhookUrl = process.env.AUTH_RESET_WEBHOOK_URL;
+
+  if (webhookUrl) {
+    const body = JSON.stringify({
+      type,
+      email,
+      token,
+      [type === 'password_reset' ? 'resetUrl' : 'verifyUrl']: link,
+      expiresAt: expiresAt.toISOString()
+    });
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    const secret = process.env.AUTH_RESET_WEBHOOK_SECRET;
+    if (secret) headers['X-Signature'] = `sha256=${crypto.createHmac('sha256', secret).update(body).digest('hex')}`;
+    await fetchText('webhook', webhookUrl, { method: 'POST', headers, body }, { upstream: 'webhook:auth', label: 'Auth webhook' });
+    return;
+  }
+
+  if (process.env.NODE_ENV === 'production') {
+    logger.warn(`A ${type} token was not delivered because AUTH_RESET_WEBHOOK_URL is not set`);
+  } else {
+    logger.info(`${type === 'password_reset' ? 'Password reset' : 'Email verification'} for ${email}: ${link || token}`);
+  }
+};
+
+// Verification tokens are created like reset tokens: random, stored only as a hash, single use
+const sendVerification = async (user: LocalUser) => {
+  const { token, tokenHash } = createResetToken();
+  const expiresAt = new Date(Date.now() + EMAIL_VERIFICATION_TTL_SECONDS * 1000);
+  await insertVerificationToken(tokenHash, user.id, expiresAt);
+  try {
+    await deliverToken('email_verification', user.email, token, expiresAt);
+  } catch (error) {
+    logger.error('Email verification delivery error', error);
+  }
+};
+
+export const verifyEmail = async (token: unknown) => {
+  requireLocalAuth();
+  if (typeof token !== 'string' || !token) throw new AuthError('token is required', 400);
+  const user = await consumeVerificationToken(hashResetToken(token));
+  if (!user) throw new AuthError('Verification token is invalid or expired', 400);
+  return { user: toRequestUser(user) };
+};
+
+// Always succeeds, whether or not the email has an unverified account
+export const resendVerification = async (emailInput: unknown) => {
+  requireLocalAuth();
+  const user = await findUserByEmail(normalizeEmail(emailInput));
+  if (!user || user.email_verified_at) return;
+  await sendVerification(user);
+};
+
+// Always succeeds, whether or not the email has an account
+export const requestPasswordReset = async (emailInput: unknown) => {
+  requireLocalAuth();
+  const email = normalizeEmail(emailInput);
+  const user = await findUserByEmail(email);
+  if (!user) return;
+
+  const { token, tokenHash } = createResetToken();
+  const expiresAt = new Date(Date.now() + PASSWORD_RESET_TTL_SECONDS * 1000);
+  await insertResetToken(tokenHash, user.id, expiresAt);
+  try {
+    await deliverToken('password_reset', user.email, token, expiresAt);
+  } catch (error) {
+    logger.error('Password reset delivery error', error);
+  }
+};
+
+// Sets the new password and signs the user out everywhere
+export const resetPassword = async (token: unknown, password: unknown) => {
+  requireLocalAuth();
+  if (typeof token !== 'string' || !token) throw new AuthError('token is required', 400);
+  const newPassword = validatePassword(password);
+
+  const userId = await consumeResetToken(hashResetToken(token));
+  if (!userId) throw new AuthError('Reset token is invalid or expired', 400);
+
+  await updatePasswordHash(userId, await hashPassword(newPassword));
+  await revokeUserSessions(userId);
+};
+
+// Looks a user up by id in whichever user stores AUTH_MODE enables, e.g. for API keys
+export const findRequestUser = async (id: string) => {
+  if (localAuthEnabled()) {
+    const user = await findUserById(id);
+    if (user) return toRequestUser(user);
+  }
+  if (!supabaseAuthEnabled()) return null;
+
+  const { data, error } = await getSupabase().auth.admin.getUserById(id);
+  return !error && data?.user ? data.user : null;
+};
+
+export const userExists = async (id: string): Promise<boolean> => Boolean(await findRequestUser(id));
@@ -0,0 +1,32 @@
+import bcrypt from 'bcrypt';
+import { BCRYPT_ROUNDS } from './config';
+import { AuthError } from './errors';
+
+const MIN_PASSWORD_LENGTH = 8;
+// bcrypt ignores everything past 72 bytes
+const MAX_PASSWORD_BYTES = 72;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// A valid hash to compare against when the email is unknown, so response times don't reveal accounts
+const DUMMY_HASH = bcrypt.hashSync('not-a-real-password', 4);
+
+export const normalizeEmail = (value: unknown): string => {
+  const email = typeof value === 'string' ? value.trim().toLowerCase() : '';
+  if (!EMAIL_PATTERN.test(email) || email.length > 255) throw new AuthError('A valid email is required', 400);
+  return email;
+};
+
+export const validatePassword = (value: unknown): string => {
+  if (typeof value !== 'string' || value.length < MIN_PASSWORD_LENGTH) {
+    throw new AuthError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`, 400);
+  }
+  if (Buffer.byteLength(value, 'utf8') > MAX_PASSWORD_BYTES) {
+    throw new AuthError(`Password must be at most ${MAX_PASSWORD_BYTES} bytes`, 400);
+  }
+  return value;
+};
+
+export const hashPassword = (password: string) => bcrypt.hash(password, BCRYPT_ROUNDS);
+
+export const verifyPassword = (password: string, hash: string | null) =>
+  bcrypt.compare(password, hash || DUMMY_HASH).then(match => match && Boolean(hash));
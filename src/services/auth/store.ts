@@ -0,0 +1,134 @@
+import { getPool } from '../db';
+
+export interface LocalUser {
+  id: string;
+  email: string;
+  password_hash: string;
+  full_name: string | null;
+  plan: string | null;
+  email_verified_at: string | null;
+  created_at: string;
+}
+
+// The tables are created by db/migrations/0001_users.sql and 0007_email_verification.sql
+// (npm run migrate, or on start-up)
+const USER_COLUMNS = 'id::text AS id, email, password_hash, full_name, plan, email_verified_at, created_at';
+
+// Postgres unique_violation
+export const UNIQUE_VIOLATION = '23505';
+
+export const findUserByEmail = async (email: string): Promise<LocalUser | null> => {
+  const { rows } = await getPool().query(`SELECT ${USER_COLUMNS} FROM users WHERE email = $1`, [email]);
+  return rows[0] || null;
+};
+
+export const findUserById = async (id: string): Promise<LocalUser | null> => {
+  // Local ids are integers; anything else (e.g. a Supabase UUID) can't match
+  if (!/^\d+$/.test(id)) return null;
+  const { rows } = await getPool().query(`SELECT ${USER_COLUMNS} FROM users WHERE id = $1`, [id]);
+  return rows[0] || null;
+};
+
+export const insertUser = async (email: string, passwordHash: string, fullName: string | null): Promise<LocalUser> => {
+  const { rows } = await getPool().query(
+    `INSERT INTO users (email, password_hash, full_name) VALUES ($1, $2, $3) RETURNING ${USER_COLUMNS}`,
+    [email, passwordHash, fullName]
+  );
+  return rows[0];
+};
+
+export const updatePasswordHash = async (userId: string, passwordHash: string) => {
+  await getPool().query('UPDATE users SET password_hash = $2 WHERE id = $1', [userId, passwordHash]);
+};
+
+export const insertSession = async (id: string, userId: string, expiresAt: Date, userAgent?: string) => {
+  await getPool().query(
+    'INSERT INTO auth_sessions (id, user_id, expires_at, user_agent) VALUES ($1, $2, $3, $4)',
+    [id, userId, expiresAt, userAgent || null]
+  );
+};
+
+// The session's user, or null when the session was revoked, expired or belongs to someone else
+export const findSessionUser = async (sessionId: string, userId: string): Promise<LocalUser | null> => {
+  const { rows } = await getPool().query(
+    `SELECT u.id::text AS id, u.email, u.password_hash, u.full_name, u.plan, u.email_verified_at, u.created_at
+     FROM auth_sessions s JOIN users u ON u.id = s.user_id
+     WHERE s.id = $1 AND s.user_id::text = $2 AND s.revoked_at IS NULL AND s.expires_at > NOW()`,
+    [sessionId, userId]
+  );
+  return rows[0] || null;
+};
+
+export const revokeSession = async (sessionId: string) => {
+  await getPool().query('UPDATE auth_sessions SET revoked_at = NOW() WHERE id = $1 AND revoked_at IS NULL', [sessionId]);
+};
+
+export const revokeUserSessions = async (userId: string) => {
+  await getPool().query('UPDATE auth_sessions SET revoked_at = NOW() WHERE user_id = $1 AND revoked_at IS NULL', [userId]);
+};
+
+export const insertRefreshToken = async (id: string, sessionId: string, expiresAt: Date) => {
+  await getPool().query(
+    'INSERT INTO refresh_tokens (id, session_id, expires_at) VALUES ($1, $2, $3)',
+    [id, sessionId, expiresAt]
+  );
+};
+
+// Marks the refresh token used. 'reused' means it was already exchanged once, which
+// only happens when it leaked, so the caller revokes the whole session.
+export const consumeRefreshToken = async (id: string, sessionId: string): Promise<'ok' | 'reused' | 'invalid'> => {
+  const { rows } = await getPool().query(
+    `UPDATE refresh_tokens SET used_at = NOW()
+     WHERE id = $1 AND session_id = $2 AND used_at IS NULL AND expires_at > NOW()
+     RETURNING id`,
+    [id, sessionId]
+  );
+  if (rows.length > 0) return 'ok';
+
+  const { rows: existing } = await getPool().query(
+    'SELECT used_at FROM refresh_tokens WHERE id = $1 AND session_id = $2',
+    [id, sessionId]
+  );
+  return existing[0]?.used_at ? 'reused' : 'invalid';
+};
+
+export const insertResetToken = async (tokenHash: string, userId: string, expiresAt: Date) => {
+  await getPool().query(
+    'INSERT INTO password_reset_tokens (token_hash, user_id, expires_at) VALUES ($1, $2, $3)',
+    [tokenHash, userId, expiresAt]
+  );
+};
+
+// Single use: returns the user id once, then the token is spent
+export const consumeResetToken = async (tokenHash: string): Promise<string | null> => {
+  const { rows } = await getPool().query(
+    `UPDATE password_reset_tokens SET used_at = NOW()
+     WHERE token_hash = $1 AND used_at IS NULL AND expires_at > NOW()
+     RETURNING user_id::text AS user_id`,
+    [tokenHash]
+  );
+  return rows[0]?.user_id || null;
+};
+
+export const insertVerificationToken = async (tokenHash: string, userId: string, expiresAt: Date) => {
+  await getPool().query(
+    'INSERT INTO email_verification_tokens (token_hash, user_id, expires_at) VALUES ($1, $2, $3)',
+    [tokenHash, userId, expiresAt]
+  );
+};
+
+// Single use: marks the owner's email verified and returns them, then the token is spent
+export const consumeVerificationToken = async (tokenHash: string): Promise<LocalUser | null> => {
+  const { rows } = await getPool().query(
+    `WITH token AS (
+       UPDATE email_verification_tokens SET used_at = NOW()
+       WHERE token_hash = $1 AND used_at IS NULL AND expires_at > NOW()
+       RETURNING user_id
+     )
+     UPDATE users SET email_verified_at = COALESCE(email_verified_at, NOW())
+     WHERE id = (SELECT user_id FROM token)
+     RETURNING ${USER_COLUMNS}`,
+    [tokenHash]
+  );
+  return rows[0] || null;
+};
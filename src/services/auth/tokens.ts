@@ -0,0 +1,68 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { ACCESS_TOKEN_TTL_SECONDS, getJwtSecret, JWT_ISSUER, REFRESH_TOKEN_TTL_SECONDS } from './config';
+import { AuthError } from './errors';
+import { insertRefreshToken, LocalUser } from './store';
+
+export type TokenType = 'access' | 'refresh';
+
+export interface LocalTokenPayload {
+  sub: string;
+  // Session the token belongs to; revoking the session invalidates its access tokens too
+  sid: string;
+  typ: TokenType;
+  jti: string;
+  email?: string;
+}
+
+export interface TokenPair {
+  accessToken: string;
+  refreshToken: string;
+  tokenType: 'Bearer';
+  expiresIn: number;
+  refreshExpiresIn: number;
+}
+
+const sign = (payload: Omit<LocalTokenPayload, 'jti'>, jti: string, expiresIn: number) =>
+  jwt.sign(payload, getJwtSecret(), { algorithm: 'HS256', issuer: JWT_ISSUER, jwtid: jti, expiresIn });
+
+// Access tokens are short-lived; each refresh token can be exchanged exactly once
+export const issueTokens = async (user: LocalUser, sessionId: string): Promise<TokenPair> => {
+  const refreshId = crypto.randomUUID();
+  await insertRefreshToken(refreshId, sessionId, new Date(Date.now() + REFRESH_TOKEN_TTL_SECONDS * 1000));
+
+  return {
+    accessToken: sign({ sub: user.id, sid: sessionId, typ: 'access', email: user.email }, crypto.randomUUID(), ACCESS_TOKEN_TTL_SECONDS),
+    refreshToken: sign({ sub: user.id, sid: sessionId, typ: 'refresh' }, refreshId, REFRESH_TOKEN_TTL_SECONDS),
+    tokenType: 'Bearer',
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+    refreshExpiresIn: REFRESH_TOKEN_TTL_SECONDS
+  };
+};
+
+export const verifyLocalToken = (token: string, type: TokenType): LocalTokenPayload => {
+  let payload: jwt.JwtPayload | string;
+  try {
+    payload = jwt.verify(token, getJwtSecret(), { algorithms: ['HS256'], issuer: JWT_ISSUER });
+  } catch (error) {
+    throw new AuthError(error instanceof jwt.TokenExpiredError ? 'Token expired' : 'Invalid token');
+  }
+  if (typeof payload === 'string' || payload.typ !== type || !payload.sub || !payload.sid || !payload.jti) {
+    throw new AuthError('Invalid token');
+  }
+  return payload as LocalTokenPayload;
+};
+
+// Without verifying: whether the token claims to come from this backend (for AUTH_MODE=both)
+export const isLocalToken = (token: string) => {
+  const decoded = jwt.decode(token);
+  return Boolean(decoded) && typeof decoded === 'object' && decoded!.iss === JWT_ISSUER;
+};
+
+// Reset tokens are random and only their hash is stored
+export const createResetToken = () => {
+  const token = crypto.randomBytes(32).toString('base64url');
+  return { token, tokenHash: hashResetToken(token) };
+};
+
+export const hashResetToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
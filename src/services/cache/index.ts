@@ -0,0 +1,93 @@
+import crypto from 'crypto';
+import { AsyncLocalStorage } from 'async_hooks';
+import { createMemoryCache } from './memory';
+import { createPostgresCache } from './postgres';
+import { CacheNamespace, CacheStats, CacheStore } from './types';
+import { logger } from '../observability';
+
+export type { CacheNamespace, CacheStats, CacheStore } from './types';
+
+export const CACHE_NAMESPACES: CacheNamespace[] = ['papers', 'llm', 'summary', 'analysis'];
+
+const seconds = (name: string, fallback: number) => {
+  const value = Number(process.env[name]);
+  return (Number.isFinite(value) && process.env[name] !== '' && process.env[name] !== undefined ? value : fallback) * 1000;
+};
+
+// CACHE_TTL_<NAMESPACE>_SECONDS; 0 disables that namespace
+const TTL_MS: Record<CacheNamespace, number> = {
+  papers: seconds('CACHE_TTL_PAPERS_SECONDS', 60 * 60),
+  llm: seconds('CACHE_TTL_LLM_SECONDS', 24 * 60 * 60),
+  summary: seconds('CACHE_TTL_SUMMARY_SECONDS', 7 * 24 * 60 * 60),
+  analysis: seconds('CACHE_TTL_ANALYSIS_SECONDS', 7 * 24 * 60 * 60)
+};
+
+let store: CacheStore | null = null;
+
+const getStore = (): CacheStore | null => {
+  if (process.env.CACHE_BACKEND === 'none') return null;
+  if (!store) {
+    store = process.env.CACHE_BACKEND === 'postgres'
+      ? createPostgresCache()
+      : createMemoryCache(parseInt(process.env.CACHE_MAX_ENTRIES || '1000', 10) || 1000);
+  }
+  return store;
+};
+
+export const hashKey = (parts: unknown) =>
+  crypto.createHash('sha256').update(JSON.stringify(parts)).digest('hex');
+
+// Per-request hit/miss counters, collected without threading them through every call
+const statsStorage = new AsyncLocalStorage<Partial<Record<CacheNamespace, CacheStats>>>();
+
+const record = (namespace: CacheNamespace, hit: boolean) => {
+  const stats = statsStorage.getStore();
+  if (!stats) return;
+  const entry = stats[namespace] || (stats[namespace] = { hits: 0, misses: 0 });
+  if (hit) entry.hits++;
+  else entry.misses++;
+};
+
+export const collectCacheStats = async <T>(fn: () => Promise<T>): Promise<{ result: T; cache: Partial<Record<CacheNamespace, CacheStats>> }> => {
+  const cache: Partial<Record<CacheNamespace, CacheStats>> = {};
+  const result = await statsStorage.run(cache, fn);
+  return { result, cache };
+};
+
+// Read-through cache; cache failures are logged and never fail the request
+export const cached = async <T>(
+  namespace: CacheNamespace,
+  keyParts: unknown,
+  compute: () => Promise<T>,
+  options: { onHit?: (value: T) => void; shouldCache?: (value: T) => boolean } = {}
+): Promise<T> => {
+  const cacheStore = getStore();
+  const ttlMs = TTL_MS[namespace];
+  if (!cacheStore || ttlMs <= 0) return compute();
+
+  const key = `${namespace}:${hashKey(keyParts)}`;
+
+  try {
+    const hit = await cacheStore.get(key);
+    if (hit !== undefined) {
+      record(namespace, true);
+      options.onHit?.(hit as T);
+      return hit as T;
+    }
+  } catch (error) {
+    logger.error('Cache read error', error);
+  }
+
+  record(namespace, false);
+  const value = await compute();
+  if (!options.shouldCache || options.shouldCache(value)) {
+    cacheStore.set(key, value, ttlMs).catch(error => logger.error('Cache write error', error));
+  }
+  return value;
+};
+
+export const purgeCache = async (namespace?: CacheNamespace): Promise<number> => {
+  const cacheStore = getStore();
+  if (!cacheStore) return 0;
+  return cacheStore.purge(namespace ? `${namespace}:` : undefined);
+};
@@ -0,0 +1,49 @@
+import { CacheStore } from './types';
+
+interface Entry {
+  // Serialized so callers can't mutate cached values, matching the Postgres store
+  value: string;
+  expiresAt: number;
+}
+
+// Least-recently-used eviction using Map insertion order
+export const createMemoryCache = (maxEntries: number): CacheStore => {
+  const entries = new Map<string, Entry>();
+
+  return {
+    name: 'memory',
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      if (entry.expiresAt <= Date.now()) {
+        entries.delete(key);
+        return undefined;
+      }
+      entries.delete(key);
+      entries.set(key, entry);
+      return JSON.parse(entry.value);
+    },
+    async set(key, value, ttlMs) {
+      entries.delete(key);
+      entries.set(key, { value: JSON.stringify(value), expiresAt: Date.now() + ttlMs });
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value as string);
+      }
+    },
+    async purge(prefix) {
+      if (!prefix) {
+        const count = entries.size;
+        entries.clear();
+        return count;
+      }
+      let count = 0;
+      for (const key of Array.from(entries.keys())) {
+        if (key.startsWith(prefix)) {
+          entries.delete(key);
+          count++;
+        }
+      }
+      return count;
+    }
+  };
+};
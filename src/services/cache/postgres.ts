@@ -0,0 +1,33 @@
+import { getPool } from '../db';
+import { CacheStore } from './types';
+
+// The table comes from db/migrations/0008_cache_entries.sql
+export const createPostgresCache = (): CacheStore => {
+  return {
+    name: 'postgres',
+    async get(key) {
+      const { rows } = await getPool().query(
+        'SELECT value FROM cache_entries WHERE key = $1 AND expires_at > NOW()',
+        [key]
+      );
+      return rows.length > 0 ? rows[0].value : undefined;
+    },
+    async set(key, value, ttlMs) {
+      await getPool().query(
+        `INSERT INTO cache_entries (key, value, expires_at)
+         VALUES ($1, $2, NOW() + ($3 || ' milliseconds')::interval)
+         ON CONFLICT (key) DO UPDATE SET value = EXCLUDED.value, expires_at = EXCLUDED.expires_at`,
+        [key, JSON.stringify(value), String(ttlMs)]
+      );
+    },
+    async purge(prefix) {
+      const result = prefix
+        ? await getPool().query(
+          "DELETE FROM cache_entries WHERE key LIKE $1 ESCAPE '\\'",
+          [`${prefix.replace(/[\\%_]/g, '\\$&')}%`]
+        )
+        : await getPool().query('DELETE FROM cache_entries');
+      return result.rowCount || 0;
+    }
+  };
+};
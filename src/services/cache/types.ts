@@ -0,0 +1,15 @@
+export type CacheNamespace = 'papers' | 'llm' | 'summary' | 'analysis';
+
+export interface CacheStore {
+  name: string;
+  // Resolves to undefined on a miss or an expired entry
+  get(key: string): Promise<unknown | undefined>;
+  set(key: string, value: unknown, ttlMs: number): Promise<void>;
+  // Removes every key starting with the prefix (everything when omitted); resolves to the count removed
+  purge(prefix?: string): Promise<number>;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+}
@@ -0,0 +1,6 @@
+export class ReportNotFoundError extends Error {
+  constructor() {
+    super('Report not found');
+    this.name = 'ReportNotFoundError';
+  }
+}
@@ -0,0 +1,71 @@
+import { complete } from '../llm';
+import { toCitablePaper } from '../citations';
+import { sanitizeMarkdown } from '../safety';
+import { buildChatMessages } from './prompt';
+import { clearMessages, insertMessages, listMessages, loadChatReport } from './store';
+import { ReportNotFoundError } from './errors';
+import { ChatCitation, ReportChatMessage } from './types';
+
+export { loadChatReport, listMessages, clearMessages } from './store';
+export { ReportNotFoundError } from './errors';
+export type { ChatCitation, ChatReport, ReportChatMessage } from './types';
+
+// Earlier turns sent back to the model with each question
+const HISTORY_TURNS = 10;
+const MARKER = /\[(\d+(?:\s*[-–,;]\s*\d+)*)\]/g;
+
+const expandMarker = (body: string): number[] =>
+  body.split(/\s*[,;]\s*/).flatMap(part => {
+    const [start, end] = part.split(/\s*[-–]\s*/).map(Number);
+    if (end === undefined || end < start || end - start > 50) return [start, end].filter(n => n !== undefined);
+    return Array.from({ length: end - start + 1 }, (_, i) => start + i);
+  });
+
+// Keeps markers that point at a stored paper and lists those papers
+const resolveCitations = (answer: string, papers: { title: string; link: string }[]) => {
+  const cited = new Set<number>();
+  const text = answer.replace(MARKER, (_marker, inner: string) => {
+    const valid = Array.from(new Set(expandMarker(inner).filter(n => n >= 1 && n <= papers.length)));
+    valid.forEach(n => cited.add(n));
+    return valid.length > 0 ? `[${valid.join(', ')}]` : '';
+  }).replace(/[ \t]+([.,;:])/g, '$1');
+
+  const citations: ChatCitation[] = Array.from(cited).sort((a, b) => a - b).map(number => ({
+    number,
+    title: papers[number - 1].title,
+    link: papers[number - 1].link
+  }));
+  return { text, citations };
+};
+
+export const askAboutReport = async (
+  reportId: string,
+  userId: string,
+  question: string,
+  signal?: AbortSignal
+): Promise<{ question: ReportChatMessage; answer: ReportChatMessage }> => {
+  const report = await loadChatReport(reportId, userId);
+  if (!report) throw new ReportNotFoundError();
+
+  const papers = (report.papers || []).map(paper => ({ ...toCitablePaper(paper), analysis: paper?.analysis }));
+  const history = await listMessages(reportId, userId, HISTORY_TURNS * 2);
+
+  const { content } = await complete('reportChat',
+    buildChatMessages(report.title, report.content || '', papers, history, question),
+    { signal, cache: false }
+  );
+  if (!content) throw new Error('No answer generated');
+
+  // Markers are checked on the model's text: sanitizing escapes their brackets
+  const resolved = resolveCitations(content, papers);
+  const text = sanitizeMarkdown(resolved.text);
+  const { citations } = resolved;
+  // Explicit timestamps keep the pair in order when both rows are inserted together
+  const askedAt = Date.now();
+  const [saved, reply] = await insertMessages([
+    { report_id: reportId, user_id: userId, role: 'user', content: question, created_at: new Date(askedAt).toISOString() },
+    { report_id: reportId, user_id: userId, role: 'assistant', content: text, citations, created_at: new Date(askedAt + 1).toISOString() }
+  ]);
+
+  return { question: saved, answer: reply };
+};
@@ -0,0 +1,53 @@
+import { getPool } from '../db';
+import { ChatStore, ReportChatMessage } from './types';
+
+// Anything else is not a valid uuid and would make Postgres raise instead of finding nothing
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Same JSON shape as PostgREST returns
+const toMessage = (row: any): ReportChatMessage => ({
+  ...row,
+  created_at: row.created_at instanceof Date ? row.created_at.toISOString() : row.created_at
+});
+
+// The table is created by db/migrations/0006_report_messages.sql
+export const createPostgresChatStore = (): ChatStore => ({
+  name: 'postgres',
+  async listMessages(reportId, userId, limit) {
+    if (!UUID_PATTERN.test(reportId)) return [];
+    const { rows } = await getPool().query(
+      `SELECT * FROM report_messages WHERE report_id = $1 AND user_id = $2
+       ORDER BY created_at DESC ${limit ? 'LIMIT $3' : ''}`,
+      limit ? [reportId, userId, limit] : [reportId, userId]
+    );
+    return rows.map(toMessage).reverse();
+  },
+  async insertMessages(messages) {
+    if (messages.length === 0) return [];
+    // One statement, so a question is never saved without its answer
+    const { rows } = await getPool().query(
+      `INSERT INTO report_messages (report_id, user_id, role, content, citations, created_at)
+       SELECT report_id, user_id, role, content, citations, COALESCE(created_at, CURRENT_TIMESTAMP)
+       FROM UNNEST($1::uuid[], $2::text[], $3::text[], $4::text[], $5::jsonb[], $6::timestamptz[])
+         AS m (report_id, user_id, role, content, citations, created_at)
+       RETURNING *`,
+      [
+        messages.map(message => message.report_id),
+        messages.map(message => message.user_id),
+        messages.map(message => message.role),
+        messages.map(message => message.content),
+        messages.map(message => message.citations === undefined ? null : JSON.stringify(message.citations)),
+        messages.map(message => message.created_at || null)
+      ]
+    );
+    return rows.map(toMessage);
+  },
+  async clearMessages(reportId, userId) {
+    if (!UUID_PATTERN.test(reportId)) return 0;
+    const { rowCount } = await getPool().query(
+      'DELETE FROM report_messages WHERE report_id = $1 AND user_id = $2',
+      [reportId, userId]
+    );
+    return rowCount ?? 0;
+  }
+});
@@ -0,0 +1,43 @@
+import { formatPaperMetadata, Paper } from '../papers';
+import { ChatMessage } from '../llm';
+import { untrusted } from '../safety';
+import { ReportChatMessage } from './types';
+
+const MAX_REPORT_CHARS = 12000;
+const MAX_ABSTRACT_CHARS = 1500;
+
+type ChatPaper = Paper & { analysis?: string };
+
+const formatPaper = (paper: ChatPaper, index: number) =>
+  `[${index + 1}] ${untrusted('paper', [
+    paper.title,
+    `Authors: ${paper.authors.join(', ') || 'unknown'}`,
+    formatPaperMetadata(paper),
+    paper.abstract ? `Abstract: ${paper.abstract.slice(0, MAX_ABSTRACT_CHARS)}` : '',
+    paper.analysis ? `Analysis: ${paper.analysis}` : ''
+  ].filter(Boolean).join('\n'))}`;
+
+export const buildChatMessages = (
+  title: string,
+  content: string,
+  papers: ChatPaper[],
+  history: ReportChatMessage[],
+  question: string
+): ChatMessage[] => [
+  {
+    role: 'system',
+    content: `You answer follow-up questions about the research report titled:
+${untrusted('title', title)}
+Answer only from the report and the numbered papers below. If they don't contain the answer, say so
+instead of guessing. Cite the papers each statement comes from by their bracketed number, e.g. [2] or [1, 3].
+Never cite anything that is not in the list. Keep answers concise.
+
+Papers:
+${papers.map(formatPaper).join('\n\n') || 'No papers were stored with this report.'}
+
+Report:
+${untrusted('report', content.length > MAX_REPORT_CHARS ? `${content.slice(0, MAX_REPORT_CHARS)}\n[report truncated]` : content)}`
+  },
+  ...history.map(message => ({ role: message.role, content: message.content })),
+  { role: 'user', content: question }
+];
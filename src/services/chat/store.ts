@@ -0,0 +1,22 @@
+import { findAccessibleReport } from '../workspaces';
+import { createPostgresChatStore } from './postgres';
+import { createSupabaseChatStore } from './supabase';
+import { ChatReport, ChatStore } from './types';
+
+// Viewers of a workspace report can chat about it; each member has their own conversation
+export const loadChatReport = (reportId: string, userId: string): Promise<ChatReport | null> =>
+  findAccessibleReport(reportId, userId, 'viewer');
+
+let store: ChatStore | null = null;
+
+// Messages belong to a report, so REPORTS_BACKEND picks their storage too
+export const getChatStore = (): ChatStore => {
+  if (!store) {
+    store = process.env.REPORTS_BACKEND === 'postgres' ? createPostgresChatStore() : createSupabaseChatStore();
+  }
+  return store;
+};
+
+export const listMessages: ChatStore['listMessages'] = (...args) => getChatStore().listMessages(...args);
+export const insertMessages: ChatStore['insertMessages'] = (...args) => getChatStore().insertMessages(...args);
+export const clearMessages: ChatStore['clearMessages'] = (...args) => getChatStore().clearMessages(...args);
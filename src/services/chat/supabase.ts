@@ -0,0 +1,40 @@
+import { supabase } from '../supabase';
+import { ChatStore, ReportChatMessage } from './types';
+
+export const createSupabaseChatStore = (): ChatStore => ({
+  name: 'supabase',
+  async listMessages(reportId, userId, limit) {
+    let query = supabase
+      .from('report_messages')
+      .select()
+      .eq('report_id', reportId)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+    if (limit) query = query.limit(limit);
+
+    const { data, error } = await query;
+    if (error) throw new Error(`Failed to load conversation: ${error.message}`);
+    // Newest first from the query so the limit keeps the latest turns; callers want oldest first
+    return ((data || []) as ReportChatMessage[]).reverse();
+  },
+  async insertMessages(messages) {
+    const { data, error } = await supabase
+      .from('report_messages')
+      .insert(messages)
+      .select();
+
+    if (error) throw new Error(`Failed to save conversation: ${error.message}`);
+    return (data || []) as ReportChatMessage[];
+  },
+  async clearMessages(reportId, userId) {
+    const { data, error } = await supabase
+      .from('report_messages')
+      .delete()
+      .eq('report_id', reportId)
+      .eq('user_id', userId)
+      .select('id');
+
+    if (error) throw new Error(`Failed to clear conversation: ${error.message}`);
+    return (data || []).length;
+  }
+});
@@ -0,0 +1,34 @@
+export type ChatRole = 'user' | 'assistant';
+
+export interface ChatCitation {
+  number: number;
+  title: string;
+  link: string;
+}
+
+export interface ReportChatMessage {
+  id?: string;
+  report_id: string;
+  user_id: string;
+  role: ChatRole;
+  content: string;
+  citations?: ChatCitation[];
+  created_at?: string;
+}
+
+// The parts of a `reports` row the chat reads
+export interface ChatReport {
+  id: string;
+  title: string;
+  content: string | null;
+  papers: any[] | null;
+}
+
+// Rows come back in the JSON shape PostgREST returns, whichever backend stores them
+export interface ChatStore {
+  name: string;
+  // Oldest first; with a limit, the latest `limit` messages
+  listMessages(reportId: string, userId: string, limit?: number): Promise<ReportChatMessage[]>;
+  insertMessages(messages: ReportChatMessage[]): Promise<ReportChatMessage[]>;
+  clearMessages(reportId: string, userId: string): Promise<number>;
+}
@@ -0,0 +1,97 @@
+import { Paper } from '../papers';
+import { isPreprint, paperNames, paperUrl } from './names';
+
+export type CitationFormat = 'bibtex' | 'ris' | 'csl-json';
+
+export const CITATION_FORMATS: CitationFormat[] = ['bibtex', 'ris', 'csl-json'];
+
+export const CITATION_CONTENT_TYPES: Record<CitationFormat, { contentType: string; extension: string }> = {
+  bibtex: { contentType: 'application/x-bibtex', extension: 'bib' },
+  ris: { contentType: 'application/x-research-info-systems', extension: 'ris' },
+  'csl-json': { contentType: 'application/vnd.citationstyles.csl+json', extension: 'json' }
+};
+
+const escapeLatex = (value: string) =>
+  value
+    .replace(/\\/g, '\\textbackslash{}')
+    .replace(/([&%$#_{}])/g, '\\$1')
+    .replace(/~/g, '\\textasciitilde{}')
+    .replace(/\^/g, '\\textasciicircum{}');
+
+const bibtexEntry = (paper: Paper, key: string): string => {
+  const preprint = isPreprint(paper);
+  const fields: [string, string | undefined][] = [
+    // Double braces keep BibTeX from lowercasing acronyms
+    ['title', `{${escapeLatex(paper.title)}}`],
+    ['author', paperNames(paper).map(n => escapeLatex(n.given ? `${n.family}, ${n.given}` : n.family)).join(' and ')],
+    ['year', paper.year ? String(paper.year) : undefined],
+    ['journal', !preprint ? escapeLatex(paper.journalRef || paper.venue || '') || undefined : undefined],
+    ['doi', paper.doi],
+    ['eprint', paper.arxivId],
+    ['archivePrefix', paper.arxivId ? 'arXiv' : undefined],
+    ['primaryClass', paper.arxivId ? paper.primaryCategory : undefined],
+    ['pmid', paper.pmid],
+    ['url', paperUrl(paper) || undefined]
+  ];
+
+  const body = fields
+    .filter(([, value]) => value)
+    .map(([name, value]) => `  ${name} = {${value}}`)
+    .join(',\n');
+
+  return `@${preprint || !(paper.journalRef || paper.venue) ? 'misc' : 'article'}{${key},\n${body}\n}`;
+};
+
+const risEntry = (paper: Paper): string => {
+  const lines: [string, string | undefined][] = [
+    ['TY', isPreprint(paper) ? 'UNPB' : 'JOUR'],
+    ['TI', paper.title],
+    ...paperNames(paper).map((n): [string, string] => ['AU', n.given ? `${n.family}, ${n.given}` : n.family]),
+    ['PY', paper.year ? String(paper.year) : undefined],
+    ['DA', paper.publishedAt ? `${paper.publishedAt.slice(0, 10).replace(/-/g, '/')}/` : undefined],
+    ['JO', paper.journalRef || paper.venue],
+    ['AB', paper.abstract?.replace(/\s+/g, ' ') || undefined],
+    ['DO', paper.doi],
+    ['UR', paperUrl(paper) || undefined],
+    ['N1', paper.arxivId ? `arXiv:${paper.arxivId}${paper.primaryCategory ? ` [${paper.primaryCategory}]` : ''}` : undefined],
+    ['ER', '']
+  ];
+
+  return lines
+    .filter(([tag, value]) => tag === 'ER' || value)
+    .map(([tag, value]) => `${tag}  - ${value}`.trimEnd())
+    .join('\n');
+};
+
+export const toCslJson = (paper: Paper, key: string) => {
+  const dateParts = paper.publishedAt
+    ? paper.publishedAt.slice(0, 10).split('-').map(Number)
+    : paper.year ? [paper.year] : undefined;
+  const preprint = isPreprint(paper);
+
+  return {
+    id: key,
+    type: preprint ? 'article' : 'article-journal',
+    title: paper.title,
+    author: paperNames(paper).map(n => ({ family: n.family, given: n.given || undefined })),
+    issued: dateParts ? { 'date-parts': [dateParts] } : undefined,
+    'container-title': paper.journalRef || paper.venue,
+    publisher: preprint ? 'arXiv' : undefined,
+    number: paper.arxivId ? `arXiv:${paper.arxivId}` : undefined,
+    DOI: paper.doi,
+    PMID: paper.pmid,
+    URL: paperUrl(paper) || undefined,
+    abstract: paper.abstract || undefined
+  };
+};
+
+export const formatCitations = (papers: Paper[], keys: string[], format: CitationFormat): string => {
+  switch (format) {
+    case 'bibtex':
+      return papers.map((paper, i) => bibtexEntry(paper, keys[i])).join('\n\n') + '\n';
+    case 'ris':
+      return papers.map(risEntry).join('\n\n') + '\n';
+    case 'csl-json':
+      return JSON.stringify(papers.map((paper, i) => toCslJson(paper, keys[i])), null, 2);
+  }
+};
@@ -0,0 +1,6 @@
+export { citationKeys, baseCitationKey } from './keys';
+export { formatCitations, toCslJson, CITATION_FORMATS, CITATION_CONTENT_TYPES } from './formats';
+export type { CitationFormat } from './formats';
+export { formatReferences, formatReferenceSection, formatInlineCitation, REFERENCE_STYLES } from './styles';
+export type { ReferenceStyle } from './styles';
+export { toCitablePaper, parseName } from './names';
@@ -0,0 +1,29 @@
+import { Paper } from '../papers';
+import { paperNames } from './names';
+
+const STOP_WORDS = new Set(['a', 'an', 'the', 'on', 'of', 'in', 'for', 'and', 'to', 'with', 'towards', 'toward', 'via', 'from', 'is', 'are']);
+
+const ascii = (value: string) =>
+  value.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// lastname + year + first significant title word, e.g. vaswani2017attention
+export const baseCitationKey = (paper: Paper): string => {
+  const family = ascii(paperNames(paper)[0]?.family || '') || 'anon';
+  const word = paper.title.split(/\s+/).map(ascii).find(w => w && !STOP_WORDS.has(w)) || '';
+  return `${family}${paper.year || 'nd'}${word}`;
+};
+
+// Keys are unique within the list; collisions get a, b, c... suffixes in list order
+export const citationKeys = (papers: Paper[]): string[] => {
+  const bases = papers.map(baseCitationKey);
+  const totals = new Map<string, number>();
+  bases.forEach(base => totals.set(base, (totals.get(base) || 0) + 1));
+
+  const seen = new Map<string, number>();
+  return bases.map(base => {
+    if (totals.get(base) === 1) return base;
+    const index = seen.get(base) || 0;
+    seen.set(base, index + 1);
+    return `${base}${String.fromCharCode(97 + (index % 26))}${index >= 26 ? Math.floor(index / 26) : ''}`;
+  });
+};
@@ -0,0 +1,43 @@
+import { Paper } from '../papers';
+
+export interface PersonName {
+  family: string;
+  given: string;
+}
+
+// "Ada M. Lovelace" or "Lovelace, Ada M." -> { family: 'Lovelace', given: 'Ada M.' }
+export const parseName = (name: string): PersonName => {
+  const clean = name.replace(/\s+/g, ' ').trim();
+  if (clean.includes(',')) {
+    const [family, ...given] = clean.split(',');
+    return { family: family.trim(), given: given.join(',').trim() };
+  }
+  const parts = clean.split(' ');
+  if (parts.length === 1) return { family: parts[0], given: '' };
+  return { family: parts[parts.length - 1], given: parts.slice(0, -1).join(' ') };
+};
+
+// "Ada Maria" -> "A. M."; hyphenated names keep the hyphen ("Jean-Paul" -> "J.-P.")
+export const initials = (given: string, separator = ' '): string =>
+  given.split(/\s+/).filter(Boolean)
+    .map(part => part.split('-').map(p => `${p.replace(/\./g, '').charAt(0).toUpperCase()}.`).join('-'))
+    .join(separator);
+
+export const paperNames = (paper: Paper): PersonName[] => paper.authors.filter(Boolean).map(parseName);
+
+// Papers saved by clients may be missing fields or carry extra ones
+export const toCitablePaper = (input: any): Paper => ({
+  ...input,
+  title: String(input?.title || '').replace(/\s+/g, ' ').trim(),
+  authors: Array.isArray(input?.authors) ? input.authors.map((a: unknown) => String(a)) : [],
+  abstract: String(input?.abstract || ''),
+  link: String(input?.link || input?.url || ''),
+  source: input?.source || 'arxiv',
+  arxivId: input?.arxivId || String(input?.link || '').match(/arxiv\.org\/abs\/(.+?)(v\d+)?$/)?.[1],
+  year: input?.year || (input?.publishedAt ? parseInt(String(input.publishedAt).slice(0, 4), 10) : undefined)
+});
+
+export const isPreprint = (paper: Paper) => Boolean(paper.arxivId) && !paper.journalRef && !paper.venue;
+
+export const paperUrl = (paper: Paper) =>
+  paper.doi ? `https://doi.org/${paper.doi}` : paper.arxivId ? `https://arxiv.org/abs/${paper.arxivId}` : paper.link;
@@ -0,0 +1,114 @@
+import { Paper } from '../papers';
+import { initials, isPreprint, paperNames, paperUrl, PersonName } from './names';
+
+export type ReferenceStyle = 'apa' | 'ieee' | 'harvard';
+
+export const REFERENCE_STYLES: ReferenceStyle[] = ['apa', 'ieee', 'harvard'];
+
+const joinNames = (names: string[], conjunction: string, serialComma: boolean) => {
+  if (names.length <= 1) return names.join('');
+  if (names.length === 2) return `${names[0]} ${conjunction} ${names[1]}`;
+  return `${names.slice(0, -1).join(', ')}${serialComma ? ',' : ''} ${conjunction} ${names[names.length - 1]}`;
+};
+
+const sentence = (value: string) => value.replace(/[.\s]+$/, '');
+
+const apaAuthors = (names: PersonName[]) => {
+  const formatted = names.map(n => n.given ? `${n.family}, ${initials(n.given)}` : n.family);
+  // APA 7: up to 20 authors, otherwise the first 19, an ellipsis and the last
+  if (formatted.length > 20) {
+    return `${formatted.slice(0, 19).join(', ')}, ... ${formatted[formatted.length - 1]}`;
+  }
+  // APA keeps the comma before "&" even between two authors
+  if (formatted.length === 2) return `${formatted[0]}, & ${formatted[1]}`;
+  return joinNames(formatted, '&', true);
+};
+
+const apa = (paper: Paper): string => {
+  const authors = apaAuthors(paperNames(paper));
+  const year = paper.year || 'n.d.';
+  const url = paperUrl(paper);
+
+  const venue = isPreprint(paper)
+    ? `(arXiv:${paper.arxivId}). arXiv.`
+    : paper.journalRef || paper.venue ? `*${sentence(paper.journalRef || paper.venue || '')}*.` : '';
+
+  return [
+    authors ? `${sentence(authors)}.` : '',
+    `(${year}).`,
+    `${sentence(paper.title)}${isPreprint(paper) ? '' : '.'}`,
+    venue,
+    url
+  ].filter(Boolean).join(' ');
+};
+
+const ieee = (paper: Paper, index: number): string => {
+  const names = paperNames(paper).map(n => n.given ? `${initials(n.given)} ${n.family}` : n.family);
+  // IEEE lists up to six authors, then "et al."
+  const authors = names.length > 6 ? `${names[0]} et al.` : joinNames(names, 'and', true);
+  const year = paper.year ? String(paper.year) : '';
+
+  const venue = isPreprint(paper)
+    ? `arXiv:${paper.arxivId}${paper.primaryCategory ? ` [${paper.primaryCategory}]` : ''}`
+    : paper.journalRef || paper.venue ? `*${paper.journalRef || paper.venue}*` : '';
+
+  const details = [venue, year].filter(Boolean).join(', ');
+  const doi = paper.doi ? ` doi: ${paper.doi}.` : paperUrl(paper) ? ` [Online]. Available: ${paperUrl(paper)}` : '';
+
+  return `[${index + 1}] ${authors ? `${authors}, ` : ''}"${sentence(paper.title)}," ${details}.${doi}`;
+};
+
+const harvard = (paper: Paper): string => {
+  const formatted = paperNames(paper).map(n => n.given ? `${n.family}, ${initials(n.given, '').replace(/\s/g, '')}` : n.family);
+  const authors = joinNames(formatted, 'and', false);
+  const year = paper.year || 'n.d.';
+  const url = paperUrl(paper);
+
+  const venue = isPreprint(paper)
+    ? `arXiv preprint arXiv:${paper.arxivId}.`
+    : paper.journalRef || paper.venue ? `*${sentence(paper.journalRef || paper.venue || '')}*.` : '';
+
+  return [
+    authors ? `${authors}` : '',
+    `(${year})`,
+    `'${sentence(paper.title)}',`,
+    venue,
+    url ? `Available at: ${url}.` : ''
+  ].filter(Boolean).join(' ');
+};
+
+const firstFamily = (paper: Paper) => (paperNames(paper)[0]?.family || paper.title).toLowerCase();
+
+// APA and Harvard are alphabetical by first author; IEEE keeps citation order
+export const formatReferences = (papers: Paper[], style: ReferenceStyle): string[] => {
+  switch (style) {
+    case 'apa':
+      return [...papers].sort((a, b) => firstFamily(a).localeCompare(firstFamily(b))).map(apa);
+    case 'harvard':
+      return [...papers].sort((a, b) => firstFamily(a).localeCompare(firstFamily(b))).map(harvard);
+    case 'ieee':
+      return papers.map(ieee);
+  }
+};
+
+// In-text form of a citation: APA "(Vaswani et al., 2017)", Harvard "(Vaswani et al. 2017)", IEEE "[1]"
+export const formatInlineCitation = (cited: { paper: Paper; number: number }[], style: ReferenceStyle): string => {
+  if (style === 'ieee') return `[${cited.map(c => c.number).join(', ')}]`;
+
+  const parts = cited.map(({ paper }) => {
+    const families = paperNames(paper).map(n => n.family);
+    const authors = families.length === 0
+      ? sentence(paper.title)
+      : families.length === 1
+        ? families[0]
+        : families.length === 2
+          ? `${families[0]} ${style === 'apa' ? '&' : 'and'} ${families[1]}`
+          : `${families[0]} et al.`;
+    const year = paper.year || 'n.d.';
+    return style === 'apa' ? `${authors}, ${year}` : `${authors} ${year}`;
+  });
+  return `(${parts.join('; ')})`;
+};
+
+export const formatReferenceSection = (papers: Paper[], style: ReferenceStyle): string =>
+  `### References\n\n${formatReferences(papers, style).join('\n\n')}\n`;
@@ -0,0 +1,19 @@
+import { Pool } from 'pg';
+import dotenv from 'dotenv';
+import { logger } from './observability';
+
+dotenv.config();
+
+let pool: Pool | null = null;
+
+// Shared connection pool for direct PostgreSQL access (DATABASE_URL)
+export const getPool = (): Pool => {
+  if (!pool) {
+    if (!process.env.DATABASE_URL) {
+      throw new Error('DATABASE_URL is required for PostgreSQL storage');
+    }
+    pool = new Pool({ connectionString: process.env.DATABASE_URL });
+    pool.on('error', (error) => logger.error('PostgreSQL pool error', error));
+  }
+  return pool;
+};
@@ -0,0 +1,98 @@
+import { complete } from '../llm';
+import { Paper } from '../papers';
+import { untrusted } from '../safety';
+import { chunkText } from './chunk';
+import { FullTextDocument, SectionKind } from './types';
+
+export type AnalysisFocus = 'methods' | 'results' | 'limitations';
+
+const FOCUS_SECTIONS: Record<AnalysisFocus, SectionKind[]> = {
+  methods: ['methods'],
+  results: ['results', 'discussion'],
+  limitations: ['limitations', 'discussion', 'conclusion']
+};
+
+const FOCUS_INSTRUCTIONS: Record<AnalysisFocus, string> = {
+  methods: 'the study design, data sets, models or procedures, and evaluation setup',
+  results: 'the quantitative results, comparisons against baselines and the main empirical findings (keep the numbers)',
+  limitations: 'limitations, threats to validity and open problems the authors acknowledge'
+};
+
+const CHUNK_CHARS = 6000;
+const MAX_CHUNKS_PER_FOCUS = 4;
+
+const summarizeChunk = async (paper: Paper, focus: AnalysisFocus, chunk: string, signal?: AbortSignal) => {
+  const { content } = await complete('sectionAnalysis',
+    `Extract ${FOCUS_INSTRUCTIONS[focus]} from this excerpt of the paper titled below.
+    Answer in concise bullet points. If the excerpt contains nothing relevant, answer "None".
+
+    ${untrusted('title', paper.title)}
+
+    Excerpt:
+    ${untrusted('excerpt', chunk)}`,
+    { signal }
+  );
+  return content.trim();
+};
+
+const analyzeFocus = async (paper: Paper, document: FullTextDocument, focus: AnalysisFocus, signal?: AbortSignal) => {
+  const text = document.sections
+    .filter(section => FOCUS_SECTIONS[focus].includes(section.kind))
+    .map(section => `${section.heading}\n${section.text}`)
+    .join('\n\n');
+  if (!text) return '';
+
+  const chunks = chunkText(text, CHUNK_CHARS).slice(0, MAX_CHUNKS_PER_FOCUS);
+  const notes = (await Promise.all(chunks.map(chunk => summarizeChunk(paper, focus, chunk, signal))))
+    .filter(note => note && !/^none\.?$/i.test(note));
+
+  if (notes.length <= 1) return notes[0] || '';
+
+  const { content } = await complete('sectionAnalysis',
+    `Merge these notes on ${FOCUS_INSTRUCTIONS[focus]} of the paper titled below into one concise bullet list without repetition:
+
+    ${untrusted('title', paper.title)}
+
+    ${untrusted('notes', notes.join('\n\n'))}`,
+    { signal }
+  );
+  return content.trim();
+};
+
+export interface FullTextAnalysis {
+  analysis: string;
+  sections: Partial<Record<AnalysisFocus, string>>;
+}
+
+// Map: notes per focus area from the relevant sections; reduce: one structured analysis
+export const analyzeFullText = async (paper: Paper, document: FullTextDocument, signal?: AbortSignal): Promise<FullTextAnalysis> => {
+  const focuses: AnalysisFocus[] = ['methods', 'results', 'limitations'];
+  const notes = await Promise.all(focuses.map(focus => analyzeFocus(paper, document, focus, signal)));
+
+  const sections: Partial<Record<AnalysisFocus, string>> = {};
+  focuses.forEach((focus, i) => {
+    if (notes[i]) sections[focus] = notes[i];
+  });
+
+  // Papers whose headings could not be detected still get analysed from their opening text
+  const fallback = Object.keys(sections).length === 0
+    ? `\n            Full text (beginning):\n${untrusted('excerpt', document.text.slice(0, CHUNK_CHARS))}`
+    : '';
+
+  const { content } = await complete('paperAnalysis',
+    `Analyze this research paper and provide the following details in a structured format:
+            - Research question
+            - Study methodology
+            - Key findings
+            - Limitations
+            - Conclusion
+
+            ${untrusted('paper', `Title: ${paper.title}\nAbstract: ${paper.abstract}`)}
+            Methods (from full text): ${untrusted('notes', sections.methods || 'Not found')}
+            Results (from full text): ${untrusted('notes', sections.results || 'Not found')}
+            Limitations (from full text): ${untrusted('notes', sections.limitations || 'Not found')}${fallback}`,
+    { signal }
+  );
+
+  return { analysis: content, sections };
+};
@@ -0,0 +1,64 @@
+import fs from 'fs';
+import path from 'path';
+import { Paper } from '../papers';
+import { documentKey, extractFullText, pdfUrlFor } from './extract';
+import { FullTextDocument } from './types';
+import { logger } from '../observability';
+
+// Extracted text is kept on disk (FULLTEXT_CACHE_DIR) and in a small in-memory map
+const CACHE_DIR = process.env.FULLTEXT_CACHE_DIR || path.join(process.cwd(), '.cache', 'fulltext');
+const MEMORY_ENTRIES = 50;
+
+const memory = new Map<string, FullTextDocument>();
+const pending = new Map<string, Promise<FullTextDocument>>();
+
+const remember = (document: FullTextDocument) => {
+  memory.delete(document.key);
+  memory.set(document.key, document);
+  if (memory.size > MEMORY_ENTRIES) {
+    memory.delete(memory.keys().next().value as string);
+  }
+};
+
+const readFromDisk = async (key: string): Promise<FullTextDocument | null> => {
+  try {
+    return JSON.parse(await fs.promises.readFile(path.join(CACHE_DIR, `${key}.json`), 'utf8'));
+  } catch {
+    return null;
+  }
+};
+
+const writeToDisk = async (document: FullTextDocument) => {
+  try {
+    await fs.promises.mkdir(CACHE_DIR, { recursive: true });
+    await fs.promises.writeFile(path.join(CACHE_DIR, `${document.key}.json`), JSON.stringify(document));
+  } catch (error) {
+    logger.error('Full-text cache write error', error);
+  }
+};
+
+export const getFullText = async (paper: Paper, signal?: AbortSignal): Promise<FullTextDocument> => {
+  const pdfUrl = pdfUrlFor(paper);
+  if (!pdfUrl) {
+    throw new Error('No PDF available for this paper');
+  }
+  const key = documentKey(paper, pdfUrl);
+
+  const cached = memory.get(key) || await readFromDisk(key);
+  if (cached) {
+    remember(cached);
+    return cached;
+  }
+
+  // Concurrent requests for the same paper share one download
+  if (!pending.has(key)) {
+    pending.set(key, extractFullText(paper, signal)
+      .then(async (document) => {
+        remember(document);
+        await writeToDisk(document);
+        return document;
+      })
+      .finally(() => pending.delete(key)));
+  }
+  return pending.get(key)!;
+};
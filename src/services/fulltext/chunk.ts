@@ -0,0 +1,31 @@
+// Splits on paragraph boundaries, falling back to hard cuts for very long paragraphs
+export const chunkText = (text: string, maxChars: number, overlap = 200): string[] => {
+  const paragraphs = text.split(/\n{2,}|\n(?=[A-Z])/).map(p => p.trim()).filter(Boolean);
+  const chunks: string[] = [];
+  let current = '';
+
+  const flush = () => {
+    if (current.trim()) chunks.push(current.trim());
+    current = '';
+  };
+
+  for (const paragraph of paragraphs) {
+    if (paragraph.length > maxChars) {
+      flush();
+      for (let start = 0; start < paragraph.length; start += maxChars - overlap) {
+        chunks.push(paragraph.slice(start, start + maxChars));
+      }
+      continue;
+    }
+    if (current.length + paragraph.length + 1 > maxChars) {
+      // Carry the tail of the previous chunk so statements spanning the cut keep context
+      const tail = current.slice(-overlap);
+      flush();
+      current = tail ? `${tail}\n` : '';
+    }
+    current += `${paragraph}\n`;
+  }
+
+  flush();
+  return chunks;
+};
@@ -0,0 +1,69 @@
+import crypto from 'crypto';
+import fetch from 'node-fetch';
+import pdfParse from 'pdf-parse';
+import { Paper } from '../papers';
+import { cleanExtractedText, splitSections } from './sections';
+import { FullTextDocument } from './types';
+
+const MAX_PDF_BYTES = 30 * 1024 * 1024;
+const MAX_PAGES = 60;
+const DOWNLOAD_TIMEOUT_MS = 60000;
+
+export const pdfUrlFor = (paper: Paper): string | undefined => {
+  if (paper.pdfUrl) return paper.pdfUrl;
+  if (paper.arxivId) return `https://arxiv.org/pdf/${paper.arxivId}${paper.arxivVersion ? `v${paper.arxivVersion}` : ''}`;
+  return undefined;
+};
+
+export const documentKey = (paper: Paper, pdfUrl: string) =>
+  paper.arxivId
+    ? `arxiv-${paper.arxivId.replace(/[^\w.-]/g, '_')}${paper.arxivVersion ? `v${paper.arxivVersion}` : ''}`
+    : `url-${crypto.createHash('sha256').update(pdfUrl).digest('hex').slice(0, 32)}`;
+
+const downloadPdf = async (url: string, signal?: AbortSignal): Promise<Buffer> => {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), DOWNLOAD_TIMEOUT_MS);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort);
+
+  try {
+    const response = await fetch(url, { signal: controller.signal as any, size: MAX_PDF_BYTES });
+    if (!response.ok) {
+      throw new Error(`PDF download error: ${response.status} ${response.statusText}`);
+    }
+
+    const contentType = response.headers.get('content-type') || '';
+    if (!contentType.includes('pdf') && !contentType.includes('octet-stream')) {
+      throw new Error(`Expected a PDF but got ${contentType || 'unknown content type'}`);
+    }
+
+    return await response.buffer();
+  } finally {
+    clearTimeout(timeout);
+    signal?.removeEventListener('abort', onAbort);
+  }
+};
+
+export const extractFullText = async (paper: Paper, signal?: AbortSignal): Promise<FullTextDocument> => {
+  const pdfUrl = pdfUrlFor(paper);
+  if (!pdfUrl) {
+    throw new Error('No PDF available for this paper');
+  }
+
+  const pdf = await downloadPdf(pdfUrl, signal);
+  const parsed = await pdfParse(pdf, { max: MAX_PAGES });
+  const text = cleanExtractedText(parsed.text);
+
+  if (text.length < 500) {
+    throw new Error('PDF contained no extractable text');
+  }
+
+  return {
+    key: documentKey(paper, pdfUrl),
+    pdfUrl,
+    pages: parsed.numpages,
+    text,
+    sections: splitSections(text),
+    extractedAt: new Date().toISOString()
+  };
+};
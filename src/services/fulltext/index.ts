@@ -0,0 +1,7 @@
+export { getFullText } from './cache';
+export { extractFullText, pdfUrlFor } from './extract';
+export { analyzeFullText } from './analyze';
+export type { FullTextAnalysis, AnalysisFocus } from './analyze';
+export { splitSections, cleanExtractedText } from './sections';
+export { chunkText } from './chunk';
+export type { FullTextDocument, PaperSection, SectionKind } from './types';
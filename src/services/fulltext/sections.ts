@@ -0,0 +1,72 @@
+import { PaperSection, SectionKind } from './types';
+
+const SECTION_KEYWORDS: [SectionKind, RegExp][] = [
+  ['abstract', /^abstract$/],
+  ['introduction', /introduction|background|motivation/],
+  ['limitations', /limitation|threats to validity|future work/],
+  ['methods', /method|approach|materials|setup|architecture|framework|implementation|model|data ?sets?|design|procedure|participants/],
+  ['results', /result|experiment|evaluation|findings|performance|ablation|benchmark/],
+  ['discussion', /discussion|analysis/],
+  ['conclusion', /conclusion|concluding|summary/]
+];
+
+const END_MATTER = /^(references|bibliography|acknowledge?ments?|appendix\b.*|supplementary\b.*)$/i;
+const NUMBER_PREFIX = /^((\d+(\.\d+)*|[IVX]+)\.?\s+)/;
+const TITLE = /^[A-Z][A-Za-z &,:\-/]{2,60}$/;
+
+const classify = (title: string): SectionKind => {
+  const normalized = title.toLowerCase();
+  return SECTION_KEYWORDS.find(([, pattern]) => pattern.test(normalized))?.[0] || 'other';
+};
+
+// "3.1 Experimental Setup", "IV. RESULTS", "Methods"
+const parseHeading = (line: string): { title: string; subsection: boolean } | null => {
+  if (!line || line.length > 70 || /[.;,:]$/.test(line)) return null;
+
+  const prefix = line.match(NUMBER_PREFIX);
+  const title = prefix ? line.slice(prefix[0].length) : line;
+  if (!TITLE.test(title)) return null;
+  if (prefix) return { title, subsection: /\d+\.\d+/.test(prefix[1]) };
+
+  // Unnumbered lines only count when they are a known section name or all caps
+  const known = classify(title) !== 'other' && title.split(' ').length <= 4;
+  return known || (title.length > 3 && title === title.toUpperCase()) ? { title, subsection: false } : null;
+};
+
+// Re-joins words hyphenated across line breaks and collapses page-layout whitespace
+export const cleanExtractedText = (text: string) =>
+  text
+    .replace(/\r/g, '')
+    .replace(/(\w)-\n(\w)/g, '$1$2')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+// Everything after the references/appendix heading is dropped
+export const splitSections = (text: string): PaperSection[] => {
+  const sections: PaperSection[] = [];
+  let current: PaperSection = { heading: 'Front matter', kind: 'other', text: '' };
+
+  for (const line of text.split('\n').map(l => l.trim())) {
+    if (line.length < 60 && END_MATTER.test(line.replace(NUMBER_PREFIX, ''))) break;
+
+    const heading = parseHeading(line);
+
+    if (heading) {
+      if (current.text.trim()) sections.push({ ...current, text: current.text.trim() });
+      const kind = classify(heading.title);
+      current = {
+        heading: heading.title,
+        // Subsections inherit their parent's kind unless their own title says otherwise
+        kind: kind === 'other' && heading.subsection ? current.kind : kind,
+        text: ''
+      };
+      continue;
+    }
+
+    current.text += `${line}\n`;
+  }
+
+  if (current.text.trim()) sections.push({ ...current, text: current.text.trim() });
+  return sections;
+};
@@ -0,0 +1,25 @@
+export type SectionKind =
+  | 'abstract'
+  | 'introduction'
+  | 'methods'
+  | 'results'
+  | 'discussion'
+  | 'limitations'
+  | 'conclusion'
+  | 'other';
+
+export interface PaperSection {
+  heading: string;
+  kind: SectionKind;
+  text: string;
+}
+
+export interface FullTextDocument {
+  // arXiv ID with version when known, otherwise a hash of the PDF URL
+  key: string;
+  pdfUrl: string;
+  pages: number;
+  text: string;
+  sections: PaperSection[];
+  extractedAt: string;
+}
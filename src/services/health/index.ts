@@ -0,0 +1,104 @@
+import { getJwtSecret, localAuthEnabled, supabaseAuthEnabled } from '../auth';
+import { getPool } from '../db';
+import { getLLMConfig } from '../llm';
+import { getSupabase } from '../supabase';
+
+export type CheckStatus = 'ok' | 'error' | 'skipped';
+
+export interface CheckResult {
+  status: CheckStatus;
+  detail?: string;
+  durationMs?: number;
+}
+
+export interface HealthReport {
+  status: 'ok' | 'error';
+  checks: Record<string, CheckResult>;
+}
+
+const CHECK_TIMEOUT_MS = Number(process.env.HEALTH_CHECK_TIMEOUT_MS) || 3000;
+
+// Features configured to use DATABASE_URL
+const postgresUsers = () => [
+  process.env.REPORTS_BACKEND === 'postgres' && 'reports',
+  process.env.API_KEYS_BACKEND === 'postgres' && 'apiKeys',
+  process.env.USAGE_BACKEND === 'postgres' && 'usage',
+  process.env.CACHE_BACKEND === 'postgres' && 'cache',
+  localAuthEnabled() && 'auth'
+].filter((name): name is string => Boolean(name));
+
+// Features that can only use Supabase in this configuration
+const supabaseUsers = () => [
+  process.env.REPORTS_BACKEND !== 'postgres' && 'reports',
+  process.env.API_KEYS_BACKEND !== 'postgres' && 'apiKeys',
+  supabaseAuthEnabled() && 'auth'
+].filter((name): name is string => Boolean(name));
+
+const withTimeout = <T>(promise: PromiseLike<T>, label: string) => {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`${label} did not answer within ${CHECK_TIMEOUT_MS}ms`)), CHECK_TIMEOUT_MS);
+  });
+  return Promise.race([Promise.resolve(promise), timeout]).finally(() => clearTimeout(timer));
+};
+
+const timed = async (check: () => Promise<CheckResult | void>): Promise<CheckResult> => {
+  const started = Date.now();
+  try {
+    const result = await check();
+    return { status: 'ok', ...result, durationMs: Date.now() - started };
+  } catch (error) {
+    return { status: 'error', detail: error instanceof Error ? error.message : String(error), durationMs: Date.now() - started };
+  }
+};
+
+const checkLLMProvider = async (): Promise<CheckResult | void> => {
+  const { provider } = getLLMConfig();
+  if (provider.kind === 'openrouter' && !provider.apiKey) throw new Error('OPENROUTER_API_KEY (or LLM_API_KEY) is not set');
+  if (provider.kind === 'openai-compatible' && !provider.baseUrl) throw new Error('LLM_BASE_URL is not set');
+  return { status: 'ok', detail: provider.kind };
+};
+
+const checkAuth = async (): Promise<CheckResult | void> => {
+  if (localAuthEnabled()) getJwtSecret();
+  if (supabaseAuthEnabled() && (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY)) {
+    throw new Error('SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required for Supabase authentication');
+  }
+};
+
+const checkPostgres = async (): Promise<CheckResult | void> => {
+  const users = postgresUsers();
+  if (users.length === 0) return { status: 'skipped', detail: 'not used' };
+  await withTimeout(getPool().query('SELECT 1'), 'PostgreSQL');
+  return { status: 'ok', detail: `used by ${users.join(', ')}` };
+};
+
+const checkSupabase = async (): Promise<CheckResult | void> => {
+  const users = supabaseUsers();
+  if (users.length === 0) return { status: 'skipped', detail: 'not used' };
+  const { error } = await withTimeout(getSupabase().from('reports').select('id', { head: true }).limit(1), 'Supabase');
+  if (error) throw new Error(error.message);
+};
+
+const summarize = (checks: Record<string, CheckResult>): HealthReport => ({
+  status: Object.values(checks).some(check => check.status === 'error') ? 'error' : 'ok',
+  checks
+});
+
+// Configuration only: cheap enough for frequent liveness probes
+export const checkHealth = async (): Promise<HealthReport> =>
+  summarize({
+    llmProvider: await timed(checkLLMProvider),
+    auth: await timed(checkAuth)
+  });
+
+// Configuration plus connectivity to the databases this configuration uses
+export const checkReadiness = async (): Promise<HealthReport> => {
+  const [llmProvider, auth, postgres, supabase] = await Promise.all([
+    timed(checkLLMProvider),
+    timed(checkAuth),
+    timed(checkPostgres),
+    timed(checkSupabase)
+  ]);
+  return summarize({ llmProvider, auth, postgres, supabase });
+};
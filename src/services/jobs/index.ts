@@ -0,0 +1,4 @@
+export { reportJobQueue, ReportJobQueue, JobStateError } from './queue';
+export { createInMemoryJobStore } from './store';
+export { toJobStatus } from './status';
+export type { ReportJob, ReportJobStatus, JobStore } from './types';
@@ -0,0 +1,154 @@
+import crypto from 'crypto';
+import { normalizeTitle, Paper, PaperSourceName } from '../papers';
+import { ReportGenerationError } from '../report';
+import { withUsageContext } from '../usage';
+import { createInMemoryJobStore } from './store';
+import { JobCancelledError, runReportJob } from './runner';
+import { JobStore, ReportJob } from './types';
+import { logger } from '../observability';
+
+const ACTIVE_STATUSES = ['queued', 'running'];
+
+export class JobStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JobStateError';
+  }
+}
+
+export class ReportJobQueue {
+  private pending: string[] = [];
+  // `done` settles once the worker has stopped, including after a cancel
+  private running = new Map<string, { controller: AbortController; done: Promise<void> }>();
+  private resuming = new Set<string>();
+
+  constructor(private store: JobStore, private concurrency: number) {}
+
+  async enqueue(
+    userId: string,
+    query: string,
+    options: {
+      sources?: PaperSourceName[];
+      fullText?: boolean;
+      template?: string;
+      papers?: Paper[];
+      workspaceId?: string;
+      collectionId?: string;
+    } = {}
+  ): Promise<{ job: ReportJob; created: boolean }> {
+    // Resubmitting a query that is still being processed returns the existing job
+    const existing = (await this.store.listByUser(userId)).find(job =>
+      ACTIVE_STATUSES.includes(job.status) && normalizeTitle(job.query) === normalizeTitle(query)
+    );
+    if (existing) return { job: existing, created: false };
+
+    const now = new Date().toISOString();
+    const job = await this.store.create({
+      id: crypto.randomUUID(),
+      userId,
+      query,
+      sources: options.sources,
+      fullText: options.fullText,
+      template: options.template,
+      workspaceId: options.workspaceId,
+      collectionId: options.collectionId,
+      // Curated papers skip the search step
+      papers: options.papers,
+      analyses: options.papers?.map(() => null),
+      status: 'queued',
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now
+    });
+
+    this.pending.push(job.id);
+    this.drain();
+    return { job, created: true };
+  }
+
+  get(id: string) {
+    return this.store.get(id);
+  }
+
+  list(userId: string) {
+    return this.store.listByUser(userId);
+  }
+
+  async cancel(id: string): Promise<ReportJob> {
+    const job = await this.store.get(id);
+    if (!job) throw new JobStateError('Job not found');
+    if (!ACTIVE_STATUSES.includes(job.status)) {
+      throw new JobStateError(`Cannot cancel a ${job.status} job`);
+    }
+
+    this.pending = this.pending.filter(pendingId => pendingId !== id);
+    this.running.get(id)?.controller.abort();
+    return this.store.update(id, { status: 'cancelled' });
+  }
+
+  // Re-queues a failed or cancelled job; completed steps are kept
+  async resume(id: string): Promise<ReportJob> {
+    if (this.resuming.has(id)) throw new JobStateError('Job is already being resumed');
+    this.resuming.add(id);
+    try {
+      const job = await this.store.get(id);
+      if (!job) throw new JobStateError('Job not found');
+      if (job.status !== 'failed' && job.status !== 'cancelled') {
+        throw new JobStateError(`Cannot resume a ${job.status} job`);
+      }
+
+      // A cancelled worker may still be finishing its current step; two workers must never share a job
+      await this.running.get(id)?.done;
+
+      const updated = await this.store.update(id, { status: 'queued', error: undefined });
+      this.pending.push(id);
+      this.drain();
+      return updated;
+    } finally {
+      this.resuming.delete(id);
+    }
+  }
+
+  private drain() {
+    while (this.running.size < this.concurrency && this.pending.length > 0) {
+      const id = this.pending.shift()!;
+      const controller = new AbortController();
+      const done = this.process(id, controller.signal)
+        .catch(error => logger.error(`Report job ${id} error`, error))
+        .finally(() => {
+          this.running.delete(id);
+          this.drain();
+        });
+      this.running.set(id, { controller, done });
+    }
+  }
+
+  private async process(id: string, signal: AbortSignal) {
+    const job = await this.store.get(id);
+    if (!job || job.status !== 'queued') return;
+
+    await this.store.update(id, { status: 'running', attempts: job.attempts + 1 });
+
+    try {
+      // Queued jobs run outside the request, so token usage is charged here
+      await withUsageContext({ userId: job.userId, endpoint: 'report' }, () => runReportJob(this.store, id, signal));
+      if (!signal.aborted) await this.store.update(id, { status: 'completed' });
+    } catch (error) {
+      if (error instanceof JobCancelledError || signal.aborted) return;
+
+      logger.error('Report job failed', error);
+      await this.store.update(id, {
+        status: 'failed',
+        error: {
+          stage: error instanceof ReportGenerationError ? error.stage : undefined,
+          message: error instanceof Error ? error.message : 'Report job failed'
+        }
+      });
+    }
+  }
+}
+
+export const reportJobQueue = new ReportJobQueue(
+  createInMemoryJobStore(),
+  Math.max(1, parseInt(process.env.REPORT_JOB_CONCURRENCY || '2', 10) || 2)
+);
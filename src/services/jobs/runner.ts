@@ -0,0 +1,84 @@
+import {
+  analyzePaper,
+  fetchReportPapers,
+  getReportTemplate,
+  ReportGenerationError,
+  saveReport,
+  toStoredPapers,
+  verifyCitations,
+  writeReport
+} from '../report';
+import { JobStore, ReportJob } from './types';
+import { sanitizeMarkdown } from '../safety';
+
+export class JobCancelledError extends Error {
+  constructor() {
+    super('Job cancelled');
+    this.name = 'JobCancelledError';
+  }
+}
+
+// Runs whichever steps the job has not completed yet, persisting after each one
+export const runReportJob = async (store: JobStore, jobId: string, signal: AbortSignal): Promise<ReportJob> => {
+  let job = (await store.get(jobId))!;
+  const template = getReportTemplate(job.template);
+
+  const checkCancelled = () => {
+    if (signal.aborted) throw new JobCancelledError();
+  };
+
+  if (!job.papers) {
+    const papers = await fetchReportPapers(job.query, job.sources, template.paperCount);
+    job = await store.update(jobId, { papers, analyses: papers.map(() => null) });
+  }
+  checkCancelled();
+
+  const papers = job.papers!;
+  const analyses = job.analyses && job.analyses.length === papers.length
+    ? [...job.analyses]
+    : papers.map(() => null);
+
+  await Promise.all(papers.map(async (paper, i) => {
+    if (analyses[i]) return;
+    try {
+      analyses[i] = await analyzePaper(paper, { signal, fullText: job.fullText });
+    } catch (error) {
+      checkCancelled();
+      throw new ReportGenerationError('analysis', error instanceof Error ? error.message : 'Failed to analyze paper', error);
+    }
+    job = await store.update(jobId, { analyses: [...analyses] });
+  }));
+  checkCancelled();
+
+  if (!job.report) {
+    const written = await writeReport(job.query, analyses.map(a => a!), template, {
+      signal,
+      outline: job.outline,
+      sections: job.sections,
+      onOutline: (outline) => store.update(jobId, { outline }),
+      onSection: (sections) => store.update(jobId, { sections })
+    });
+    checkCancelled();
+
+    // Kept sections survive a resume, so only the failed ones are written again
+    const failed = written.sections.filter(section => section.status === 'failed');
+    if (failed.length > 0) {
+      throw new ReportGenerationError('report',
+        `Failed to write ${failed.length} section(s): ${failed.map(section => section.heading).join(', ')}`);
+    }
+
+    const { report, citationReport } = verifyCitations(written.report, analyses.map(a => a!), template.citationStyle);
+    job = await store.update(jobId, { report: sanitizeMarkdown(report), citations: citationReport, consistencyIssues: written.consistencyIssues });
+  }
+  checkCancelled();
+
+  if (!job.savedReport) {
+    const savedReport = await saveReport(job.userId, job.query, job.report!, toStoredPapers(analyses.map(a => a!)), {
+      workspaceId: job.workspaceId,
+      collectionId: job.collectionId
+    });
+    job = await store.update(jobId, { savedReport });
+  }
+
+  return job;
+};
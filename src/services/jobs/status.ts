@@ -0,0 +1,28 @@
+import { ReportJob } from './types';
+
+// Client-facing summary of a job without its (potentially large) results
+export const toJobStatus = (job: ReportJob) => {
+  const analysesCompleted = (job.analyses || []).filter(Boolean).length;
+
+  return {
+    id: job.id,
+    query: job.query,
+    template: job.template,
+    workspaceId: job.workspaceId,
+    collectionId: job.collectionId,
+    status: job.status,
+    progress: {
+      papersFetched: job.papers ? job.papers.length : null,
+      analysesCompleted,
+      analysesTotal: job.papers ? job.papers.length : null,
+      sectionsCompleted: (job.sections || []).filter(section => section.status !== 'failed').length,
+      sectionsTotal: job.outline ? job.outline.length : null,
+      reportWritten: Boolean(job.report),
+      saved: Boolean(job.savedReport)
+    },
+    error: job.error,
+    attempts: job.attempts,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt
+  };
+};
@@ -0,0 +1,42 @@
+import { JobStore, ReportJob } from './types';
+
+// Keeps jobs for the life of the process; finished jobs expire after JOB_TTL_MS
+const JOB_TTL_MS = 24 * 60 * 60 * 1000;
+
+export const createInMemoryJobStore = (): JobStore => {
+  const jobs = new Map<string, ReportJob>();
+
+  const prune = () => {
+    const cutoff = Date.now() - JOB_TTL_MS;
+    for (const [id, job] of jobs) {
+      if (['completed', 'failed', 'cancelled'].includes(job.status) && Date.parse(job.updatedAt) < cutoff) {
+        jobs.delete(id);
+      }
+    }
+  };
+
+  return {
+    async create(job) {
+      prune();
+      jobs.set(job.id, { ...job });
+      return { ...job };
+    },
+    async get(id) {
+      const job = jobs.get(id);
+      return job ? { ...job } : null;
+    },
+    async update(id, changes) {
+      const job = jobs.get(id);
+      if (!job) throw new Error(`Job ${id} not found`);
+      const updated = { ...job, ...changes, updatedAt: new Date().toISOString() };
+      jobs.set(id, updated);
+      return { ...updated };
+    },
+    async listByUser(userId) {
+      return Array.from(jobs.values())
+        .filter(job => job.userId === userId)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+        .map(job => ({ ...job }));
+    }
+  };
+};
@@ -0,0 +1,38 @@
+import { Paper, PaperSourceName } from '../papers';
+import { CitationReport, ConsistencyIssue, OutlineEntry, PaperAnalysis, ReportStage, SectionResult } from '../report';
+
+export type ReportJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface ReportJob {
+  id: string;
+  userId: string;
+  query: string;
+  sources?: PaperSourceName[];
+  fullText?: boolean;
+  template?: string;
+  // Where the report is saved; a collection's papers are set as `papers` when the job is created
+  workspaceId?: string;
+  collectionId?: string;
+  status: ReportJobStatus;
+  // Step results, persisted as each one completes so a resumed job skips them
+  papers?: Paper[];
+  // One slot per paper; null until that paper has been analyzed
+  analyses?: (PaperAnalysis | null)[];
+  outline?: OutlineEntry[];
+  sections?: SectionResult[];
+  consistencyIssues?: ConsistencyIssue[];
+  report?: string;
+  citations?: CitationReport;
+  savedReport?: any;
+  error?: { stage?: ReportStage; message: string };
+  attempts: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface JobStore {
+  create(job: ReportJob): Promise<ReportJob>;
+  get(id: string): Promise<ReportJob | null>;
+  update(id: string, changes: Partial<ReportJob>): Promise<ReportJob>;
+  listByUser(userId: string): Promise<ReportJob[]>;
+}
@@ -0,0 +1,153 @@
+import { getLLMConfig, LLMTask, ProviderSettings, TaskSettings } from './config';
+import { cached } from '../cache';
+import { recordTokenUsage } from '../usage';
+import { llmTokens, logger } from '../observability';
+import { UpstreamError } from '../upstream';
+import { withUntrustedNotice } from '../safety';
+import { ChatCompletionRequest, ChatCompletionResult, ChatMessage, LLMProvider, TokenHandler } from './types';
+import { createOpenRouterProvider } from './providers/openrouter';
+import { createOpenAICompatibleProvider } from './providers/openaiCompatible';
+import { createFakeProvider } from './providers/fake';
+
+export interface CompleteOptions {
+  signal?: AbortSignal;
+  overrides?: Partial<TaskSettings>;
+  // Completions are cached by provider, model, prompt and parameters unless this is false
+  cache?: boolean;
+}
+
+let cachedProvider: { key: string; provider: LLMProvider } | null = null;
+let providerOverride: LLMProvider | null = null;
+
+const buildProvider = (settings: ProviderSettings): LLMProvider => {
+  switch (settings.kind) {
+    case 'openrouter':
+      return createOpenRouterProvider({
+        apiKey: settings.apiKey,
+        organization: process.env.OPENROUTER_ORG_ID
+      });
+    case 'openai-compatible':
+      if (!settings.baseUrl) {
+        throw new Error('LLM_BASE_URL is required for the openai-compatible provider');
+      }
+      return createOpenAICompatibleProvider({ baseUrl: settings.baseUrl, apiKey: settings.apiKey });
+    case 'fake':
+      return createFakeProvider();
+    default:
+      throw new Error(`Unknown LLM provider: ${settings.kind}`);
+  }
+};
+
+const resolveProvider = (settings: ProviderSettings): LLMProvider => {
+  if (providerOverride) return providerOverride;
+
+  const key = JSON.stringify(settings);
+  if (!cachedProvider || cachedProvider.key !== key) {
+    cachedProvider = { key, provider: buildProvider(settings) };
+  }
+  return cachedProvider.provider;
+};
+
+// Replace the configured provider in-process (e.g. a fake with canned responses)
+export const setLLMProvider = (provider: LLMProvider | null) => {
+  providerOverride = provider;
+};
+
+// One request per model in the fallback chain, each with its own cache key
+const prepare = (task: LLMTask, prompt: string | ChatMessage[], options: CompleteOptions) => {
+  const config = getLLMConfig();
+  const settings = { ...config.tasks[task], ...options.overrides };
+  const models = [settings.model, ...settings.fallbackModels.filter(model => model !== settings.model)];
+  // Prompts that embed untrusted blocks get a system notice telling the model to treat them as data
+  const messages = withUntrustedNotice<ChatMessage>(typeof prompt === 'string' ? [{ role: 'user', content: prompt }] : prompt);
+
+  const attempts = models.map((model) => {
+    const request: ChatCompletionRequest = {
+      model,
+      messages,
+      temperature: settings.temperature,
+      maxTokens: settings.maxTokens,
+      signal: options.signal
+    };
+
+    const { signal, ...keyedRequest } = request;
+    const cacheKey = { provider: config.provider.kind, baseUrl: config.provider.baseUrl, ...keyedRequest };
+    return { request, cacheKey };
+  });
+
+  return { provider: resolveProvider(config.provider), attempts };
+};
+
+// Only completions that reached the provider count towards the user's token usage
+const charged = (task: LLMTask, result: ChatCompletionResult) => {
+  recordTokenUsage(task, result);
+  if (result.usage) {
+    llmTokens.inc({ provider: result.provider, model: result.model, type: 'prompt' }, result.usage.promptTokens);
+    llmTokens.inc({ provider: result.provider, model: result.model, type: 'completion' }, result.usage.completionTokens);
+  }
+  return result;
+};
+
+// Bad credentials fail every model alike, so they are not worth falling back on
+const shouldFallBack = (error: unknown) =>
+  error instanceof UpstreamError && error.status !== 401 && error.status !== 403;
+
+const withFallback = async <T>(
+  models: string[],
+  signal: AbortSignal | undefined,
+  attempt: (index: number) => Promise<T>,
+  canFallBack: () => boolean = () => true
+): Promise<T> => {
+  for (let index = 0; ; index++) {
+    try {
+      return await attempt(index);
+    } catch (error) {
+      const last = index === models.length - 1;
+      if (last || signal?.aborted || !shouldFallBack(error) || !canFallBack()) throw error;
+      logger.warn(`Model ${models[index]} failed, falling back to ${models[index + 1]}`, { reason: (error as Error).message });
+    }
+  }
+};
+
+export const complete = async (
+  task: LLMTask,
+  prompt: string | ChatMessage[],
+  options: CompleteOptions = {}
+): Promise<ChatCompletionResult> => {
+  const { provider, attempts } = prepare(task, prompt, options);
+
+  return withFallback(attempts.map(({ request }) => request.model), options.signal, (index) => {
+    const { request, cacheKey } = attempts[index];
+    const run = () => provider.complete(request).then(result => charged(task, result));
+    if (options.cache === false) return run();
+    return cached('llm', cacheKey, run, {
+      shouldCache: (result) => Boolean(result.content)
+    });
+  });
+};
+
+export const completeStream = async (
+  task: LLMTask,
+  prompt: string | ChatMessage[],
+  onToken: TokenHandler,
+  options: CompleteOptions = {}
+): Promise<ChatCompletionResult> => {
+  const { provider, attempts } = prepare(task, prompt, options);
+  let emitted = false;
+  const forward: TokenHandler = (token) => {
+    emitted = true;
+    onToken(token);
+  };
+
+  // A partially streamed answer cannot be continued by another model
+  return withFallback(attempts.map(({ request }) => request.model), options.signal, (index) => {
+    const { request, cacheKey } = attempts[index];
+    const run = () => provider.stream(request, forward).then(result => charged(task, result));
+    if (options.cache === false) return run();
+    // A cached completion is replayed as a single token
+    return cached('llm', cacheKey, run, {
+      onHit: (result) => forward(result.content),
+      shouldCache: (result) => Boolean(result.content)
+    });
+  }, () => !emitted);
+};
@@ -0,0 +1,133 @@
+import fs from 'fs';
+import { logger } from '../observability';
+
+export type LLMTask =
+  | 'searchSummary'
+  | 'consolidatedSummary'
+  | 'paperAnalysis'
+  | 'finalReport'
+  | 'reportOutline'
+  | 'reportReview'
+  | 'reportChat'
+  | 'alertDigest'
+  | 'suggestPrompt'
+  | 'researchTags'
+  | 'abstractSummary'
+  | 'sectionAnalysis';
+
+export type ProviderKind = 'openrouter' | 'openai-compatible' | 'fake';
+
+export interface TaskSettings {
+  model: string;
+  // Tried in order when the model fails, times out or its circuit is open
+  fallbackModels: string[];
+  temperature: number;
+  maxTokens: number;
+}
+
+export interface ProviderSettings {
+  kind: ProviderKind;
+  baseUrl?: string;
+  apiKey?: string;
+}
+
+export interface LLMConfig {
+  provider: ProviderSettings;
+  tasks: Record<LLMTask, TaskSettings>;
+}
+
+interface LLMConfigFile {
+  provider?: Partial<ProviderSettings>;
+  model?: string;
+  fallbackModels?: string[];
+  tasks?: Partial<Record<LLMTask, Partial<TaskSettings>>>;
+}
+
+const DEFAULT_MODEL = 'qwen/qwen-vl-plus:free';
+
+const TASK_DEFAULTS: Record<LLMTask, Omit<TaskSettings, 'model' | 'fallbackModels'>> = {
+  searchSummary: { temperature: 0.2, maxTokens: 100 },
+  consolidatedSummary: { temperature: 0.3, maxTokens: 200 },
+  paperAnalysis: { temperature: 0.3, maxTokens: 500 },
+  finalReport: { temperature: 0.3, maxTokens: 2000 },
+  reportOutline: { temperature: 0.2, maxTokens: 800 },
+  reportReview: { temperature: 0.1, maxTokens: 600 },
+  reportChat: { temperature: 0.2, maxTokens: 800 },
+  alertDigest: { temperature: 0.3, maxTokens: 800 },
+  suggestPrompt: { temperature: 0.3, maxTokens: 800 },
+  researchTags: { temperature: 0.2, maxTokens: 100 },
+  abstractSummary: { temperature: 0.1, maxTokens: 150 },
+  sectionAnalysis: { temperature: 0.2, maxTokens: 400 }
+};
+
+export const LLM_TASKS = Object.keys(TASK_DEFAULTS) as LLMTask[];
+
+// searchSummary -> SEARCH_SUMMARY
+const envPrefix = (task: LLMTask) => `LLM_${task.replace(/([A-Z])/g, '_$1').toUpperCase()}`;
+
+const numberFromEnv = (name: string): number | undefined => {
+  const value = process.env[name];
+  if (value === undefined || value === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+const listFromEnv = (name: string): string[] | undefined => {
+  const value = process.env[name];
+  if (value === undefined || value === '') return undefined;
+  return value.split(',').map(item => item.trim()).filter(Boolean);
+};
+
+let cachedFile: { path: string; mtimeMs: number; contents: LLMConfigFile } | null = null;
+
+// LLM_CONFIG_FILE is re-read whenever it changes on disk, so models can be
+// switched on a running server without a redeploy.
+const readConfigFile = (): LLMConfigFile => {
+  const path = process.env.LLM_CONFIG_FILE;
+  if (!path) return {};
+
+  try {
+    const { mtimeMs } = fs.statSync(path);
+    if (cachedFile && cachedFile.path === path && cachedFile.mtimeMs === mtimeMs) {
+      return cachedFile.contents;
+    }
+
+    const contents = JSON.parse(fs.readFileSync(path, 'utf8')) as LLMConfigFile;
+    cachedFile = { path, mtimeMs, contents };
+    return contents;
+  } catch (error) {
+    logger.error('LLM config file error', error);
+    return cachedFile?.contents || {};
+  }
+};
+
+// Precedence: config file > task env vars > global env vars > defaults
+export const getLLMConfig = (): LLMConfig => {
+  const file = readConfigFile();
+  const defaultModel = file.model || process.env.LLM_MODEL || DEFAULT_MODEL;
+  const defaultFallbacks = file.fallbackModels || listFromEnv('LLM_FALLBACK_MODELS') || [];
+
+  const tasks = {} as Record<LLMTask, TaskSettings>;
+  for (const task of LLM_TASKS) {
+    const prefix = envPrefix(task);
+    const fromFile = file.tasks?.[task] || {};
+    tasks[task] = {
+      model: fromFile.model || process.env[`${prefix}_MODEL`] || defaultModel,
+      fallbackModels: fromFile.fallbackModels || listFromEnv(`${prefix}_FALLBACK_MODELS`) || defaultFallbacks,
+      temperature: fromFile.temperature ?? numberFromEnv(`${prefix}_TEMPERATURE`) ?? TASK_DEFAULTS[task].temperature,
+      maxTokens: fromFile.maxTokens ?? numberFromEnv(`${prefix}_MAX_TOKENS`) ?? TASK_DEFAULTS[task].maxTokens
+    };
+  }
+
+  const kind = (file.provider?.kind || process.env.LLM_PROVIDER || 'openrouter') as ProviderKind;
+
+  return {
+    provider: {
+      kind,
+      baseUrl: file.provider?.baseUrl || process.env.LLM_BASE_URL,
+      apiKey: file.provider?.apiKey || process.env.LLM_API_KEY ||
+        (kind === 'openrouter' ? process.env.OPENROUTER_API_KEY : undefined)
+    },
+    tasks
+  };
+};
@@ -0,0 +1,59 @@
+// Finds the end of the JSON value starting at `start`, honouring strings and escapes
+const balancedEnd = (text: string, start: number): number => {
+  const stack: string[] = [];
+  let inString = false;
+
+  for (let index = start; index < text.length; index++) {
+    const char = text[index];
+    if (inString) {
+      if (char === '\\') index++;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') inString = true;
+    else if (char === '{' || char === '[') stack.push(char === '{' ? '}' : ']');
+    else if (char === '}' || char === ']') {
+      if (stack.pop() !== char) return -1;
+      if (stack.length === 0) return index;
+    }
+  }
+  return -1;
+};
+
+const tryParse = (text: string): { value: unknown } | null => {
+  try {
+    return { value: JSON.parse(text) };
+  } catch {
+    return null;
+  }
+};
+
+// Models wrap JSON in ```json fences, lead with "Sure! Here is..." or trail off with notes
+export const extractJson = (text: string): { value: unknown } | null => {
+  const trimmed = text.trim();
+  const direct = tryParse(trimmed);
+  if (direct) return direct;
+
+  const candidates: string[] = [];
+  const fence = /```(?:json)?\s*([\s\S]*?)```/gi;
+  for (let match = fence.exec(trimmed); match; match = fence.exec(trimmed)) {
+    candidates.push(match[1].trim());
+  }
+  candidates.push(trimmed);
+
+  for (const candidate of candidates) {
+    const parsed = tryParse(candidate);
+    if (parsed) return parsed;
+
+    for (let start = 0; start < candidate.length; start++) {
+      if (candidate[start] !== '{' && candidate[start] !== '[') continue;
+      const end = balancedEnd(candidate, start);
+      if (end === -1) continue;
+      const value = tryParse(candidate.slice(start, end + 1)) ||
+        // Trailing commas are the most common near-miss
+        tryParse(candidate.slice(start, end + 1).replace(/,\s*([}\]])/g, '$1'));
+      if (value) return value;
+    }
+  }
+  return null;
+};
@@ -0,0 +1,10 @@
+export { complete, completeStream, setLLMProvider } from './client';
+export { getLLMConfig, LLM_TASKS } from './config';
+export type { LLMTask, TaskSettings, ProviderSettings } from './config';
+export type { ChatMessage, ChatCompletionResult, LLMProvider, TokenHandler, TokenUsage } from './types';
+export { createFakeProvider } from './providers/fake';
+export { completeStructured } from './structured';
+export type { StructuredResult, StructuredStatus } from './structured';
+export { extractJson } from './extract';
+export * as schema from './schema';
+export type { Schema, Infer } from './schema';
@@ -0,0 +1,44 @@
+import crypto from 'crypto';
+import { ChatCompletionRequest, ChatCompletionResult, LLMProvider, TokenHandler } from '../types';
+
+export type FakeResponder = (request: ChatCompletionRequest) => string;
+
+// Deterministic: the same request always yields the same text, so the
+// whole backend can run offline and in tests without a model.
+const defaultResponder: FakeResponder = (request) => {
+  const prompt = request.messages.map(m => m.content).join('\n');
+
+  if (/JSON/.test(prompt)) {
+    return '{}';
+  }
+
+  const digest = crypto.createHash('sha256').update(prompt).digest('hex').slice(0, 8);
+  const preview = prompt.replace(/\s+/g, ' ').trim().slice(0, 80);
+  return `[fake ${digest}] ${preview}`;
+};
+
+const toResult = (request: ChatCompletionRequest, content: string): ChatCompletionResult => {
+  const promptTokens = request.messages.reduce((sum, m) => sum + m.content.split(/\s+/).length, 0);
+  const completionTokens = content.split(/\s+/).length;
+
+  return {
+    content,
+    model: request.model,
+    provider: 'fake',
+    usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens }
+  };
+};
+
+export const createFakeProvider = (respond: FakeResponder = defaultResponder): LLMProvider => ({
+  name: 'fake',
+  async complete(request: ChatCompletionRequest): Promise<ChatCompletionResult> {
+    return toResult(request, respond(request));
+  },
+
+  async stream(request: ChatCompletionRequest, onToken: TokenHandler): Promise<ChatCompletionResult> {
+    const content = respond(request);
+    // Word-sized tokens, keeping the whitespace so they concatenate back to content
+    (content.match(/\S+\s*|\s+/g) || []).forEach(onToken);
+    return toResult(request, content);
+  }
+});
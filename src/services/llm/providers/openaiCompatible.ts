@@ -0,0 +1,141 @@
+import fetch from 'node-fetch';
+import { callUpstream, ensureOk, UpstreamError } from '../../upstream';
+import { ChatCompletionRequest, ChatCompletionResult, LLMProvider, TokenHandler, TokenUsage } from '../types';
+
+export interface OpenAICompatibleOptions {
+  name?: string;
+  baseUrl: string;
+  apiKey?: string;
+  headers?: Record<string, string>;
+}
+
+const toUsage = (usage: any): TokenUsage | undefined => usage ? {
+  promptTokens: usage.prompt_tokens || 0,
+  completionTokens: usage.completion_tokens || 0,
+  totalTokens: usage.total_tokens || 0
+} : undefined;
+
+// Error bodies sometimes arrive with a 200 status (or mid-stream); OpenRouter puts the HTTP status in `code`
+const payloadError = (name: string, error: any) =>
+  new UpstreamError(name, error?.message || `${name} returned an error`, typeof error?.code === 'number' ? error.code : undefined);
+
+// Works with any server exposing POST {baseUrl}/chat/completions
+// (OpenRouter, OpenAI, llama.cpp server, Ollama, vLLM, ...)
+export const createOpenAICompatibleProvider = (options: OpenAICompatibleOptions): LLMProvider => {
+  const name = options.name || 'openai-compatible';
+  const baseUrl = options.baseUrl.replace(/\/+$/, '');
+
+  const post = async (request: ChatCompletionRequest, stream: boolean, signal: AbortSignal) => {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      ...options.headers
+    };
+
+    if (options.apiKey) {
+      headers['Authorization'] = `Bearer ${options.apiKey}`;
+    }
+
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: request.model,
+        messages: request.messages,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        ...(stream ? { stream: true, stream_options: { include_usage: true } } : {})
+      }),
+      signal: signal as any
+    });
+
+    return ensureOk(name, response);
+  };
+
+  // Retries, timeouts and the circuit breaker apply per model, so one overloaded model
+  // does not block its fallbacks
+  const upstreamFor = (request: ChatCompletionRequest) => `${name}:${request.model}`;
+
+  return {
+    name,
+    async complete(request: ChatCompletionRequest): Promise<ChatCompletionResult> {
+      return callUpstream('llm', async ({ signal }) => {
+        const response = await post(request, false, signal);
+        const data = await response.json();
+        if (data.error) throw payloadError(name, data.error);
+        if (!Array.isArray(data.choices) || data.choices.length === 0) {
+          throw new UpstreamError(name, `${name} returned no choices`);
+        }
+
+        return {
+          content: data.choices[0].message?.content || '',
+          model: data.model || request.model,
+          provider: name,
+          usage: toUsage(data.usage),
+          finishReason: data.choices[0].finish_reason || undefined
+        };
+      }, { upstream: upstreamFor(request), signal: request.signal });
+    },
+
+    async stream(request: ChatCompletionRequest, onToken: TokenHandler): Promise<ChatCompletionResult> {
+      let emitted = false;
+
+      // Once tokens have reached the caller a retry would duplicate them
+      return callUpstream('llm', async ({ signal, touch }) => {
+        const response = await post(request, true, signal);
+
+        let content = '';
+        let model = request.model;
+        let usage: TokenUsage | undefined;
+        let finishReason: string | undefined;
+        let buffer = '';
+        let sawEvents = false;
+        let raw = '';
+
+        const handleLine = (line: string) => {
+          if (!line.startsWith('data:')) return;
+          sawEvents = true;
+          const payload = line.slice(5).trim();
+          if (!payload || payload === '[DONE]') return;
+
+          const chunk = JSON.parse(payload);
+          if (chunk.error) throw payloadError(name, chunk.error);
+
+          const token = chunk.choices?.[0]?.delta?.content;
+          if (token) {
+            content += token;
+            emitted = true;
+            onToken(token);
+          }
+          model = chunk.model || model;
+          usage = toUsage(chunk.usage) || usage;
+          finishReason = chunk.choices?.[0]?.finish_reason || finishReason;
+        };
+
+        // Server-sent events; OpenRouter also interleaves ": keep-alive" comments
+        for await (const chunk of response.body as AsyncIterable<Buffer>) {
+          touch();
+          const text = chunk.toString('utf8');
+          if (!sawEvents && raw.length < 65536) raw += text;
+          buffer += text;
+          const lines = buffer.split('\n');
+          buffer = lines.pop() || '';
+          lines.forEach(line => handleLine(line.trim()));
+        }
+        handleLine(buffer.trim());
+
+        // Some errors come back as a plain JSON body instead of an event stream
+        if (!sawEvents) {
+          let data: any = null;
+          try {
+            data = JSON.parse(raw);
+          } catch {
+            // not JSON either
+          }
+          throw data?.error ? payloadError(name, data.error) : new UpstreamError(name, `${name} returned an empty stream`);
+        }
+
+        return { content, model, provider: name, usage, finishReason };
+      }, { upstream: upstreamFor(request), signal: request.signal, canRetry: () => !emitted });
+    }
+  };
+};
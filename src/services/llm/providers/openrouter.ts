@@ -0,0 +1,27 @@
+import { LLMProvider } from '../types';
+import { createOpenAICompatibleProvider } from './openaiCompatible';
+
+export interface OpenRouterOptions {
+  apiKey?: string;
+  referer?: string;
+  title?: string;
+  organization?: string;
+}
+
+export const createOpenRouterProvider = (options: OpenRouterOptions = {}): LLMProvider => {
+  const headers: Record<string, string> = {
+    'HTTP-Referer': options.referer || 'https://resego-ai-frontend-3.vercel.app',
+    'X-Title': options.title || 'Resego AI'
+  };
+
+  if (options.organization) {
+    headers['OpenAI-Organization'] = options.organization;
+  }
+
+  return createOpenAICompatibleProvider({
+    name: 'openrouter',
+    baseUrl: 'https://openrouter.ai/api/v1',
+    apiKey: options.apiKey,
+    headers
+  });
+};
@@ -0,0 +1,79 @@
+// Minimal schemas for structured model output: `validate` lists problems,
+// `coerce` salvages whatever is usable into a well-formed value.
+export interface Schema<T> {
+  // Shape shown to the model when asking it to repair its output
+  describe(): string;
+  validate(value: unknown, path?: string): string[];
+  coerce(value: unknown): T;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+export const string = (options: { minLength?: number; maxLength?: number } = {}): Schema<string> => ({
+  describe: () => 'string',
+  validate(value, path = '$') {
+    if (typeof value !== 'string') return [`${path} must be a string`];
+    const length = value.trim().length;
+    if (options.minLength !== undefined && length < options.minLength) {
+      return [`${path} must not be empty`];
+    }
+    return [];
+  },
+  coerce(value) {
+    if (typeof value !== 'string' && typeof value !== 'number') return '';
+    const text = String(value).trim();
+    return options.maxLength !== undefined ? text.slice(0, options.maxLength) : text;
+  }
+});
+
+// Accepts numeric strings too ("3"), which models emit about as often as numbers
+export const integer = (): Schema<number> => ({
+  describe: () => 'integer',
+  validate(value, path = '$') {
+    const parsed = typeof value === 'string' ? Number(value.trim()) : value;
+    return typeof parsed === 'number' && Number.isInteger(parsed) ? [] : [`${path} must be an integer`];
+  },
+  coerce(value) {
+    const parsed = typeof value === 'string' ? Number(value.trim()) : value;
+    return typeof parsed === 'number' && Number.isInteger(parsed) ? parsed : 0;
+  }
+});
+
+export const array = <T>(item: Schema<T>, options: { minItems?: number; maxItems?: number } = {}): Schema<T[]> => ({
+  describe: () => `[${item.describe()}, ...]`,
+  validate(value, path = '$') {
+    if (!Array.isArray(value)) return [`${path} must be an array`];
+    const errors = value.flatMap((entry, index) => item.validate(entry, `${path}[${index}]`));
+    if (options.minItems !== undefined && value.length < options.minItems) {
+      errors.push(`${path} must have at least ${options.minItems} item(s)`);
+    }
+    if (options.maxItems !== undefined && value.length > options.maxItems) {
+      errors.push(`${path} must have at most ${options.maxItems} items`);
+    }
+    return errors;
+  },
+  coerce(value) {
+    if (!Array.isArray(value)) return [];
+    // Invalid entries are dropped rather than patched
+    const items = value.filter(entry => item.validate(entry).length === 0).map(entry => item.coerce(entry));
+    return options.maxItems !== undefined ? items.slice(0, options.maxItems) : items;
+  }
+});
+
+export const object = <Shape extends Record<string, Schema<any>>>(shape: Shape): Schema<{ [K in keyof Shape]: Infer<Shape[K]> }> => ({
+  describe: () => `{ ${Object.entries(shape).map(([key, schema]) => `"${key}": ${schema.describe()}`).join(', ')} }`,
+  validate(value, path = '$') {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return [`${path} must be an object`];
+    return Object.entries(shape).flatMap(([key, schema]) =>
+      schema.validate((value as Record<string, unknown>)[key], `${path}.${key}`)
+    );
+  },
+  coerce(value) {
+    const source = value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+    const result = {} as { [K in keyof Shape]: Infer<Shape[K]> };
+    for (const key of Object.keys(shape) as (keyof Shape)[]) {
+      result[key] = shape[key].coerce(source[key as string]);
+    }
+    return result;
+  }
+});
@@ -0,0 +1,77 @@
+import { complete, CompleteOptions } from './client';
+import { LLMTask } from './config';
+import { extractJson } from './extract';
+import { Schema } from './schema';
+import { ChatMessage } from './types';
+import { logger } from '../observability';
+
+// valid: first answer passed; repaired: passed after one repair round; partial: salvaged or fallback
+export type StructuredStatus = 'valid' | 'repaired' | 'partial';
+
+export interface StructuredResult<T> {
+  value: T;
+  status: StructuredStatus;
+  errors: string[];
+}
+
+const check = <T>(schema: Schema<T>, content: string) => {
+  const extracted = extractJson(content);
+  if (!extracted) return { extracted, errors: ['response did not contain JSON'] };
+  return { extracted, errors: schema.validate(extracted.value) };
+};
+
+// Asks for JSON, validates it against the schema, gives the model one chance to repair it,
+// and otherwise returns the salvageable parts over `fallback` so callers always get a usable shape.
+export const completeStructured = async <T>(
+  task: LLMTask,
+  prompt: string,
+  schema: Schema<T>,
+  fallback: T,
+  options: CompleteOptions = {}
+): Promise<StructuredResult<T>> => {
+  const messages: ChatMessage[] = [{ role: 'user', content: prompt }];
+  const first = await complete(task, messages, options);
+  const firstCheck = check(schema, first.content);
+  if (firstCheck.errors.length === 0) {
+    return { value: schema.coerce(firstCheck.extracted!.value), status: 'valid', errors: [] };
+  }
+
+  let best = firstCheck;
+  try {
+    const repair = await complete(task, [
+      ...messages,
+      { role: 'assistant', content: first.content },
+      {
+        role: 'user',
+        content: `Your reply was not valid JSON for the requested format:\n- ${firstCheck.errors.slice(0, 10).join('\n- ')}\n\n` +
+          `Reply again with only a JSON value of this shape, no markdown or commentary:\n${schema.describe()}`
+      }
+    ], { ...options, cache: false });
+
+    const repairCheck = check(schema, repair.content);
+    if (repairCheck.errors.length === 0) {
+      return { value: schema.coerce(repairCheck.extracted!.value), status: 'repaired', errors: firstCheck.errors };
+    }
+    if (repairCheck.extracted) best = repairCheck;
+  } catch (error) {
+    if (options.signal?.aborted) throw error;
+    logger.error(`Structured output repair failed for ${task}`, error);
+  }
+
+  const salvaged = best.extracted ? schema.coerce(best.extracted.value) : fallback;
+  return { value: mergeFallback(salvaged, fallback), status: 'partial', errors: best.errors };
+};
+
+// Empty strings and arrays in the salvaged value are filled from the fallback
+const mergeFallback = <T>(value: T, fallback: T): T => {
+  if (Array.isArray(value)) return (value.length > 0 ? value : fallback) as T;
+  if (typeof value === 'string') return (value || fallback) as T;
+  if (value && typeof value === 'object' && fallback && typeof fallback === 'object') {
+    const merged: Record<string, unknown> = { ...(value as Record<string, unknown>) };
+    for (const key of Object.keys(fallback)) {
+      merged[key] = mergeFallback((value as any)[key], (fallback as any)[key]);
+    }
+    return merged as T;
+  }
+  return value ?? fallback;
+};
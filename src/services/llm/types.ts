@@ -0,0 +1,36 @@
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatCompletionRequest {
+  model: string;
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  signal?: AbortSignal;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface ChatCompletionResult {
+  content: string;
+  model: string;
+  provider: string;
+  usage?: TokenUsage;
+  // 'length' means the completion hit maxTokens and was cut off
+  finishReason?: string;
+}
+
+export type TokenHandler = (token: string) => void;
+
+export interface LLMProvider {
+  name: string;
+  complete(request: ChatCompletionRequest): Promise<ChatCompletionResult>;
+  // Calls onToken for every content delta and resolves with the full completion
+  stream(request: ChatCompletionRequest, onToken: TokenHandler): Promise<ChatCompletionResult>;
+}
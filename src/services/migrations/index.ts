@@ -0,0 +1,122 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { PoolClient } from 'pg';
+import { getPool } from '../db';
+
+export interface Migration {
+  version: number;
+  name: string;
+  sql: string;
+  checksum: string;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  appliedAt: string | null;
+}
+
+// Same directory from src/ (ts-node) and dist/ (compiled)
+const MIGRATIONS_DIR = process.env.MIGRATIONS_DIR || path.resolve(__dirname, '../../../db/migrations');
+// Files are named <version>_<name>.sql, e.g. 0002_reports.sql
+const FILE_PATTERN = /^(\d+)_([\w-]+)\.sql$/;
+// Arbitrary key so concurrent runners (several instances starting at once) wait for each other
+const LOCK_KEY = 720_461_133;
+
+// 0002_reports
+export const migrationLabel = ({ version, name }: { version: number; name: string }) =>
+  `${String(version).padStart(4, '0')}_${name}`;
+
+export const loadMigrations = (dir = MIGRATIONS_DIR): Migration[] => {
+  const migrations = fs.readdirSync(dir)
+    .map(file => ({ file, match: FILE_PATTERN.exec(file) }))
+    .filter(({ match }) => match)
+    .map(({ file, match }) => {
+      const sql = fs.readFileSync(path.join(dir, file), 'utf8');
+      return {
+        version: Number(match![1]),
+        name: match![2],
+        sql,
+        checksum: crypto.createHash('sha256').update(sql).digest('hex')
+      };
+    })
+    .sort((a, b) => a.version - b.version);
+
+  const duplicate = migrations.find((migration, i) => i > 0 && migrations[i - 1].version === migration.version);
+  if (duplicate) throw new Error(`Duplicate migration version ${duplicate.version}`);
+  return migrations;
+};
+
+const ensureMigrationsTable = (client: PoolClient) => client.query(`
+  CREATE TABLE IF NOT EXISTS schema_migrations (
+    version INTEGER PRIMARY KEY,
+    name TEXT NOT NULL,
+    checksum TEXT NOT NULL,
+    applied_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP
+  )
+`);
+
+const appliedMigrations = async (client: PoolClient) => {
+  const { rows } = await client.query('SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version');
+  return new Map<number, { name: string; checksum: string; applied_at: Date }>(rows.map(row => [row.version, row]));
+};
+
+// Applies pending migrations in order, each in its own transaction. An applied migration
+// whose file changed afterwards stops the run: fix it with a new migration instead.
+export const runMigrations = async (options: { dir?: string; log?: (message: string) => void } = {}): Promise<number[]> => {
+  const log = options.log || console.log;
+  const migrations = loadMigrations(options.dir);
+  const client = await getPool().connect();
+
+  try {
+    await client.query('SELECT pg_advisory_lock($1)', [LOCK_KEY]);
+    await ensureMigrationsTable(client);
+    const applied = await appliedMigrations(client);
+
+    for (const migration of migrations) {
+      const existing = applied.get(migration.version);
+      if (existing && existing.checksum !== migration.checksum) {
+        throw new Error(`Migration ${migrationLabel(migration)} was changed after it was applied`);
+      }
+    }
+
+    const ran: number[] = [];
+    for (const migration of migrations.filter(m => !applied.has(m.version))) {
+      try {
+        await client.query('BEGIN');
+        await client.query(migration.sql);
+        await client.query(
+          'INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)',
+          [migration.version, migration.name, migration.checksum]
+        );
+        await client.query('COMMIT');
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw new Error(`Migration ${migrationLabel(migration)} failed: ${(error as Error).message}`);
+      }
+      log(`Applied migration ${migrationLabel(migration)}`);
+      ran.push(migration.version);
+    }
+    return ran;
+  } finally {
+    await client.query('SELECT pg_advisory_unlock($1)', [LOCK_KEY]).catch(() => undefined);
+    client.release();
+  }
+};
+
+export const migrationStatus = async (dir?: string): Promise<MigrationStatus[]> => {
+  const migrations = loadMigrations(dir);
+  const client = await getPool().connect();
+  try {
+    await ensureMigrationsTable(client);
+    const applied = await appliedMigrations(client);
+    return migrations.map(({ version, name }) => ({
+      version,
+      name,
+      appliedAt: applied.get(version)?.applied_at.toISOString() || null
+    }));
+  } finally {
+    client.release();
+  }
+};
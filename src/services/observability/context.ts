@@ -0,0 +1,23 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+export interface RequestContext {
+  requestId: string;
+  method?: string;
+  path?: string;
+  // Filled in by the auth middleware once the caller is known
+  userId?: string;
+}
+
+const requestContext = new AsyncLocalStorage<RequestContext>();
+
+export const runWithRequestContext = <T>(context: RequestContext, fn: () => T): T =>
+  requestContext.run(context, fn);
+
+export const getRequestContext = (): RequestContext | undefined => requestContext.getStore();
+
+export const getRequestId = () => requestContext.getStore()?.requestId;
+
+export const setRequestUser = (userId: string) => {
+  const context = requestContext.getStore();
+  if (context) context.userId = userId;
+};
@@ -0,0 +1,15 @@
+export { getRequestContext, getRequestId, runWithRequestContext, setRequestUser } from './context';
+export type { RequestContext } from './context';
+export { logger } from './logger';
+export type { LogLevel } from './logger';
+export {
+  httpRequestDuration,
+  httpRequests,
+  llmTokens,
+  promptInjectionFlags,
+  recordUpstreamCall,
+  renderMetrics,
+  upstreamRequestDuration,
+  upstreamRequests
+} from './metrics';
+export type { UpstreamOutcome } from './metrics';
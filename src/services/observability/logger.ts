@@ -0,0 +1,53 @@
+import { getRequestContext } from './context';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+const minimumLevel = (): number => LEVELS[process.env.LOG_LEVEL as LogLevel] ?? LEVELS.info;
+
+const serializeError = (error: Error): Record<string, unknown> => ({
+  name: error.name,
+  message: error.message,
+  ...((error as { status?: unknown }).status !== undefined ? { status: (error as { status?: unknown }).status } : {}),
+  stack: error.stack
+});
+
+// The second argument mirrors console.error(message, detail): an Error, extra fields, or any value
+const detailFields = (detail: unknown): Record<string, unknown> => {
+  if (detail === undefined) return {};
+  if (detail instanceof Error) return { error: serializeError(detail) };
+  if (detail && typeof detail === 'object' && !Array.isArray(detail)) {
+    return Object.fromEntries(Object.entries(detail).map(([key, value]) =>
+      [key, value instanceof Error ? serializeError(value) : value]));
+  }
+  return { detail };
+};
+
+// One JSON object per line, tagged with the current request's id, user and route
+const write = (level: LogLevel, message: string, detail?: unknown) => {
+  if (LEVELS[level] < minimumLevel()) return;
+  const context = getRequestContext();
+  const entry = {
+    time: new Date().toISOString(),
+    level,
+    msg: message,
+    ...(context ? { requestId: context.requestId, userId: context.userId, method: context.method, path: context.path } : {}),
+    ...detailFields(detail)
+  };
+
+  let line: string;
+  try {
+    line = JSON.stringify(entry);
+  } catch {
+    line = JSON.stringify({ time: entry.time, level, msg: message, detail: String(detail) });
+  }
+  (level === 'error' || level === 'warn' ? process.stderr : process.stdout).write(`${line}\n`);
+};
+
+export const logger = {
+  debug: (message: string, detail?: unknown) => write('debug', message, detail),
+  info: (message: string, detail?: unknown) => write('info', message, detail),
+  warn: (message: string, detail?: unknown) => write('warn', message, detail),
+  error: (message: string, detail?: unknown) => write('error', message, detail)
+};
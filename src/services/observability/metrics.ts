@@ -0,0 +1,103 @@
+type Labels = Record<string, string>;
+
+interface Metric {
+  render(): string[];
+}
+
+const escapeLabel = (value: string) => value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+
+const formatLabels = (labels: Labels) => {
+  const entries = Object.entries(labels);
+  return entries.length ? `{${entries.map(([key, value]) => `${key}="${escapeLabel(value)}"`).join(',')}}` : '';
+};
+
+const labelKey = (labels: Labels) => JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+
+const metrics: Metric[] = [];
+
+class Counter implements Metric {
+  private values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(private name: string, private help: string) {
+    metrics.push(this);
+  }
+
+  inc(labels: Labels = {}, amount = 1) {
+    const key = labelKey(labels);
+    const entry = this.values.get(key) || { labels, value: 0 };
+    entry.value += amount;
+    this.values.set(key, entry);
+  }
+
+  render() {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} counter`,
+      ...Array.from(this.values.values()).map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`)
+    ];
+  }
+}
+
+class Histogram implements Metric {
+  private values = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+  constructor(private name: string, private help: string, private buckets: number[]) {
+    metrics.push(this);
+  }
+
+  observe(labels: Labels, value: number) {
+    const key = labelKey(labels);
+    const entry = this.values.get(key) || { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) entry.counts[i]++;
+    });
+    entry.sum += value;
+    entry.count++;
+    this.values.set(key, entry);
+  }
+
+  render() {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    this.values.forEach(({ labels, counts, sum, count }) => {
+      this.buckets.forEach((bound, i) => lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${counts[i]}`));
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    });
+    return lines;
+  }
+}
+
+class Gauge implements Metric {
+  constructor(private name: string, private help: string, private read: () => number) {
+    metrics.push(this);
+  }
+
+  render() {
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} gauge`, `${this.name} ${this.read()}`];
+  }
+}
+
+// Report generation runs for minutes, so the buckets reach well past typical API latencies
+const LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300];
+
+export const httpRequests = new Counter('http_requests_total', 'HTTP requests by method, route and status');
+export const httpRequestDuration = new Histogram('http_request_duration_seconds', 'HTTP request latency by method and route', LATENCY_BUCKETS);
+export const upstreamRequests = new Counter('upstream_requests_total', 'Calls to upstream services by upstream and outcome');
+export const upstreamRequestDuration = new Histogram('upstream_request_duration_seconds', 'Upstream call latency per attempt', LATENCY_BUCKETS);
+export const llmTokens = new Counter('llm_tokens_total', 'LLM tokens by provider, model and type (prompt or completion)');
+export const promptInjectionFlags = new Counter('prompt_injection_flags_total', 'Inputs flagged as possible prompt injection by source');
+
+new Gauge('process_uptime_seconds', 'Seconds since the process started', () => Math.round(process.uptime()));
+new Gauge('process_resident_memory_bytes', 'Resident set size', () => process.memoryUsage().rss);
+new Gauge('nodejs_heap_used_bytes', 'V8 heap in use', () => process.memoryUsage().heapUsed);
+
+export type UpstreamOutcome = 'success' | 'error' | 'timeout' | 'rejected';
+
+export const recordUpstreamCall = (upstream: string, outcome: UpstreamOutcome, seconds?: number) => {
+  upstreamRequests.inc({ upstream, outcome });
+  if (seconds !== undefined) upstreamRequestDuration.observe({ upstream }, seconds);
+};
+
+// Prometheus text exposition format
+export const renderMetrics = () => `${metrics.flatMap(metric => metric.render()).join('\n')}\n`;
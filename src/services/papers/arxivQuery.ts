@@ -0,0 +1,164 @@
+export type ArxivField = 'all' | 'ti' | 'au' | 'abs' | 'cat' | 'co' | 'jr';
+export type BooleanOperator = 'AND' | 'OR' | 'ANDNOT';
+export type ArxivSortBy = 'relevance' | 'lastUpdatedDate' | 'submittedDate';
+export type ArxivSortOrder = 'ascending' | 'descending';
+
+export interface ArxivQueryClause {
+  field: ArxivField;
+  value: string;
+  // How this clause joins the ones before it; defaults to AND
+  operator?: BooleanOperator;
+}
+
+export interface ArxivSearchQuery {
+  text?: string;
+  title?: string;
+  author?: string;
+  abstract?: string;
+  // Any of these categories (OR), e.g. ['cs.CL', 'cs.AI']
+  categories?: string[];
+  clauses?: ArxivQueryClause[];
+  // YYYY-MM-DD, inclusive
+  submittedFrom?: string;
+  submittedTo?: string;
+  sortBy?: ArxivSortBy;
+  sortOrder?: ArxivSortOrder;
+}
+
+const FIELDS: ArxivField[] = ['all', 'ti', 'au', 'abs', 'cat', 'co', 'jr'];
+const OPERATORS: BooleanOperator[] = ['AND', 'OR', 'ANDNOT'];
+const SORT_BY: ArxivSortBy[] = ['relevance', 'lastUpdatedDate', 'submittedDate'];
+const SORT_ORDER: ArxivSortOrder[] = ['ascending', 'descending'];
+const CATEGORY_PATTERN = /^[a-z-]+(\.[A-Za-z-]+)?$/;
+const DATE_PATTERN = /^(\d{4})-?(\d{2})-?(\d{2})$/;
+
+// Quotes and parentheses would break out of the term, so drop them
+const sanitizeValue = (value: string) => value.replace(/["()]/g, ' ').replace(/\s+/g, ' ').trim();
+
+const term = (field: ArxivField, value: string) => {
+  const clean = sanitizeValue(value);
+  return /\s/.test(clean) ? `${field}:"${clean}"` : `${field}:${clean}`;
+};
+
+const toArxivDate = (date: string, endOfDay: boolean) => {
+  const [, year, month, day] = date.match(DATE_PATTERN)!;
+  return `${year}${month}${day}${endOfDay ? '2359' : '0000'}`;
+};
+
+export const buildArxivSearchQuery = (query: ArxivSearchQuery): string => {
+  const parts: string[] = [];
+
+  if (query.text) parts.push(`all:${query.text.trim()}`);
+  if (query.title) parts.push(term('ti', query.title));
+  if (query.author) parts.push(term('au', query.author));
+  if (query.abstract) parts.push(term('abs', query.abstract));
+
+  if (query.categories && query.categories.length > 0) {
+    const categories = query.categories.map(category => `cat:${category}`);
+    parts.push(categories.length === 1 ? categories[0] : `(${categories.join(' OR ')})`);
+  }
+
+  if (query.clauses && query.clauses.length > 0) {
+    const chain = query.clauses.reduce((acc, clause, i) => {
+      const current = term(clause.field, clause.value);
+      return i === 0 ? current : `${acc} ${clause.operator || 'AND'} ${current}`;
+    }, '');
+    parts.push(query.clauses.length === 1 ? chain : `(${chain})`);
+  }
+
+  if (query.submittedFrom || query.submittedTo) {
+    const from = query.submittedFrom ? toArxivDate(query.submittedFrom, false) : '000000000000';
+    const to = query.submittedTo ? toArxivDate(query.submittedTo, true) : '999912312359';
+    parts.push(`submittedDate:[${from} TO ${to}]`);
+  }
+
+  return parts.join(' AND ');
+};
+
+// Plain-text rendering for sources without arXiv's query syntax
+export const arxivQueryToText = (query: ArxivSearchQuery): string =>
+  [
+    query.text,
+    query.title,
+    query.author,
+    query.abstract,
+    ...(query.clauses || []).filter(c => c.operator !== 'ANDNOT' && c.field !== 'cat').map(c => c.value)
+  ].filter(Boolean).join(' ').trim();
+
+const optionalString = (body: any, key: string): string | undefined => {
+  const value = body[key];
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value !== 'string') throw new Error(`${key} must be a string`);
+  return value.trim() || undefined;
+};
+
+const oneOf = <T extends string>(body: any, key: string, allowed: T[]): T | undefined => {
+  const value = optionalString(body, key);
+  if (value === undefined) return undefined;
+  if (!allowed.includes(value as T)) {
+    throw new Error(`${key} must be one of: ${allowed.join(', ')}`);
+  }
+  return value as T;
+};
+
+const date = (body: any, key: string): string | undefined => {
+  const value = optionalString(body, key);
+  if (value === undefined) return undefined;
+  const match = value.match(DATE_PATTERN);
+  if (!match || Number.isNaN(Date.parse(`${match[1]}-${match[2]}-${match[3]}`))) {
+    throw new Error(`${key} must be a date in YYYY-MM-DD format`);
+  }
+  return value;
+};
+
+// Validates a request body; throws with a client-facing message on bad input
+export const parseArxivSearchQuery = (body: any): ArxivSearchQuery => {
+  const query: ArxivSearchQuery = {
+    text: optionalString(body, 'query'),
+    title: optionalString(body, 'title'),
+    author: optionalString(body, 'author'),
+    abstract: optionalString(body, 'abstract'),
+    submittedFrom: date(body, 'submittedFrom'),
+    submittedTo: date(body, 'submittedTo'),
+    sortBy: oneOf(body, 'sortBy', SORT_BY),
+    sortOrder: oneOf(body, 'sortOrder', SORT_ORDER)
+  };
+
+  if (body.categories !== undefined && body.categories !== null && body.categories !== '') {
+    const categories = (Array.isArray(body.categories) ? body.categories : String(body.categories).split(','))
+      .map((category: unknown) => String(category).trim())
+      .filter(Boolean);
+    const invalid = categories.filter((category: string) => !CATEGORY_PATTERN.test(category));
+    if (invalid.length > 0) {
+      throw new Error(`Invalid arXiv category: ${invalid.join(', ')}`);
+    }
+    query.categories = categories;
+  }
+
+  if (body.clauses !== undefined) {
+    if (!Array.isArray(body.clauses)) throw new Error('clauses must be an array');
+    query.clauses = body.clauses.map((clause: any, i: number) => {
+      if (!clause || !FIELDS.includes(clause.field)) {
+        throw new Error(`clauses[${i}].field must be one of: ${FIELDS.join(', ')}`);
+      }
+      if (typeof clause.value !== 'string' || !sanitizeValue(clause.value)) {
+        throw new Error(`clauses[${i}].value is required`);
+      }
+      if (clause.operator !== undefined && !OPERATORS.includes(clause.operator)) {
+        throw new Error(`clauses[${i}].operator must be one of: ${OPERATORS.join(', ')}`);
+      }
+      return { field: clause.field, value: clause.value, operator: clause.operator };
+    });
+  }
+
+  if (query.submittedFrom && query.submittedTo &&
+      toArxivDate(query.submittedFrom, false) > toArxivDate(query.submittedTo, true)) {
+    throw new Error('submittedFrom must be before submittedTo');
+  }
+
+  return query;
+};
+
+export const hasSearchTerms = (query: ArxivSearchQuery) =>
+  Boolean(query.text || query.title || query.author || query.abstract ||
+    query.categories?.length || query.clauses?.length);
@@ -0,0 +1,59 @@
+import { Paper } from './types';
+
+export const normalizeTitle = (title: string) =>
+  title.toLowerCase().normalize('NFKD').replace(/[^a-z0-9]+/g, ' ').trim();
+
+export const paperKeys = (paper: Paper): string[] => {
+  const keys: string[] = [];
+  if (paper.doi) keys.push(`doi:${paper.doi.toLowerCase()}`);
+  if (paper.arxivId) keys.push(`arxiv:${paper.arxivId.replace(/v\d+$/, '').toLowerCase()}`);
+  const title = normalizeTitle(paper.title);
+  if (title) keys.push(`title:${title}`);
+  return keys;
+};
+
+// Stable identity for per-paper caches: arXiv ID, then DOI, PubMed ID, title
+export const paperIdentity = (paper: Paper): string => {
+  if (paper.arxivId) return `arxiv:${paper.arxivId.replace(/v\d+$/, '').toLowerCase()}`;
+  if (paper.doi) return `doi:${paper.doi.toLowerCase()}`;
+  if (paper.pmid) return `pmid:${paper.pmid}`;
+  return `title:${normalizeTitle(paper.title)}`;
+};
+
+// Fill gaps in the first-seen record with whatever the duplicate knows
+const mergePapers = (target: Paper, duplicate: Paper): Paper => {
+  const merged: Paper = { ...target };
+  for (const [key, value] of Object.entries(duplicate) as [keyof Paper, any][]) {
+    if (merged[key] === undefined || merged[key] === '' ||
+        (Array.isArray(merged[key]) && (merged[key] as unknown[]).length === 0)) {
+      (merged as any)[key] = value;
+    }
+  }
+
+  merged.sources = Array.from(new Set([
+    ...(target.sources || [target.source]),
+    ...(duplicate.sources || [duplicate.source])
+  ]));
+  return merged;
+};
+
+// Papers match when they share a DOI, an arXiv ID (any version) or a normalized title
+export const dedupePapers = (papers: Paper[]): Paper[] => {
+  const result: Paper[] = [];
+  const indexByKey = new Map<string, number>();
+
+  for (const paper of papers) {
+    const keys = paperKeys(paper);
+    const existing = keys.map(key => indexByKey.get(key)).find(index => index !== undefined);
+
+    if (existing === undefined) {
+      const index = result.push({ ...paper, sources: paper.sources || [paper.source] }) - 1;
+      keys.forEach(key => indexByKey.set(key, index));
+    } else {
+      result[existing] = mergePapers(result[existing], paper);
+      paperKeys(result[existing]).forEach(key => indexByKey.set(key, existing));
+    }
+  }
+
+  return result;
+};
@@ -0,0 +1,25 @@
+import { Paper } from './types';
+
+export interface FacetBucket<T> {
+  value: T;
+  count: number;
+}
+
+export interface PaperFacets {
+  years: FacetBucket<number>[];
+  categories: FacetBucket<string>[];
+}
+
+const countBy = <T>(values: T[]): FacetBucket<T>[] => {
+  const counts = new Map<T, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+  return Array.from(counts, ([value, count]) => ({ value, count }));
+};
+
+// Years newest first; categories by frequency (primary and secondary both count)
+export const computeFacets = (papers: Paper[]): PaperFacets => ({
+  years: countBy(papers.map(p => p.year).filter((year): year is number => year !== undefined))
+    .sort((a, b) => b.value - a.value),
+  categories: countBy(papers.flatMap(p => p.categories || []))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value))
+});
@@ -0,0 +1,11 @@
+import { Paper } from './types';
+
+// One-line metadata summary used when papers are handed to a prompt
+export const formatPaperMetadata = (paper: Paper): string =>
+  [
+    paper.publishedAt ? `Published: ${paper.publishedAt.slice(0, 10)}` : paper.year ? `Year: ${paper.year}` : '',
+    paper.arxivId ? `arXiv: ${paper.arxivId}${paper.arxivVersion ? `v${paper.arxivVersion}` : ''}` : '',
+    paper.primaryCategory ? `Category: ${paper.primaryCategory}` : '',
+    paper.doi ? `DOI: ${paper.doi}` : '',
+    paper.journalRef ? `Journal: ${paper.journalRef}` : paper.venue ? `Venue: ${paper.venue}` : ''
+  ].filter(Boolean).join(' | ');
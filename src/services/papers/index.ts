@@ -0,0 +1,231 @@
+import { Paper, PaperSource, PaperSourceName } from './types';
+import { arxivSource } from './sources/arxiv';
+import { semanticScholarSource } from './sources/semanticScholar';
+import { pubmedSource } from './sources/pubmed';
+import { crossrefSource } from './sources/crossref';
+import { dedupePapers, paperKeys } from './dedupe';
+import { rerankPapers } from './rerank';
+import { ArxivSearchQuery } from './arxivQuery';
+import { cached } from '../cache';
+import { logger } from '../observability';
+
+export type { Paper, PaperAuthor, PaperSource, PaperSourceName, RelevanceScore } from './types';
+export { computeFacets } from './facets';
+export type { PaperFacets, FacetBucket } from './facets';
+export { formatPaperMetadata } from './format';
+export { dedupePapers, normalizeTitle, paperIdentity } from './dedupe';
+export { rerankPapers } from './rerank';
+export { parseArxivSearchQuery, buildArxivSearchQuery, arxivQueryToText, hasSearchTerms } from './arxivQuery';
+export type { ArxivSearchQuery, ArxivQueryClause } from './arxivQuery';
+
+const SOURCES: Record<PaperSourceName, PaperSource> = {
+  arxiv: arxivSource,
+  semanticScholar: semanticScholarSource,
+  pubmed: pubmedSource,
+  crossref: crossrefSource
+};
+
+export const PAPER_SOURCES = Object.keys(SOURCES) as PaperSourceName[];
+export const DEFAULT_SOURCES: PaperSourceName[] = ['arxiv'];
+
+// Validates the `sources` request parameter; accepts an array or a comma-separated string
+export const resolveSources = (input: unknown): PaperSourceName[] => {
+  if (input === undefined || input === null || input === '') return DEFAULT_SOURCES;
+
+  const names = (Array.isArray(input) ? input : String(input).split(','))
+    .map(name => String(name).trim())
+    .filter(Boolean);
+
+  const unknown = names.filter(name => !(name in SOURCES));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown paper source(s): ${unknown.join(', ')}. Available: ${PAPER_SOURCES.join(', ')}`);
+  }
+
+  return names.length > 0 ? Array.from(new Set(names)) as PaperSourceName[] : DEFAULT_SOURCES;
+};
+
+// Round-robin so every source is represented when results are truncated
+const interleave = (lists: Paper[][]): Paper[] => {
+  const result: Paper[] = [];
+  const longest = Math.max(0, ...lists.map(list => list.length));
+  for (let i = 0; i < longest; i++) {
+    lists.forEach(list => {
+      if (i < list.length) result.push(list[i]);
+    });
+  }
+  return result;
+};
+
+export interface PaperSearchOptions {
+  sources?: PaperSourceName[];
+  limit: number;
+  cursor?: string;
+  arxivQuery?: ArxivSearchQuery;
+  // Rerank a larger candidate pool locally; defaults to on unless a date sort was requested
+  rerank?: boolean;
+}
+
+export interface PaperSearchPage {
+  papers: Paper[];
+  totalResults: number;
+  totalsBySource: Partial<Record<PaperSourceName, number>>;
+  nextCursor: string | null;
+}
+
+// Where a source continues: its first position not yet returned, plus any later positions
+// that were already returned (reranking picks papers from anywhere in the pool)
+export interface SourceCursor {
+  offset: number;
+  skip: number[];
+}
+
+type CursorOffsets = Partial<Record<PaperSourceName, SourceCursor>>;
+
+// Bounds both the cursor size and how many extra results a source is asked for
+const MAX_CURSOR_SKIP = 50;
+
+const isOffset = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+// Opaque to clients. A source with nothing to skip is stored as its bare offset.
+const encodeCursor = (offsets: CursorOffsets) =>
+  Buffer.from(JSON.stringify(Object.fromEntries(Object.entries(offsets).map(([name, cursor]) =>
+    [name, cursor!.skip.length > 0 ? cursor : cursor!.offset]
+  )))).toString('base64url');
+
+export const decodeCursor = (cursor: string): CursorOffsets => {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) throw new Error();
+    const offsets: CursorOffsets = {};
+    for (const [name, value] of Object.entries(parsed) as [string, any][]) {
+      if (!(name in SOURCES)) throw new Error();
+      const source = isOffset(value) ? { offset: value, skip: [] } : value;
+      if (!source || !isOffset(source.offset) || !Array.isArray(source.skip) || source.skip.length > MAX_CURSOR_SKIP ||
+          !source.skip.every((position: unknown) => isOffset(position) && position > source.offset)) {
+        throw new Error();
+      }
+      offsets[name as PaperSourceName] = { offset: source.offset, skip: source.skip };
+    }
+    return offsets;
+  } catch {
+    throw new Error('Invalid cursor');
+  }
+};
+
+// Advances past the fetched positions that have now been returned (or were before), stopping
+// at the first one that hasn't, so candidates the reranker passed over stay reachable. When a
+// few low-ranked candidates hold the offset back for too long, the oldest are given up on.
+export const nextSourceCursor = (from: SourceCursor, positions: number[], returned: Set<number>): SourceCursor => {
+  const done = new Set([...from.skip, ...returned]);
+  const fetched = new Set(positions);
+  const end = Math.max(from.offset, ...positions.map(position => position + 1), ...from.skip.map(position => position + 1));
+  const advance = (offset: number) => {
+    while (offset < end && (done.has(offset) || !fetched.has(offset))) offset++;
+    return offset;
+  };
+  let offset = advance(from.offset);
+  let skip = Array.from(done).filter(position => position > offset && position < end).sort((a, b) => a - b);
+  if (skip.length > MAX_CURSOR_SKIP) {
+    offset = advance(skip[skip.length - MAX_CURSOR_SKIP - 1] + 1);
+    skip = skip.filter(position => position > offset);
+  }
+  return { offset, skip };
+};
+
+const MAX_POOL_SIZE = 50;
+
+const poolFactor = () => {
+  const factor = Number(process.env.RERANK_POOL_FACTOR);
+  return Number.isFinite(factor) && factor >= 1 ? factor : 3;
+};
+
+const shouldRerank = (options: PaperSearchOptions) =>
+  options.rerank ?? (!options.arxivQuery?.sortBy || options.arxivQuery.sortBy === 'relevance');
+
+export const searchPaperPage = async (query: string, options: PaperSearchOptions): Promise<PaperSearchPage> => {
+  const offsets = options.cursor ? decodeCursor(options.cursor) : undefined;
+  // With a cursor, only sources that still had results are queried again
+  const sources = (options.sources || DEFAULT_SOURCES).filter(name => !offsets || offsets[name] !== undefined);
+
+  const normalizedQuery = query.trim().replace(/\s+/g, ' ').toLowerCase();
+  const rerank = shouldRerank(options) && normalizedQuery !== '';
+  // Each source returns a larger pool that is reranked down to one page; the cursor only moves
+  // past the papers that made it onto a page
+  const fetchLimit = rerank
+    ? Math.max(options.limit, Math.min(MAX_POOL_SIZE, Math.ceil(options.limit * poolFactor())))
+    : options.limit;
+
+  const cursors = sources.map(name => offsets?.[name] || { offset: 0, skip: [] });
+  const results = await Promise.allSettled(
+    sources.map((name, i) => {
+      const searchOptions = {
+        // Positions returned on earlier pages are fetched again and dropped
+        limit: fetchLimit + cursors[i].skip.length,
+        offset: cursors[i].offset,
+        arxivQuery: options.arxivQuery
+      };
+      return cached('papers', { source: name, query: normalizedQuery, ...searchOptions },
+        () => SOURCES[name].search(query, searchOptions));
+    })
+  );
+
+  const fetched: { name: PaperSourceName; cursor: SourceCursor; entries: { position: number; paper: Paper }[]; totalResults?: number }[] = [];
+  const errors: string[] = [];
+  const totalsBySource: Partial<Record<PaperSourceName, number>> = {};
+
+  results.forEach((result, i) => {
+    const name = sources[i];
+    if (result.status === 'fulfilled') {
+      const { papers, totalResults } = result.value;
+      const skip = new Set(cursors[i].skip);
+      const entries = papers
+        .map((paper, index) => ({ position: cursors[i].offset + index, paper }))
+        .filter(entry => !skip.has(entry.position));
+      fetched.push({ name, cursor: cursors[i], entries, totalResults });
+      totalsBySource[name] = totalResults ?? papers.length;
+    } else {
+      logger.error(`Paper source ${name} error`, result.reason);
+      errors.push(result.reason instanceof Error ? result.reason.message : String(result.reason));
+    }
+  });
+
+  // Partial results are fine; only fail when every source failed
+  if (sources.length > 0 && fetched.length === 0) {
+    throw new Error(errors.join('; ') || 'Failed to fetch papers');
+  }
+
+  const candidates = dedupePapers(interleave(fetched.map(source => source.entries.map(entry => entry.paper))));
+  // Same page size as without reranking: up to `limit` papers per queried source
+  const papers = rerank ? rerankPapers(query, candidates, { limit: options.limit * sources.length }) : candidates;
+
+  // A fetched paper counts as returned when it, or a duplicate from another source, is on the page
+  const returnedKeys = new Set(papers.flatMap(paperKeys));
+  const nextOffsets: CursorOffsets = {};
+  fetched.forEach(({ name, cursor, entries, totalResults }) => {
+    const returned = new Set(entries
+      .filter(entry => paperKeys(entry.paper).some(key => returnedKeys.has(key)))
+      .map(entry => entry.position));
+    const next = nextSourceCursor(cursor, entries.map(entry => entry.position), returned);
+    if (entries.length > 0 && (totalResults === undefined || next.offset < totalResults)) {
+      nextOffsets[name] = next;
+    }
+  });
+
+  return {
+    papers,
+    totalResults: Object.values(totalsBySource).reduce((sum, total) => sum + (total || 0), 0),
+    totalsBySource,
+    nextCursor: Object.keys(nextOffsets).length > 0 ? encodeCursor(nextOffsets) : null
+  };
+};
+
+export interface FindPapersOptions {
+  sources?: PaperSourceName[];
+  limit: number;
+  rerank?: boolean;
+}
+
+export const findPapers = async (query: string, options: FindPapersOptions): Promise<Paper[]> => {
+  const { papers } = await searchPaperPage(query, options);
+  return papers.slice(0, options.limit);
+};
@@ -0,0 +1,171 @@
+import { Paper, RelevanceScore } from './types';
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'have', 'in', 'into', 'is', 'it',
+  'its', 'of', 'on', 'or', 'our', 'that', 'the', 'their', 'this', 'to', 'was', 'we', 'were', 'which', 'with',
+  'using', 'based', 'via', 'can', 'these', 'such', 'also', 'than', 'both', 'between', 'not', 'all', 'paper'
+]);
+
+// BM25 parameters; the title counts this many times against the abstract
+const K1 = 1.2;
+const B = 0.75;
+const TITLE_WEIGHT = 3;
+// Trade-off between relevance (1) and novelty (0) in the MMR pass
+const MMR_LAMBDA = 0.7;
+// Word-trigram overlap above which two papers are the same work (e.g. v1 and v2 of a preprint)
+const NEAR_DUPLICATE_THRESHOLD = 0.8;
+
+// Light suffix stripping so "networks"/"network" and "learning"/"learned" match
+const stem = (word: string) => {
+  if (word.length > 5 && word.endsWith('ing')) return word.slice(0, -3);
+  if (word.length > 4 && word.endsWith('ed')) return word.slice(0, -2);
+  if (word.length > 4 && word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+};
+
+export const tokenize = (text: string): string[] =>
+  text.toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length > 1 && !STOPWORDS.has(word))
+    .map(stem);
+
+const termCounts = (tokens: string[]) => {
+  const counts = new Map<string, number>();
+  tokens.forEach(token => counts.set(token, (counts.get(token) || 0) + 1));
+  return counts;
+};
+
+const documentTokens = (paper: Paper) => {
+  const title = tokenize(paper.title);
+  return [...Array.from({ length: TITLE_WEIGHT }, () => title).flat(), ...tokenize(paper.abstract)];
+};
+
+// Okapi BM25 with IDF taken over the candidate pool
+const bm25Scores = (queryTokens: string[], documents: string[][]): number[] => {
+  const counts = documents.map(termCounts);
+  const averageLength = documents.reduce((sum, doc) => sum + doc.length, 0) / Math.max(1, documents.length);
+  const terms = Array.from(new Set(queryTokens));
+
+  const idf = new Map(terms.map(term => {
+    const containing = counts.filter(doc => doc.has(term)).length;
+    return [term, Math.log(1 + (documents.length - containing + 0.5) / (containing + 0.5))];
+  }));
+
+  return counts.map((doc, i) => terms.reduce((score, term) => {
+    const frequency = doc.get(term) || 0;
+    if (frequency === 0) return score;
+    const norm = K1 * (1 - B + B * documents[i].length / (averageLength || 1));
+    return score + idf.get(term)! * frequency * (K1 + 1) / (frequency + norm);
+  }, 0));
+};
+
+const shingles = (tokens: string[]) => {
+  const set = new Set<string>();
+  for (let i = 0; i + 2 < tokens.length; i++) set.add(tokens.slice(i, i + 3).join(' '));
+  if (set.size === 0 && tokens.length > 0) set.add(tokens.join(' '));
+  return set;
+};
+
+const jaccard = (a: Set<string>, b: Set<string>) => {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(item => {
+    if (b.has(item)) shared++;
+  });
+  return shared / (a.size + b.size - shared);
+};
+
+// Unit-length TF-IDF vectors for the similarity term of MMR
+const tfidfVectors = (documents: string[][]) => {
+  const documentFrequency = new Map<string, number>();
+  documents.forEach(doc => new Set(doc).forEach(term => documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1)));
+
+  return documents.map(doc => {
+    const vector = new Map<string, number>();
+    termCounts(doc).forEach((count, term) => {
+      vector.set(term, count * Math.log(1 + documents.length / documentFrequency.get(term)!));
+    });
+    const length = Math.sqrt(Array.from(vector.values()).reduce((sum, value) => sum + value * value, 0)) || 1;
+    vector.forEach((value, term) => vector.set(term, value / length));
+    return vector;
+  });
+};
+
+const cosine = (a: Map<string, number>, b: Map<string, number>) => {
+  let sum = 0;
+  a.forEach((value, term) => {
+    sum += value * (b.get(term) || 0);
+  });
+  return sum;
+};
+
+const authorKeys = (paper: Paper) =>
+  new Set(paper.authors.map(author => author.toLowerCase().replace(/[^a-z ]/g, '').trim().split(' ').pop() || '').filter(Boolean));
+
+export interface RerankOptions {
+  limit: number;
+  lambda?: number;
+}
+
+// BM25 relevance over title and abstract, near-duplicate removal, then MMR so the page
+// isn't filled by one topic or one research group. Runs entirely in-process.
+export const rerankPapers = (query: string, candidates: Paper[], options: RerankOptions): Paper[] => {
+  if (candidates.length === 0) return [];
+  const lambda = options.lambda ?? MMR_LAMBDA;
+
+  const documents = candidates.map(documentTokens);
+  const bm25 = bm25Scores(tokenize(query), documents);
+  const best = Math.max(...bm25) || 1;
+  const relevance = bm25.map(score => score / best);
+
+  // Most relevant first, so near-duplicates keep their best-scoring copy
+  const order = candidates.map((_, i) => i).sort((a, b) => bm25[b] - bm25[a]);
+  const textShingles = documents.map(doc => shingles(doc));
+  const kept: number[] = [];
+  order.forEach(i => {
+    if (!kept.some(j => jaccard(textShingles[i], textShingles[j]) >= NEAR_DUPLICATE_THRESHOLD)) kept.push(i);
+  });
+
+  const vectors = tfidfVectors(documents);
+  const authors = candidates.map(authorKeys);
+  // Shared authors count as similarity so one group's papers don't crowd the page
+  const similarity = (i: number, j: number) => Math.max(cosine(vectors[i], vectors[j]), jaccard(authors[i], authors[j]));
+
+  const selected: { index: number; redundancy: number; mmr: number }[] = [];
+  const remaining = kept.filter(i => bm25[i] > 0);
+  while (selected.length < options.limit && remaining.length > 0) {
+    let bestPick = 0;
+    let bestScore = -Infinity;
+    let bestRedundancy = 0;
+    remaining.forEach((candidate, position) => {
+      const redundancy = selected.length === 0 ? 0 : Math.max(...selected.map(({ index }) => similarity(candidate, index)));
+      const score = lambda * relevance[candidate] - (1 - lambda) * redundancy;
+      if (score > bestScore) {
+        bestPick = position;
+        bestScore = score;
+        bestRedundancy = redundancy;
+      }
+    });
+    const [index] = remaining.splice(bestPick, 1);
+    selected.push({ index, redundancy: bestRedundancy, mmr: bestScore });
+  }
+
+  // Papers matching no query term only fill the page, in source order
+  kept.filter(i => bm25[i] === 0).sort((a, b) => a - b)
+    .slice(0, Math.max(0, options.limit - selected.length))
+    .forEach(index => selected.push({ index, redundancy: 0, mmr: 0 }));
+
+  return selected.map(({ index, redundancy, mmr }, rank): Paper => {
+    const score: RelevanceScore = {
+      rank: rank + 1,
+      bm25: round(bm25[index]),
+      relevance: round(relevance[index]),
+      redundancy: round(redundancy),
+      mmr: round(mmr)
+    };
+    return { ...candidates[index], relevance: score };
+  });
+};
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
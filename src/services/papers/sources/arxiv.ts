@@ -0,0 +1,83 @@
+import { fetchText } from '../../upstream';
+import { DOMParser } from '@xmldom/xmldom';
+import { Paper, PaperSource, SourceSearchOptions, SourceSearchResult } from '../types';
+import { buildArxivSearchQuery } from '../arxivQuery';
+
+const ARXIV_API = 'https://export.arxiv.org/api/query';
+
+// http://arxiv.org/abs/2101.00001v2 -> { id: '2101.00001', version: 2 }
+export const parseArxivIdentifier = (link: string): { id?: string; version?: number } => {
+  const match = link.match(/arxiv\.org\/abs\/(.+?)(?:v(\d+))?$/);
+  if (!match) return {};
+  return { id: match[1], version: match[2] ? parseInt(match[2], 10) : undefined };
+};
+
+const text = (parent: Element, tag: string): string | undefined =>
+  parent.getElementsByTagName(tag)[0]?.textContent?.replace(/\s+/g, ' ').trim() || undefined;
+
+export const parseArxivFeed = (xmlData: string): SourceSearchResult => {
+  const xmlDoc = new DOMParser().parseFromString(xmlData, 'text/xml');
+  const entries = xmlDoc.getElementsByTagName('entry');
+  const totalResults = parseInt(xmlDoc.getElementsByTagName('opensearch:totalResults')[0]?.textContent || '', 10);
+
+  const papers = Array.from(entries).map((entry): Paper => {
+    const link = entry.getElementsByTagName('id')[0]?.textContent?.trim() || '';
+    const { id: arxivId, version: arxivVersion } = parseArxivIdentifier(link);
+    const publishedAt = text(entry, 'published');
+    const year = parseInt((publishedAt || '').slice(0, 4), 10);
+
+    const authorDetails = Array.from(entry.getElementsByTagName('author')).map(author => ({
+      name: text(author, 'name') || '',
+      affiliations: Array.from(author.getElementsByTagName('arxiv:affiliation'))
+        .map(affiliation => affiliation.textContent?.trim() || '')
+        .filter(Boolean)
+    }));
+
+    const primaryCategory = entry.getElementsByTagName('arxiv:primary_category')[0]?.getAttribute('term') || undefined;
+    const categories = Array.from(entry.getElementsByTagName('category'))
+      .map(category => category.getAttribute('term') || '')
+      .filter(Boolean);
+
+    const pdfUrl = Array.from(entry.getElementsByTagName('link'))
+      .find(l => l.getAttribute('title') === 'pdf' || l.getAttribute('type') === 'application/pdf')
+      ?.getAttribute('href') || undefined;
+
+    return {
+      title: text(entry, 'title') || '',
+      authors: authorDetails.map(author => author.name),
+      authorDetails,
+      abstract: entry.getElementsByTagName('summary')[0]?.textContent?.trim() || '',
+      link,
+      source: 'arxiv',
+      arxivId,
+      arxivVersion,
+      doi: text(entry, 'arxiv:doi'),
+      year: Number.isNaN(year) ? undefined : year,
+      publishedAt,
+      updatedAt: text(entry, 'updated'),
+      primaryCategory,
+      categories: Array.from(new Set([...(primaryCategory ? [primaryCategory] : []), ...categories])),
+      journalRef: text(entry, 'arxiv:journal_ref'),
+      comments: text(entry, 'arxiv:comment'),
+      pdfUrl
+    };
+  });
+
+  return { papers, totalResults: Number.isNaN(totalResults) ? undefined : totalResults };
+};
+
+export const arxivSource: PaperSource = {
+  name: 'arxiv',
+  async search(query: string, { limit, offset = 0, arxivQuery }: SourceSearchOptions): Promise<SourceSearchResult> {
+    const params = new URLSearchParams({
+      search_query: arxivQuery ? buildArxivSearchQuery(arxivQuery) : `all:${query}`,
+      start: String(offset),
+      max_results: String(limit)
+    });
+    if (arxivQuery?.sortBy) params.set('sortBy', arxivQuery.sortBy);
+    if (arxivQuery?.sortOrder) params.set('sortOrder', arxivQuery.sortOrder);
+
+    // Paced to arXiv's one request every three seconds
+    return parseArxivFeed(await fetchText('arxiv', `${ARXIV_API}?${params}`, {}, { label: 'ArXiv' }));
+  }
+};
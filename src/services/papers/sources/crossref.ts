@@ -0,0 +1,32 @@
+import { fetchJson } from '../../upstream';
+import { Paper, PaperSource, SourceSearchOptions, SourceSearchResult } from '../types';
+
+const CROSSREF_API = 'https://api.crossref.org/works';
+const FIELDS = 'DOI,title,author,abstract,URL,issued,container-title';
+
+// Crossref abstracts are JATS XML fragments
+const stripJats = (abstract: string) =>
+  abstract.replace(/<jats:title>.*?<\/jats:title>/g, '').replace(/<[^>]+>/g, '').replace(/\s+/g, ' ').trim();
+
+export const crossrefSource: PaperSource = {
+  name: 'crossref',
+  async search(query: string, { limit, offset = 0 }: SourceSearchOptions): Promise<SourceSearchResult> {
+    const params = new URLSearchParams({ query, rows: String(limit), offset: String(offset), select: FIELDS });
+    if (process.env.CROSSREF_MAILTO) params.set('mailto', process.env.CROSSREF_MAILTO);
+
+    const data = await fetchJson('crossref', `${CROSSREF_API}?${params}`, {}, { label: 'Crossref' });
+
+    const papers = (data.message?.items || []).map((item: any): Paper => ({
+      title: (item.title?.[0] || '').replace(/\s+/g, ' ').trim(),
+      authors: (item.author || []).map((a: any) => a.name || [a.given, a.family].filter(Boolean).join(' ')),
+      abstract: item.abstract ? stripJats(item.abstract) : '',
+      link: item.URL || `https://doi.org/${item.DOI}`,
+      source: 'crossref',
+      doi: item.DOI,
+      year: item.issued?.['date-parts']?.[0]?.[0] || undefined,
+      venue: item['container-title']?.[0]
+    }));
+
+    return { papers, totalResults: data.message?.['total-results'] };
+  }
+};
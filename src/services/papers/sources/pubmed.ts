@@ -0,0 +1,80 @@
+import { fetchJson, fetchText } from '../../upstream';
+import { DOMParser } from '@xmldom/xmldom';
+import { Paper, PaperSource, SourceSearchOptions, SourceSearchResult } from '../types';
+
+const EUTILS_API = 'https://eutils.ncbi.nlm.nih.gov/entrez/eutils';
+
+const eutilsParams = () => {
+  const params = new URLSearchParams({ tool: 'resego-ai' });
+  if (process.env.NCBI_API_KEY) params.set('api_key', process.env.NCBI_API_KEY);
+  if (process.env.NCBI_EMAIL) params.set('email', process.env.NCBI_EMAIL);
+  return params;
+};
+
+const text = (parent: Element, tag: string): string =>
+  parent.getElementsByTagName(tag)[0]?.textContent?.trim() || '';
+
+export const parsePubmedArticles = (xmlData: string): Paper[] => {
+  const xmlDoc = new DOMParser().parseFromString(xmlData, 'text/xml');
+  const articles = xmlDoc.getElementsByTagName('PubmedArticle');
+
+  return Array.from(articles).map(article => {
+    const pmid = text(article, 'PMID');
+
+    const authors = Array.from(article.getElementsByTagName('Author')).map(author => {
+      const collective = text(author, 'CollectiveName');
+      if (collective) return collective;
+      return [text(author, 'ForeName'), text(author, 'LastName')].filter(Boolean).join(' ');
+    }).filter(Boolean);
+
+    // Structured abstracts come as several labelled AbstractText sections
+    const abstract = Array.from(article.getElementsByTagName('AbstractText')).map(section => {
+      const label = section.getAttribute('Label');
+      const content = section.textContent?.trim() || '';
+      return label ? `${label}: ${content}` : content;
+    }).join('\n');
+
+    const doi = Array.from(article.getElementsByTagName('ArticleId'))
+      .find(id => id.getAttribute('IdType') === 'doi')?.textContent?.trim();
+
+    const pubDate = article.getElementsByTagName('PubDate')[0];
+    const year = pubDate ? parseInt(text(pubDate, 'Year') || text(pubDate, 'MedlineDate').slice(0, 4), 10) : NaN;
+
+    return {
+      title: text(article, 'ArticleTitle').replace(/\s+/g, ' '),
+      authors,
+      abstract,
+      link: `https://pubmed.ncbi.nlm.nih.gov/${pmid}/`,
+      source: 'pubmed' as const,
+      pmid,
+      doi: doi || undefined,
+      year: Number.isNaN(year) ? undefined : year,
+      venue: text(article, 'Title') || undefined
+    };
+  });
+};
+
+export const pubmedSource: PaperSource = {
+  name: 'pubmed',
+  async search(query: string, { limit, offset = 0 }: SourceSearchOptions): Promise<SourceSearchResult> {
+    const searchParams = eutilsParams();
+    searchParams.set('db', 'pubmed');
+    searchParams.set('term', query);
+    searchParams.set('retstart', String(offset));
+    searchParams.set('retmax', String(limit));
+    searchParams.set('retmode', 'json');
+
+    const searchData = await fetchJson('pubmed', `${EUTILS_API}/esearch.fcgi?${searchParams}`, {}, { label: 'PubMed esearch' });
+    const ids: string[] = searchData.esearchresult?.idlist || [];
+    const totalResults = parseInt(searchData.esearchresult?.count, 10) || 0;
+    if (ids.length === 0) return { papers: [], totalResults };
+
+    const fetchParams = eutilsParams();
+    fetchParams.set('db', 'pubmed');
+    fetchParams.set('id', ids.join(','));
+    fetchParams.set('retmode', 'xml');
+
+    const articles = await fetchText('pubmed', `${EUTILS_API}/efetch.fcgi?${fetchParams}`, {}, { label: 'PubMed efetch' });
+    return { papers: parsePubmedArticles(articles), totalResults };
+  }
+};
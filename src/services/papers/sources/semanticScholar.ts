@@ -0,0 +1,37 @@
+import { fetchJson } from '../../upstream';
+import { Paper, PaperSource, SourceSearchOptions, SourceSearchResult } from '../types';
+
+const SEMANTIC_SCHOLAR_API = 'https://api.semanticscholar.org/graph/v1/paper/search';
+const FIELDS = 'title,authors,abstract,url,year,venue,externalIds,openAccessPdf';
+
+export const semanticScholarSource: PaperSource = {
+  name: 'semanticScholar',
+  async search(query: string, { limit, offset = 0 }: SourceSearchOptions): Promise<SourceSearchResult> {
+    const headers: Record<string, string> = {};
+    if (process.env.SEMANTIC_SCHOLAR_API_KEY) {
+      headers['x-api-key'] = process.env.SEMANTIC_SCHOLAR_API_KEY;
+    }
+
+    const data = await fetchJson('semanticScholar',
+      `${SEMANTIC_SCHOLAR_API}?query=${encodeURIComponent(query)}&offset=${offset}&limit=${limit}&fields=${FIELDS}`,
+      { headers },
+      { label: 'Semantic Scholar' }
+    );
+
+    const papers = (data.data || []).map((item: any): Paper => ({
+      title: item.title?.trim() || '',
+      authors: (item.authors || []).map((a: any) => a.name?.trim() || ''),
+      abstract: item.abstract?.trim() || '',
+      link: item.url || '',
+      source: 'semanticScholar',
+      doi: item.externalIds?.DOI,
+      arxivId: item.externalIds?.ArXiv,
+      pmid: item.externalIds?.PubMed,
+      year: item.year || undefined,
+      venue: item.venue || undefined,
+      pdfUrl: item.openAccessPdf?.url
+    }));
+
+    return { papers, totalResults: data.total };
+  }
+};
@@ -0,0 +1,65 @@
+import { ArxivSearchQuery } from './arxivQuery';
+
+export type PaperSourceName = 'arxiv' | 'semanticScholar' | 'pubmed' | 'crossref';
+
+export interface PaperAuthor {
+  name: string;
+  affiliations: string[];
+}
+
+export interface Paper {
+  title: string;
+  authors: string[];
+  authorDetails?: PaperAuthor[];
+  abstract: string;
+  link: string;
+  source: PaperSourceName;
+  // All sources that returned this paper once duplicates are merged
+  sources?: PaperSourceName[];
+  doi?: string;
+  arxivId?: string;
+  arxivVersion?: number;
+  pmid?: string;
+  year?: number;
+  // ISO 8601 timestamps
+  publishedAt?: string;
+  updatedAt?: string;
+  primaryCategory?: string;
+  categories?: string[];
+  venue?: string;
+  journalRef?: string;
+  comments?: string;
+  pdfUrl?: string;
+  // Set when search results were reranked locally against the query
+  relevance?: RelevanceScore;
+}
+
+export interface RelevanceScore {
+  // 1-based position after reranking
+  rank: number;
+  // Raw BM25 score over title and abstract
+  bm25: number;
+  // BM25 scaled to 0-1 against the best candidate
+  relevance: number;
+  // Highest similarity to a paper ranked above this one (0-1)
+  redundancy: number;
+  // Diversity-adjusted score the rank was chosen by
+  mmr: number;
+}
+
+export interface SourceSearchOptions {
+  limit: number;
+  offset?: number;
+  // Structured query; only arXiv understands it; other sources search its plain-text form
+  arxivQuery?: ArxivSearchQuery;
+}
+
+export interface SourceSearchResult {
+  papers: Paper[];
+  totalResults?: number;
+}
+
+export interface PaperSource {
+  name: PaperSourceName;
+  search(query: string, options: SourceSearchOptions): Promise<SourceSearchResult>;
+}
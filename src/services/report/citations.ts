@@ -0,0 +1,154 @@
+import { normalizeTitle, Paper } from '../papers';
+import { formatInlineCitation, formatReferences, parseName, ReferenceStyle } from '../citations';
+import { PaperAnalysis } from './types';
+
+export interface CitationEntry {
+  number: number;
+  title: string;
+  link: string;
+  arxivId?: string;
+  doi?: string;
+  // How many inline markers point at this paper
+  occurrences: number;
+}
+
+export interface InvalidCitation {
+  marker: string;
+  reason: string;
+}
+
+export interface CitationReport {
+  citations: CitationEntry[];
+  uncited: number[];
+  invalid: InvalidCitation[];
+  // Lines of the model's own reference list that matched no supplied paper
+  removedReferences: string[];
+}
+
+export interface VerifiedReport {
+  report: string;
+  citationReport: CitationReport;
+}
+
+// [1], [2, 3], [4-6], [1; 2]
+const NUMERIC_MARKER = /\[(\d+(?:\s*[-–,;]\s*\d+)*)\]/g;
+// (Smith et al., 2020), (Smith and Jones, 2019), (Smith 2021)
+const AUTHOR_YEAR_MARKER = /\(([A-Z][\p{L}'-]+)(?:\s+et al\.?|\s+(?:and|&)\s+[A-Z][\p{L}'-]+)?,?\s+((?:19|20)\d{2})[a-z]?\)/gu;
+const REFERENCES_HEADING = /^#{1,6}\s.*references\b.*$/im;
+// Left where a marker was removed so the space before it can go too
+const REMOVED = '\u0000';
+
+const expandMarker = (body: string): number[] =>
+  body.split(/\s*[,;]\s*/).flatMap(part => {
+    const [start, end] = part.split(/\s*[-–]\s*/).map(Number);
+    if (end === undefined) return [start];
+    if (end < start || end - start > 50) return [start, end];
+    return Array.from({ length: end - start + 1 }, (_, i) => start + i);
+  });
+
+const titleSimilarity = (a: string, b: string) => {
+  const wordsA = new Set(normalizeTitle(a).split(' ').filter(w => w.length > 2));
+  const wordsB = new Set(normalizeTitle(b).split(' ').filter(w => w.length > 2));
+  if (wordsA.size === 0 || wordsB.size === 0) return 0;
+  const shared = Array.from(wordsA).filter(w => wordsB.has(w)).length;
+  return shared / Math.min(wordsA.size, wordsB.size);
+};
+
+const matchesSuppliedPaper = (line: string, papers: Paper[]) =>
+  papers.some(paper =>
+    titleSimilarity(line, paper.title) >= 0.8 ||
+    (paper.arxivId && line.includes(paper.arxivId)) ||
+    (paper.doi && line.toLowerCase().includes(paper.doi.toLowerCase()))
+  );
+
+// Splits the report at the model's References heading, if it wrote one
+const splitReferences = (report: string): { body: string; heading: string; references: string; after: string } => {
+  const match = report.match(REFERENCES_HEADING);
+  if (!match || match.index === undefined) {
+    return { body: report, heading: '', references: '', after: '' };
+  }
+
+  const start = match.index + match[0].length;
+  const rest = report.slice(start);
+  // The section ends at the next heading or horizontal rule
+  const end = rest.search(/^(#{1,6}\s|---\s*$)/m);
+  return {
+    body: report.slice(0, match.index),
+    heading: match[0],
+    references: end === -1 ? rest : rest.slice(0, end),
+    after: end === -1 ? '' : rest.slice(end)
+  };
+};
+
+// Checks every inline citation against the supplied papers, strips markers that
+// point at nothing, and replaces the model's reference list with one built from
+// the papers' metadata so fabricated references never reach the saved report.
+// The model always cites by number; APA and Harvard reports get author–year markers afterwards.
+export const verifyCitations = (
+  report: string,
+  paperAnalyses: PaperAnalysis[],
+  style: ReferenceStyle = 'ieee'
+): VerifiedReport => {
+  const papers = paperAnalyses.map(({ paper }) => paper);
+  const occurrences = papers.map(() => 0);
+  const invalid: InvalidCitation[] = [];
+
+  const { body, heading, references, after } = splitReferences(report);
+
+  const checkNumeric = (text: string) => text.replace(NUMERIC_MARKER, (marker, inner: string) => {
+    const numbers = expandMarker(inner);
+    const valid = numbers.filter(n => n >= 1 && n <= papers.length);
+    numbers.filter(n => !valid.includes(n)).forEach(n => {
+      invalid.push({ marker, reason: `No supplied paper numbered ${n}` });
+    });
+    valid.forEach(n => occurrences[n - 1]++);
+    return valid.length > 0 ? `[${Array.from(new Set(valid)).join(', ')}]` : REMOVED;
+  });
+
+  const checkAuthorYear = (text: string) => text.replace(AUTHOR_YEAR_MARKER, (marker, family: string, year: string) => {
+    const index = papers.findIndex(paper =>
+      parseName(paper.authors[0] || '').family.toLowerCase() === family.toLowerCase() &&
+      (!paper.year || String(paper.year) === year)
+    );
+    if (index === -1) {
+      invalid.push({ marker, reason: 'Reference to a paper that was not supplied' });
+      return REMOVED;
+    }
+    occurrences[index]++;
+    return `[${index + 1}]`;
+  });
+
+  const toStyle = (text: string) => style === 'ieee' ? text : text.replace(NUMERIC_MARKER, (_marker, inner: string) =>
+    formatInlineCitation(expandMarker(inner).map(number => ({ paper: papers[number - 1], number })), style)
+  );
+
+  const verify = (text: string) => toStyle(checkAuthorYear(checkNumeric(text)).replace(/[ \t]*\u0000/g, ''));
+  const verifiedBody = verify(body);
+  const verifiedAfter = verify(after);
+
+  const removedReferences = references
+    .split('\n')
+    .map(line => line.replace(/^\s*([-*]|\d+\.|\[\d+\])\s*/, '').trim())
+    .filter(line => line.length > 20 && !/^(leave this section|cite papers|only cite)/i.test(line))
+    .filter(line => !matchesSuppliedPaper(line, papers));
+
+  const referenceList = formatReferences(papers, style).join('\n\n');
+  const referencesSection = `${heading || '## References'}\n\n${referenceList}\n\n`;
+
+  return {
+    report: `${verifiedBody.trimEnd()}\n\n${referencesSection}${verifiedAfter.trimStart()}`.trimEnd(),
+    citationReport: {
+      citations: papers.map((paper, i) => ({
+        number: i + 1,
+        title: paper.title,
+        link: paper.link,
+        arxivId: paper.arxivId,
+        doi: paper.doi,
+        occurrences: occurrences[i]
+      })),
+      uncited: occurrences.map((count, i) => (count === 0 ? i + 1 : 0)).filter(Boolean),
+      invalid,
+      removedReferences
+    }
+  };
+};
@@ -0,0 +1,16 @@
+import { ReportStage } from './types';
+
+// Carries the pipeline stage so handlers can report which step failed
+export class ReportGenerationError extends Error {
+  constructor(public stage: ReportStage, message: string, public cause?: unknown) {
+    super(message);
+    this.name = 'ReportGenerationError';
+  }
+}
+
+export class ReportInProgressError extends Error {
+  constructor() {
+    super('A report for this query is already being generated');
+    this.name = 'ReportInProgressError';
+  }
+}
@@ -0,0 +1,11 @@
+export { generateReport, fetchReportPapers, analyzePaper, analyzePapers, writeReport, saveReport, toStoredPapers } from './pipeline';
+export type { WriteReportOptions, WrittenReport } from './pipeline';
+export { formatPaperList } from './prompt';
+export { summarizeSections } from './sections';
+export type { OutlineEntry, SectionResult, SectionStatus, ConsistencyIssue } from './sections';
+export { listReportTemplates, getReportTemplate, DEFAULT_TEMPLATE_ID } from './templates';
+export type { ReportTemplate, TemplateSection } from './templates';
+export { verifyCitations } from './citations';
+export type { CitationReport, CitationEntry, InvalidCitation } from './citations';
+export { ReportGenerationError, ReportInProgressError } from './errors';
+export type { PaperAnalysis, AnalysisOptions, ReportProgressEvent, ReportGenerationOptions, ReportPlacement, GeneratedReport, ReportStage } from './types';
@@ -0,0 +1,299 @@
+import { complete, completeStream, getLLMConfig } from '../llm';
+import { findPapers, normalizeTitle, paperIdentity, Paper, PaperSourceName } from '../papers';
+import { cached } from '../cache';
+import { getReportRepository } from '../reports';
+import { analyzeFullText, getFullText } from '../fulltext';
+import { getReportTemplate, ReportTemplate } from './templates';
+import {
+  assembleReport,
+  pendingSection,
+  FAILED_SECTION_NOTICE,
+  planOutline,
+  reviewSections,
+  summarizeSections,
+  writeSection,
+  ConsistencyIssue,
+  OutlineEntry,
+  SectionResult
+} from './sections';
+import { verifyCitations } from './citations';
+import { ReportGenerationError, ReportInProgressError } from './errors';
+import { AnalysisOptions, GeneratedReport, PaperAnalysis, ReportGenerationOptions, ReportPlacement, ReportProgressEvent } from './types';
+import { logger } from '../observability';
+import { sanitizeMarkdown, untrusted } from '../safety';
+
+const REPORT_PAPER_LIMIT = 5;
+
+export const fetchReportPapers = async (
+  query: string,
+  sources?: PaperSourceName[],
+  limit = REPORT_PAPER_LIMIT
+): Promise<Paper[]> => {
+  try {
+    return await findPapers(query, { sources, limit });
+  } catch (error) {
+    logger.error('Paper fetch error', error);
+    throw new ReportGenerationError('papers', 'Failed to fetch papers', error);
+  }
+};
+
+const analyzeAbstract = async (paper: Paper, signal?: AbortSignal): Promise<PaperAnalysis> => {
+  const { content } = await complete('paperAnalysis',
+    `Analyze this research paper and provide the following details in a structured format:
+            - Research question
+            - Study methodology
+            - Key findings
+            - Limitations
+            - Conclusion
+
+            ${untrusted('paper', `Title: ${paper.title}\nAbstract: ${paper.abstract}`)}`,
+    { signal }
+  );
+
+  return {
+    paper,
+    analysis: content || 'Analysis failed',
+    basis: 'abstract'
+  };
+};
+
+// Bump when the analysis prompts change so cached analyses are not reused
+const ANALYSIS_PROMPT_VERSION = 2;
+
+// Full-text analysis falls back to the abstract when the PDF can't be fetched or parsed
+const runAnalysis = async (paper: Paper, options: AnalysisOptions): Promise<PaperAnalysis> => {
+  if (options.fullText) {
+    try {
+      const document = await getFullText(paper, options.signal);
+      const { analysis, sections } = await analyzeFullText(paper, document, options.signal);
+      if (analysis) {
+        return { paper, analysis, basis: 'fullText', sections };
+      }
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+      logger.error(`Full-text analysis failed for "${paper.title}"`, error);
+    }
+  }
+
+  return analyzeAbstract(paper, options.signal);
+};
+
+export const analyzePaper = async (paper: Paper, options: AnalysisOptions = {}): Promise<PaperAnalysis> => {
+  const key = {
+    paper: paperIdentity(paper),
+    version: ANALYSIS_PROMPT_VERSION,
+    fullText: Boolean(options.fullText),
+    model: getLLMConfig().tasks.paperAnalysis.model
+  };
+
+  // Only the analysis is cached; the current paper record is attached on the way out
+  const result = await cached('analysis', key,
+    async (): Promise<Omit<PaperAnalysis, 'paper'>> => {
+      const { paper: _paper, ...analysis } = await runAnalysis(paper, options);
+      return analysis;
+    },
+    { shouldCache: (analysis) => analysis.analysis !== 'Analysis failed' }
+  );
+  return { paper, ...result };
+};
+
+export const analyzePapers = async (
+  papers: Paper[],
+  options: AnalysisOptions & { onProgress?: (event: ReportProgressEvent) => void } = {}
+): Promise<PaperAnalysis[]> => {
+  const { onProgress } = options;
+  let completed = 0;
+
+  try {
+    return await Promise.all(papers.map(async (paper) => {
+      const analysis = await analyzePaper(paper, options);
+      completed++;
+      onProgress?.({
+        stage: 'analysis',
+        message: `Analyzed paper ${completed} of ${papers.length}`,
+        completed,
+        total: papers.length
+      });
+      return analysis;
+    }));
+  } catch (error) {
+    throw new ReportGenerationError('analysis', error instanceof Error ? error.message : 'Failed to analyze papers', error);
+  }
+};
+
+const SECTION_CONCURRENCY = Math.max(1, parseInt(process.env.REPORT_SECTION_CONCURRENCY || '3', 10) || 3);
+
+export interface WriteReportOptions extends Pick<ReportGenerationOptions, 'onToken' | 'onProgress' | 'signal'> {
+  // Results of an earlier run (resumed jobs): the outline and completed sections are reused
+  outline?: OutlineEntry[];
+  sections?: (SectionResult | null)[];
+  onOutline?: (outline: OutlineEntry[]) => Promise<unknown> | void;
+  onSection?: (sections: SectionResult[]) => Promise<unknown> | void;
+}
+
+export interface WrittenReport {
+  report: string;
+  outline: OutlineEntry[];
+  sections: SectionResult[];
+  consistencyIssues: ConsistencyIssue[];
+}
+
+const runPool = async (count: number, concurrency: number, task: (index: number) => Promise<void>) => {
+  let next = 0;
+  await Promise.all(Array.from({ length: Math.min(concurrency, count) }, async () => {
+    while (next < count) await task(next++);
+  }));
+};
+
+// Outline, then one completion per section, then a consistency review that revises the
+// sections it flags. Sections that still fail are marked in the text, never dropped.
+export const writeReport = async (
+  query: string,
+  paperAnalyses: PaperAnalysis[],
+  template: ReportTemplate,
+  options: WriteReportOptions = {}
+): Promise<WrittenReport> => {
+  const { onToken, onProgress, signal } = options;
+  const total = template.sections.length;
+
+  onProgress?.({ stage: 'report', message: 'Planning report outline' });
+  const outline = options.outline && options.outline.length === total
+    ? options.outline
+    : await planOutline(query, paperAnalyses, template, signal);
+  await options.onOutline?.(outline);
+
+  const sections: (SectionResult | null)[] = template.sections.map((section, i) => {
+    const previous = options.sections?.[i];
+    return previous && previous.status !== 'failed' && previous.heading === section.heading ? previous : null;
+  });
+  let completed = sections.filter(Boolean).length;
+
+  const write = async (index: number) => {
+    if (onToken) onToken(`\n\n## ${template.sections[index].heading}\n\n`);
+    if (sections[index]) {
+      onToken?.(sections[index]!.content);
+      return;
+    }
+
+    const section = await writeSection(query, template, index, outline, paperAnalyses, { signal, onToken });
+    sections[index] = section;
+    if (section.status === 'failed') onToken?.(FAILED_SECTION_NOTICE);
+    completed++;
+    onProgress?.({
+      stage: 'report',
+      message: `${section.status === 'failed' ? 'Failed' : 'Wrote'} section ${completed} of ${total}: ${section.heading}`,
+      completed,
+      total
+    });
+    await options.onSection?.(sections.map((section, i) => section || pendingSection(template, i)));
+  };
+
+  // Streamed reports are written in order so the tokens read top to bottom
+  onToken?.(`# ${query}`);
+  await runPool(total, onToken ? 1 : SECTION_CONCURRENCY, write);
+
+  let written = sections as SectionResult[];
+  if (written.every(section => section.status === 'failed')) {
+    throw new ReportGenerationError('report', `Failed to generate report content: ${written[0]?.error || 'no sections written'}`);
+  }
+
+  onProgress?.({ stage: 'report', message: 'Checking consistency across sections' });
+  const consistencyIssues = await reviewSections(query, written, signal);
+  for (const issue of consistencyIssues) {
+    const index = written.findIndex(section => section.heading === issue.section);
+    const revised = await writeSection(query, template, index, outline, paperAnalyses, {
+      signal,
+      revision: { draft: written[index].content, problem: issue.problem }
+    });
+    if (revised.status === 'completed') {
+      written = written.map((section, i) => (i === index ? { ...revised, attempts: section.attempts + revised.attempts } : section));
+    }
+  }
+  await options.onSection?.(written);
+
+  return { report: assembleReport(query, written), outline, sections: written, consistencyIssues };
+};
+
+// Papers with their analyses, as stored in `reports.papers`
+export const toStoredPapers = (paperAnalyses: PaperAnalysis[]) =>
+  paperAnalyses.map(({ paper, analysis }) => ({ ...paper, analysis }));
+
+// The papers are stored with the report so references can be rebuilt from real metadata
+// and follow-up questions can be answered from the analyses
+export const saveReport = async (
+  userId: string,
+  query: string,
+  content: string,
+  papers: (Paper & { analysis?: string })[],
+  placement: ReportPlacement = {}
+) => {
+  try {
+    return await getReportRepository().create({
+      userId,
+      title: query,
+      content,
+      papers,
+      type: 'report',
+      workspaceId: placement.workspaceId,
+      collectionId: placement.collectionId
+    });
+  } catch (error) {
+    logger.error('Report save error', error);
+    throw new ReportGenerationError('save', error instanceof Error ? error.message : 'Failed to save report', error);
+  }
+};
+
+// Requests for the same user and query that overlap are rejected rather than
+// producing a second `reports` row
+const inFlight = new Set<string>();
+
+const inFlightKey = (userId: string, query: string) => `${userId}:${normalizeTitle(query)}`;
+
+export const generateReport = async (
+  userId: string,
+  query: string,
+  options: ReportGenerationOptions = {}
+): Promise<GeneratedReport> => {
+  // Resolved before anything else so an unknown template fails fast
+  const template = getReportTemplate(options.template);
+
+  const key = inFlightKey(userId, query);
+  if (inFlight.has(key)) {
+    throw new ReportInProgressError();
+  }
+  inFlight.add(key);
+
+  try {
+    const { onProgress, signal } = options;
+
+    const papers = options.papers || await fetchReportPapers(query, options.sources, template.paperCount);
+    onProgress?.({
+      stage: 'papers',
+      message: options.papers ? `Using ${papers.length} collection papers` : `Fetched ${papers.length} papers`,
+      count: papers.length
+    });
+
+    const paperAnalyses = await analyzePapers(papers, { onProgress, signal, fullText: options.fullText });
+
+    onProgress?.({ stage: 'report', message: 'Writing report' });
+    const written = await writeReport(query, paperAnalyses, template, options);
+    const verified = verifyCitations(written.report, paperAnalyses, template.citationStyle);
+    const report = sanitizeMarkdown(verified.report);
+    const citationReport = verified.citationReport;
+
+    const savedReport = await saveReport(userId, query, report, toStoredPapers(paperAnalyses), options.placement);
+    onProgress?.({ stage: 'save', message: 'Report saved' });
+
+    return {
+      report,
+      papers: paperAnalyses,
+      savedReport,
+      citations: citationReport,
+      template: template.id,
+      sections: summarizeSections(written.sections),
+      consistencyIssues: written.consistencyIssues
+    };
+  } finally {
+    inFlight.delete(key);
+  }
+};
@@ -0,0 +1,12 @@
+import { formatPaperMetadata } from '../papers';
+import { untrusted } from '../safety';
+import { PaperAnalysis } from './types';
+
+export const formatPaperList = (paperAnalyses: PaperAnalysis[]) =>
+  paperAnalyses.map(({ paper, analysis }, i) =>
+    `[${i + 1}] ${untrusted('paper', `Title: **${paper.title}**
+   Authors: ${paper.authors.join(', ')}
+   ${formatPaperMetadata(paper)}
+   Key Findings: ${analysis}`)}
+  `
+  ).join('\n');
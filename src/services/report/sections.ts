@@ -0,0 +1,254 @@
+import { complete, completeStream, completeStructured, schema, ChatMessage } from '../llm';
+import { formatPaperList } from './prompt';
+import { ReportTemplate, TemplateSection } from './templates';
+import { PaperAnalysis } from './types';
+import { logger } from '../observability';
+import { untrusted } from '../safety';
+
+export interface OutlineEntry {
+  heading: string;
+  // Points the section should make, so sections don't repeat each other
+  points: string[];
+  // 1-based paper numbers the section draws on
+  papers: number[];
+}
+
+export type SectionStatus = 'completed' | 'truncated' | 'failed';
+
+export interface SectionResult {
+  heading: string;
+  status: SectionStatus;
+  content: string;
+  attempts: number;
+  error?: string;
+}
+
+export interface ConsistencyIssue {
+  section: string;
+  problem: string;
+}
+
+interface SectionRevision {
+  draft: string;
+  problem: string;
+}
+
+const SECTION_ATTEMPTS = 2;
+// Follow-up requests when a section stops at the token limit
+const MAX_CONTINUATIONS = 2;
+
+export const FAILED_SECTION_NOTICE = '> ⚠️ This section could not be generated. Retry the report to fill it in.';
+const TRUNCATED_SECTION_NOTICE = '> ⚠️ This section was cut off at the length limit.';
+
+const outlineSchema = schema.object({
+  sections: schema.array(schema.object({
+    heading: schema.string({ minLength: 1 }),
+    points: schema.array(schema.string({ minLength: 1 }), { maxItems: 8 }),
+    papers: schema.array(schema.integer())
+  }))
+});
+
+const reviewSchema = schema.object({
+  issues: schema.array(schema.object({
+    section: schema.string({ minLength: 1 }),
+    problem: schema.string({ minLength: 1 })
+  }), { maxItems: 5 })
+});
+
+const sectionWords = (template: ReportTemplate, section: TemplateSection) =>
+  section.words || Math.floor(template.maxWords / template.sections.length);
+
+const allPapers = (count: number) => Array.from({ length: count }, (_, i) => i + 1);
+
+// The outline fixes what each section covers and which papers it uses; headings always
+// come from the template, so a poor outline only loses the hints, never a section
+export const planOutline = async (
+  query: string,
+  paperAnalyses: PaperAnalysis[],
+  template: ReportTemplate,
+  signal?: AbortSignal
+): Promise<OutlineEntry[]> => {
+  const { value } = await completeStructured('reportOutline',
+    `Plan a ${template.name.toLowerCase()} about this topic:
+${untrusted('query', query)}
+
+For each section below, list the key points it should make (without repeating points of other sections)
+and the numbers of the papers it should draw on.
+
+Sections:
+${template.sections.map((section, i) => `${i + 1}. ${section.heading}: ${section.instructions}`).join('\n')}
+
+Papers:
+${formatPaperList(paperAnalyses)}
+
+Respond with only JSON of this shape:
+{"sections": [{"heading": "section heading", "points": ["point"], "papers": [1, 3]}]}`,
+    outlineSchema,
+    { sections: [] },
+    { signal }
+  ).catch((error) => {
+    if (signal?.aborted) throw error;
+    logger.error('Report outline error', error);
+    return { value: { sections: [] as OutlineEntry[] } };
+  });
+
+  return template.sections.map((section, i) => {
+    const planned = value.sections.find(entry => entry.heading.toLowerCase().includes(section.heading.toLowerCase().replace(/^\W+/, ''))) ||
+      value.sections[i];
+    const papers = (planned?.papers || []).filter(number => number >= 1 && number <= paperAnalyses.length);
+
+    return {
+      heading: section.heading,
+      points: planned?.points || [],
+      papers: papers.length > 0 ? Array.from(new Set(papers)).sort((a, b) => a - b) : allPapers(paperAnalyses.length)
+    };
+  });
+};
+
+const buildSectionPrompt = (
+  query: string,
+  template: ReportTemplate,
+  index: number,
+  outline: OutlineEntry[],
+  paperAnalyses: PaperAnalysis[],
+  revision?: SectionRevision
+) => {
+  const section = template.sections[index];
+  const entry = outline[index];
+  // Papers keep their report-wide numbers so citations line up across sections
+  const papers = entry.papers.map(number => ({ number, analysis: paperAnalyses[number - 1] }));
+
+  return `You are writing one section of a ${template.name.toLowerCase()} about this topic:
+${untrusted('query', query)}
+
+Report outline, for context:
+${outline.map((item, i) => `${i + 1}. ${item.heading}${item.points.length ? `: ${item.points.join('; ')}` : ''}`).join('\n')}
+
+Write only section ${index + 1}, "${section.heading}".
+Instructions: ${section.instructions}
+${entry.points.length ? `Cover: ${entry.points.join('; ')}\n` : ''}Length: about ${sectionWords(template, section)} words.
+Do not write the section heading, other sections, a title or a reference list.
+
+Guidelines:
+- Cite papers inline by their bracketed number, e.g. [1] or [2, 3].
+- Only cite the numbered papers listed below. Never cite or invent any other source.
+${(template.guidelines || []).map(guideline => `- ${guideline}`).join('\n')}
+${revision ? `\nRevise this earlier draft of the section. A reviewer flagged: ${revision.problem}\n\nEarlier draft:\n${untrusted('draft', revision.draft)}\n` : ''}
+Papers:
+${papers.map(({ number, analysis }) => formatPaperList([analysis]).replace(/^\[1\]/, `[${number}]`)).join('\n')}`;
+};
+
+// Asks the model to carry on when it stops at the token limit, so sections are never cut silently
+const completeSection = async (
+  prompt: string,
+  options: { signal?: AbortSignal; onToken?: (token: string) => void }
+): Promise<{ content: string; truncated: boolean }> => {
+  const messages: ChatMessage[] = [{ role: 'user', content: prompt }];
+  const first = options.onToken
+    ? await completeStream('finalReport', messages, options.onToken, { signal: options.signal })
+    : await complete('finalReport', messages, { signal: options.signal });
+
+  let content = first.content;
+  let truncated = first.finishReason === 'length';
+
+  for (let i = 0; truncated && i < MAX_CONTINUATIONS; i++) {
+    const next = await complete('finalReport', [
+      ...messages,
+      { role: 'assistant', content },
+      { role: 'user', content: 'Continue exactly where you stopped. Do not repeat anything already written.' }
+    ], { signal: options.signal, cache: false });
+    options.onToken?.(next.content);
+    content += next.content;
+    truncated = next.finishReason === 'length';
+  }
+
+  // Models sometimes repeat the heading they were told to leave out
+  return { content: content.trim().replace(/^#{1,6}\s.*\n+/, ''), truncated };
+};
+
+export const writeSection = async (
+  query: string,
+  template: ReportTemplate,
+  index: number,
+  outline: OutlineEntry[],
+  paperAnalyses: PaperAnalysis[],
+  options: { signal?: AbortSignal; onToken?: (token: string) => void; revision?: SectionRevision } = {}
+): Promise<SectionResult> => {
+  const heading = template.sections[index].heading;
+  const prompt = buildSectionPrompt(query, template, index, outline, paperAnalyses, options.revision);
+  let lastError = 'No content generated';
+
+  for (let attempt = 1; attempt <= SECTION_ATTEMPTS; attempt++) {
+    try {
+      // Only the first attempt is streamed; a retry's text arrives with the final report
+      const { content, truncated } = await completeSection(prompt, {
+        signal: options.signal,
+        onToken: attempt === 1 ? options.onToken : undefined
+      });
+      if (content) {
+        return { heading, status: truncated ? 'truncated' : 'completed', content, attempts: attempt };
+      }
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+      lastError = error instanceof Error ? error.message : 'Section generation failed';
+      logger.error(`Report section "${heading}" attempt ${attempt} failed`, error);
+    }
+  }
+
+  return { heading, status: 'failed', content: '', attempts: SECTION_ATTEMPTS, error: lastError };
+};
+
+// Reviews the assembled draft for contradictions, repetition and unsupported claims
+export const reviewSections = async (
+  query: string,
+  sections: SectionResult[],
+  signal?: AbortSignal
+): Promise<ConsistencyIssue[]> => {
+  const written = sections.filter(section => section.status !== 'failed');
+  if (written.length < 2) return [];
+
+  const { value } = await completeStructured('reportReview',
+    `Review this draft report for consistency. Flag only real problems:
+contradictions between sections, the same content repeated in several sections, or claims
+that conflict with the cited papers. Name the section that should change.
+
+Topic:
+${untrusted('query', query)}
+
+${written.map(section => `## ${section.heading}\n${untrusted('draft', section.content.slice(0, 3000))}`).join('\n\n')}
+
+Respond with only JSON: {"issues": [{"section": "section heading", "problem": "what to fix"}]}
+Use {"issues": []} when the draft is consistent.`,
+    reviewSchema,
+    { issues: [] },
+    { signal }
+  ).catch((error) => {
+    if (signal?.aborted) throw error;
+    logger.error('Report review error', error);
+    return { value: { issues: [] as ConsistencyIssue[] } };
+  });
+
+  return value.issues.filter(issue => written.some(section => section.heading === issue.section));
+};
+
+const sectionBody = (section: SectionResult) => {
+  if (section.status === 'failed') return FAILED_SECTION_NOTICE;
+  if (section.status === 'truncated') return `${section.content}\n\n${TRUNCATED_SECTION_NOTICE}`;
+  return section.content;
+};
+
+export const assembleReport = (query: string, sections: SectionResult[]): string =>
+  [`# ${query}`, ...sections.map(section => `## ${section.heading}\n\n${sectionBody(section)}`), '## References']
+    .join('\n\n');
+
+// Placeholder for sections that have not been written yet (persisted job progress)
+export const pendingSection = (template: ReportTemplate, index: number): SectionResult => ({
+  heading: template.sections[index].heading,
+  status: 'failed',
+  content: '',
+  attempts: 0,
+  error: 'Not written yet'
+});
+
+export const summarizeSections = (sections: SectionResult[]) =>
+  sections.map(({ heading, status, attempts, error }) => ({ heading, status, attempts, error }));
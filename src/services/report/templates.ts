@@ -0,0 +1,201 @@
+import fs from 'fs';
+import { ReferenceStyle, REFERENCE_STYLES } from '../citations';
+import { logger } from '../observability';
+
+export interface TemplateSection {
+  heading: string;
+  // What the model should write in this section
+  instructions: string;
+  // Optional share of the length budget, in words
+  words?: number;
+}
+
+export interface ReportTemplate {
+  id: string;
+  name: string;
+  description: string;
+  sections: TemplateSection[];
+  // Overall length budget in words, shared by the sections that don't set their own
+  maxWords: number;
+  citationStyle: ReferenceStyle;
+  // Papers fetched for the report (default 5, at most MAX_PAPER_COUNT)
+  paperCount?: number;
+  guidelines?: string[];
+}
+
+export const DEFAULT_TEMPLATE_ID = 'full-report';
+// Every paper is analysed with its own completion, so custom templates can't ask for more than this
+export const MAX_PAPER_COUNT = 10;
+
+const BUILT_IN_TEMPLATES: ReportTemplate[] = [
+  {
+    id: 'full-report',
+    name: 'Full research report',
+    description: 'Structured academic report from abstract to conclusions.',
+    maxWords: 1500,
+    citationStyle: 'ieee',
+    sections: [
+      {
+        heading: '📑 Abstract',
+        instructions: 'Summarize the objective, methodology overview, key findings and significance of the research.'
+      },
+      {
+        heading: '🎯 Introduction & Research Objectives',
+        instructions: 'Give the research context, the problem statement, specific research questions, and the scope and limitations.'
+      },
+      {
+        heading: '📚 Literature Review',
+        instructions: 'Compare the supplied papers: current state of research, theoretical framework, research gaps and key concepts.'
+      },
+      {
+        heading: '🔬 Methodology',
+        instructions: 'Break down the research approach, data collection methods, analysis techniques and tools or frameworks used.'
+      },
+      {
+        heading: '📊 Results & Analysis',
+        instructions: 'Organize key results in a markdown table with columns Category | Findings | Evidence | Impact, then note statistical results, benchmarks, strengths and weaknesses.'
+      },
+      {
+        heading: '💡 Discussion',
+        instructions: 'Interpret the findings, compare them with existing research, and cover practical implications and limitations.'
+      },
+      {
+        heading: '🎯 Conclusions',
+        instructions: 'State the main contributions, key insights, future research directions and recommendations.'
+      }
+    ],
+    guidelines: [
+      'Use an academic writing style; avoid vague or conversational language.',
+      'Use comparative analysis across multiple papers.',
+      'Prioritize quantitative evidence, performance metrics and benchmarks where relevant.'
+    ]
+  },
+  {
+    id: 'literature-review',
+    name: 'Short literature review',
+    description: 'Concise thematic review of the supplied papers.',
+    maxWords: 700,
+    citationStyle: 'apa',
+    sections: [
+      { heading: 'Overview', instructions: 'Introduce the topic and why it matters in two or three sentences.', words: 100 },
+      { heading: 'Main Themes', instructions: 'Group the papers by theme and summarize what each theme has found.', words: 300 },
+      { heading: 'Agreements and Tensions', instructions: 'Where do the papers agree, and where do their results or methods conflict?', words: 150 },
+      { heading: 'Gaps and Future Work', instructions: 'What remains unanswered, and which directions look most promising?', words: 150 }
+    ],
+    guidelines: ['Write flowing paragraphs rather than bullet lists.']
+  },
+  {
+    id: 'evidence-table',
+    name: 'Systematic-review evidence table',
+    description: 'Per-study evidence table with a short synthesis, in the style of a systematic review.',
+    maxWords: 1000,
+    citationStyle: 'ieee',
+    paperCount: 8,
+    sections: [
+      { heading: 'Review Question', instructions: 'Restate the query as a focused review question (population, intervention or exposure, outcome where applicable).', words: 60 },
+      {
+        heading: 'Evidence Table',
+        instructions: 'A markdown table with one row per supplied paper and columns Study | Design / Method | Data or Sample | Key Outcome | Limitations | Quality (High/Moderate/Low). Start each Study cell with the paper\'s citation number.'
+      },
+      { heading: 'Synthesis', instructions: 'Summarize the direction and consistency of the evidence across studies.', words: 250 },
+      { heading: 'Certainty of Evidence', instructions: 'Rate overall certainty and explain the main reasons (risk of bias, inconsistency, imprecision).', words: 150 }
+    ],
+    guidelines: ['Only report what the supplied analyses state; write "not reported" instead of guessing.']
+  },
+  {
+    id: 'executive-brief',
+    name: 'Executive brief',
+    description: 'One-page summary for decision makers.',
+    maxWords: 400,
+    citationStyle: 'ieee',
+    sections: [
+      { heading: 'Bottom Line', instructions: 'Three bullet points with the most important conclusions.', words: 60 },
+      { heading: 'Key Findings', instructions: 'The evidence behind the bottom line, in short bullets.', words: 150 },
+      { heading: 'Implications', instructions: 'What this means in practice.', words: 80 },
+      { heading: 'Recommended Actions', instructions: 'Concrete next steps.', words: 60 },
+      { heading: 'Caveats', instructions: 'Main limitations of the evidence.', words: 50 }
+    ],
+    guidelines: ['Plain language, no jargon; keep every bullet to one sentence.']
+  },
+  {
+    id: 'grant-background',
+    name: 'Grant background section',
+    description: 'Background and significance section for a grant proposal.',
+    maxWords: 800,
+    citationStyle: 'apa',
+    sections: [
+      { heading: 'Significance', instructions: 'Why the problem matters scientifically and societally.', words: 180 },
+      { heading: 'Current State of Knowledge', instructions: 'What the literature has established, citing the supplied papers.', words: 300 },
+      { heading: 'Gap in Knowledge', instructions: 'The specific unmet need that remains.', words: 150 },
+      { heading: 'Rationale for the Proposed Work', instructions: 'How addressing the gap advances the field.', words: 150 }
+    ],
+    guidelines: ['Write persuasive, reviewer-facing prose in paragraphs.']
+  }
+];
+
+// Admin-defined templates: REPORT_TEMPLATES_FILE holds a JSON array of templates and is
+// re-read whenever it changes. A template with a built-in id replaces the built-in one.
+let cachedFile: { path: string; mtimeMs: number; templates: ReportTemplate[] } | null = null;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isPositiveInteger = (value: unknown): value is number => Number.isInteger(value) && (value as number) > 0;
+
+const isSection = (value: unknown): value is TemplateSection =>
+  isRecord(value) &&
+  typeof value.heading === 'string' &&
+  typeof value.instructions === 'string' &&
+  (value.words === undefined || isPositiveInteger(value.words));
+
+const isTemplate = (value: unknown): value is ReportTemplate =>
+  isRecord(value) &&
+  typeof value.id === 'string' && /^[a-z0-9-]+$/.test(value.id) &&
+  typeof value.name === 'string' &&
+  (value.description === undefined || typeof value.description === 'string') &&
+  Array.isArray(value.sections) && value.sections.length > 0 && value.sections.every(isSection) &&
+  typeof value.maxWords === 'number' && value.maxWords > 0 &&
+  (value.paperCount === undefined || (isPositiveInteger(value.paperCount) && value.paperCount <= MAX_PAPER_COUNT)) &&
+  (value.guidelines === undefined ||
+    (Array.isArray(value.guidelines) && value.guidelines.every(guideline => typeof guideline === 'string'))) &&
+  REFERENCE_STYLES.includes(value.citationStyle as ReferenceStyle);
+
+const readTemplatesFile = (): ReportTemplate[] => {
+  const path = process.env.REPORT_TEMPLATES_FILE;
+  if (!path) return [];
+
+  try {
+    const { mtimeMs } = fs.statSync(path);
+    if (cachedFile && cachedFile.path === path && cachedFile.mtimeMs === mtimeMs) {
+      return cachedFile.templates;
+    }
+
+    const contents = JSON.parse(fs.readFileSync(path, 'utf8'));
+    const templates = (Array.isArray(contents) ? contents : []).filter((template: unknown) => {
+      if (isTemplate(template)) return true;
+      logger.error('Ignoring invalid report template', JSON.stringify(template).slice(0, 200));
+      return false;
+    }).map((template: ReportTemplate) => ({ ...template, description: template.description || '' }));
+
+    cachedFile = { path, mtimeMs, templates };
+    return templates;
+  } catch (error) {
+    logger.error('Report templates file error', error);
+    return cachedFile?.templates || [];
+  }
+};
+
+export const listReportTemplates = (): ReportTemplate[] => {
+  const custom = readTemplatesFile();
+  const customIds = new Set(custom.map(template => template.id));
+  return [...BUILT_IN_TEMPLATES.filter(template => !customIds.has(template.id)), ...custom];
+};
+
+export const getReportTemplate = (id: string = process.env.REPORT_DEFAULT_TEMPLATE || DEFAULT_TEMPLATE_ID): ReportTemplate => {
+  const templates = listReportTemplates();
+  const template = templates.find(candidate => candidate.id === id);
+  if (!template) {
+    throw new Error(`Unknown report template "${id}". Available: ${templates.map(t => t.id).join(', ')}`);
+  }
+  return template;
+};
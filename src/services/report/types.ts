@@ -0,0 +1,57 @@
+import { Paper, PaperSourceName } from '../papers';
+import { AnalysisFocus } from '../fulltext';
+import { CitationReport } from './citations';
+import { ConsistencyIssue, SectionStatus } from './sections';
+
+export interface PaperAnalysis {
+  paper: Paper;
+  analysis: string;
+  // Whether the analysis saw the full PDF or only the abstract
+  basis?: 'abstract' | 'fullText';
+  sections?: Partial<Record<AnalysisFocus, string>>;
+}
+
+export type ReportStage = 'papers' | 'analysis' | 'report' | 'save';
+
+export type ReportProgressEvent =
+  | { stage: 'papers'; message: string; count: number }
+  | { stage: 'analysis'; message: string; completed: number; total: number }
+  | { stage: 'report'; message: string; completed?: number; total?: number }
+  | { stage: 'save'; message: string };
+
+export interface AnalysisOptions {
+  // Opt-in: download and analyse each paper's PDF instead of only its abstract
+  fullText?: boolean;
+  signal?: AbortSignal;
+}
+
+export interface ReportPlacement {
+  workspaceId?: string;
+  collectionId?: string;
+}
+
+export interface ReportGenerationOptions {
+  sources?: PaperSourceName[];
+  // Report template id; defaults to REPORT_DEFAULT_TEMPLATE or the full report
+  template?: string;
+  fullText?: boolean;
+  // Write from these papers (e.g. a curated collection) instead of searching for the query
+  papers?: Paper[];
+  // Saves the report into a workspace and collection instead of the user's personal reports
+  placement?: ReportPlacement;
+  onProgress?: (event: ReportProgressEvent) => void;
+  // When set, the final report is streamed token by token
+  onToken?: (token: string) => void;
+  signal?: AbortSignal;
+}
+
+export interface GeneratedReport {
+  report: string;
+  papers: PaperAnalysis[];
+  savedReport: any;
+  citations: CitationReport;
+  template: string;
+  // Per-section outcome; failed sections are marked in the report text
+  sections: { heading: string; status: SectionStatus; attempts: number; error?: string }[];
+  consistencyIssues: ConsistencyIssue[];
+}
@@ -0,0 +1,26 @@
+import { createPostgresReportRepository } from './postgres';
+import { createSupabaseReportRepository } from './supabase';
+import { ReportRepository } from './types';
+
+export type {
+  NewReport,
+  ReportListQuery,
+  ReportRecord,
+  ReportRepository,
+  ReportScope,
+  ReportSummary,
+  ReportType,
+  ReportUpdate
+} from './types';
+
+let repository: ReportRepository | null = null;
+
+// Reports and saved searches; REPORTS_BACKEND=postgres stores them in DATABASE_URL instead of Supabase
+export const getReportRepository = (): ReportRepository => {
+  if (!repository) {
+    repository = process.env.REPORTS_BACKEND === 'postgres'
+      ? createPostgresReportRepository()
+      : createSupabaseReportRepository();
+  }
+  return repository;
+};
@@ -0,0 +1,93 @@
+import { getPool } from '../db';
+import { ReportRecord, ReportRepository, ReportSummary, ReportUpdate } from './types';
+
+const SUMMARY_COLUMNS = 'id, title, type, created_at, user_id, workspace_id, collection_id';
+const UPDATABLE: (keyof ReportUpdate)[] = ['title', 'workspace_id', 'collection_id'];
+// Must match the expression of reports_search_idx in db/migrations/0002_reports.sql
+const SEARCH_DOCUMENT = "to_tsvector('english', coalesce(title, '') || ' ' || coalesce(content, ''))";
+// Anything else is not a valid uuid and would make Postgres raise instead of finding nothing
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Same JSON shape as PostgREST returns, so callers don't depend on the backend
+const toRecord = <T extends Partial<ReportRecord>>(row: any): T => ({
+  ...row,
+  id: String(row.id),
+  created_at: row.created_at instanceof Date ? row.created_at.toISOString() : row.created_at
+});
+
+// The table is created by the migrations (npm run migrate, or on start-up)
+export const createPostgresReportRepository = (): ReportRepository => ({
+  name: 'postgres',
+  async create(report) {
+    const { rows } = await getPool().query(
+      `INSERT INTO reports (user_id, title, content, papers, type, workspace_id, collection_id)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       RETURNING *`,
+      [
+        report.userId, report.title, report.content,
+        report.papers === null ? null : JSON.stringify(report.papers),
+        report.type, report.workspaceId || null, report.collectionId || null
+      ]
+    );
+    return toRecord<ReportRecord>(rows[0]);
+  },
+  async get(id) {
+    if (!UUID_PATTERN.test(id)) return null;
+    const { rows } = await getPool().query('SELECT * FROM reports WHERE id = $1', [id]);
+    return rows[0] ? toRecord<ReportRecord>(rows[0]) : null;
+  },
+  async list({ scope, type, search, offset, limit }) {
+    const conditions: string[] = [];
+    const values: unknown[] = [];
+    const param = (value: unknown) => {
+      values.push(value);
+      return `$${values.length}`;
+    };
+
+    if ('userId' in scope) {
+      conditions.push(`user_id = ${param(scope.userId)}`);
+      conditions.push(`(workspace_id IS NULL OR workspace_id = ANY(${param(scope.workspaceIds)}::uuid[]))`);
+    } else {
+      if (!UUID_PATTERN.test(scope.workspaceId)) return { reports: [], total: 0 };
+      conditions.push(`workspace_id = ${param(scope.workspaceId)}`);
+      if (scope.collectionId) {
+        if (!UUID_PATTERN.test(scope.collectionId)) return { reports: [], total: 0 };
+        conditions.push(`collection_id = ${param(scope.collectionId)}`);
+      }
+    }
+    if (type) {
+      conditions.push(type === 'report' ? "(type IS NULL OR type = 'report')" : `type = ${param(type)}`);
+    }
+    if (search) {
+      conditions.push(`${SEARCH_DOCUMENT} @@ websearch_to_tsquery('english', ${param(search)})`);
+    }
+
+    const where = conditions.join(' AND ');
+    const [{ rows }, { rows: [count] }] = await Promise.all([
+      getPool().query(
+        `SELECT ${SUMMARY_COLUMNS} FROM reports WHERE ${where}
+         ORDER BY created_at DESC LIMIT ${param(limit)} OFFSET ${param(offset)}`,
+        values
+      ),
+      getPool().query(`SELECT COUNT(*)::int AS total FROM reports WHERE ${where}`, values.slice(0, -2))
+    ]);
+    return { reports: rows.map(row => toRecord<ReportSummary>(row)), total: count.total };
+  },
+  async update(id, changes) {
+    if (!UUID_PATTERN.test(id)) return null;
+    const columns = UPDATABLE.filter(column => changes[column] !== undefined);
+    if (columns.length === 0) return this.get(id);
+
+    const { rows } = await getPool().query(
+      `UPDATE reports SET ${columns.map((column, i) => `${column} = $${i + 2}`).join(', ')}
+       WHERE id = $1 RETURNING *`,
+      [id, ...columns.map(column => changes[column])]
+    );
+    return rows[0] ? toRecord<ReportRecord>(rows[0]) : null;
+  },
+  async delete(id) {
+    if (!UUID_PATTERN.test(id)) return false;
+    const { rowCount } = await getPool().query('DELETE FROM reports WHERE id = $1', [id]);
+    return (rowCount ?? 0) > 0;
+  }
+});
@@ -0,0 +1,101 @@
+import { supabase } from '../supabase';
+import { NewReport, ReportRecord, ReportRepository, ReportSummary } from './types';
+
+const SUMMARY_COLUMNS = 'id, title, type, created_at, user_id, workspace_id, collection_id';
+// Anything else is not a valid uuid and would make Postgres raise instead of finding nothing
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Double-quoted so commas and parentheses in user input can't alter the filter
+const quoteFilterValue = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+const toRow = (report: NewReport) => ({
+  user_id: report.userId,
+  title: report.title,
+  content: report.content,
+  papers: report.papers,
+  type: report.type,
+  workspace_id: report.workspaceId || null,
+  collection_id: report.collectionId || null,
+  created_at: new Date().toISOString()
+});
+
+export const createSupabaseReportRepository = (): ReportRepository => ({
+  name: 'supabase',
+  async create(report) {
+    const { data, error } = await supabase
+      .from('reports')
+      .insert(toRow(report))
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to save report: ${error.message}`);
+    if (!data) throw new Error('No report record returned after save');
+    return data as ReportRecord;
+  },
+  async get(id) {
+    if (!UUID_PATTERN.test(id)) return null;
+    const { data, error } = await supabase
+      .from('reports')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to fetch report: ${error.message}`);
+    return data as ReportRecord | null;
+  },
+  async list({ scope, type, search, offset, limit }) {
+    if ('workspaceId' in scope && [scope.workspaceId, scope.collectionId].some(id => id && !UUID_PATTERN.test(id))) {
+      return { reports: [], total: 0 };
+    }
+    let query = supabase
+      .from('reports')
+      .select(SUMMARY_COLUMNS, { count: 'exact' });
+
+    if ('userId' in scope) {
+      query = query.eq('user_id', scope.userId);
+      query = scope.workspaceIds.length > 0
+        ? query.or(`workspace_id.is.null,workspace_id.in.(${scope.workspaceIds.join(',')})`)
+        : query.is('workspace_id', null);
+    } else {
+      query = query.eq('workspace_id', scope.workspaceId);
+      if (scope.collectionId) query = query.eq('collection_id', scope.collectionId);
+    }
+    if (type) {
+      query = type === 'report' ? query.or('type.is.null,type.eq.report') : query.eq('type', type);
+    }
+    if (search) {
+      const term = quoteFilterValue(search);
+      query = query.or(`title.wfts(english).${term},content.wfts(english).${term}`);
+    }
+
+    const { data, count, error } = await query
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) throw new Error(`Failed to list reports: ${error.message}`);
+    return { reports: (data || []) as ReportSummary[], total: count ?? 0 };
+  },
+  async update(id, changes) {
+    if (!UUID_PATTERN.test(id)) return null;
+    const { data, error } = await supabase
+      .from('reports')
+      .update(changes)
+      .eq('id', id)
+      .select()
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to update report: ${error.message}`);
+    return data as ReportRecord | null;
+  },
+  async delete(id) {
+    if (!UUID_PATTERN.test(id)) return false;
+    const { data, error } = await supabase
+      .from('reports')
+      .delete()
+      .eq('id', id)
+      .select('id');
+
+    if (error) throw new Error(`Failed to delete report: ${error.message}`);
+    return (data || []).length > 0;
+  }
+});
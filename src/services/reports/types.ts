@@ -0,0 +1,53 @@
+// 'search' rows are saved searches (/api/save-search); NULL type predates the column and means 'report'
+export type ReportType = 'report' | 'search';
+
+export interface ReportRecord {
+  id: string;
+  user_id: string;
+  title: string;
+  content: string | null;
+  papers: any[] | null;
+  type: ReportType | null;
+  workspace_id: string | null;
+  collection_id: string | null;
+  created_at: string;
+}
+
+// What list and search endpoints return: everything but the content and papers
+export type ReportSummary = Omit<ReportRecord, 'content' | 'papers'>;
+
+export interface NewReport {
+  userId: string;
+  title: string;
+  content: string | null;
+  papers: any[] | null;
+  type: ReportType;
+  workspaceId?: string | null;
+  collectionId?: string | null;
+}
+
+export type ReportScope =
+  // The user's personal reports, plus the ones they created in `workspaceIds`
+  | { userId: string; workspaceIds: string[] }
+  | { workspaceId: string; collectionId?: string };
+
+export interface ReportListQuery {
+  scope: ReportScope;
+  type?: ReportType;
+  // Full-text search over title and content
+  search?: string;
+  offset: number;
+  limit: number;
+}
+
+export type ReportUpdate = Partial<Pick<ReportRecord, 'title' | 'workspace_id' | 'collection_id'>>;
+
+export interface ReportRepository {
+  name: string;
+  create(report: NewReport): Promise<ReportRecord>;
+  get(id: string): Promise<ReportRecord | null>;
+  // Newest first
+  list(query: ReportListQuery): Promise<{ reports: ReportSummary[]; total: number }>;
+  update(id: string, changes: ReportUpdate): Promise<ReportRecord | null>;
+  delete(id: string): Promise<boolean>;
+}
@@ -0,0 +1,7 @@
+// Rejected user input; the message is safe to show to the client
+export class InputValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InputValidationError';
+  }
+}
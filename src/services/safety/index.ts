@@ -0,0 +1,5 @@
+export { InputValidationError } from './errors';
+export { detectInjection } from './injection';
+export { getQueryMaxLength, normalizeUserText } from './input';
+export { containsUntrusted, untrusted, withUntrustedNotice, UNTRUSTED_CONTENT_NOTICE } from './prompt';
+export { createMarkdownStreamSanitizer, isSafeUrl, sanitizeMarkdown } from './sanitize';
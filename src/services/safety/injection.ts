@@ -0,0 +1,15 @@
+// Phrases that address the model rather than describe research. Matching one doesn't prove
+// an attack (a paper may study prompt injection), so matches are flagged, not removed.
+const SIGNALS: [name: string, pattern: RegExp][] = [
+  ['ignore_instructions', /\b(ignore|disregard|forget|override)\b[^.\n]{0,40}\b(previous|prior|above|earlier|all|any|your|the)\b[^.\n]{0,20}\b(instructions?|prompts?|rules|directions|guidelines)\b/i],
+  ['new_instructions', /\b(new|updated|real|actual)\s+(instructions?|system prompt)\s*:/i],
+  ['role_override', /\byou\s+are\s+(now|no\s+longer)\b|\bfrom\s+now\s+on\s*,?\s+you\b|\bpretend\s+(to\s+be|you\s+are)\b/i],
+  ['prompt_exfiltration', /\b(reveal|show|print|repeat|output|leak)\b[^.\n]{0,30}\b(system\s+prompt|your\s+(instructions|prompt|rules)|hidden\s+(prompt|instructions))\b/i],
+  ['chat_markup', /<\|(im_start|im_end|system|endoftext)\|>|\[\/?INST\]|^\s*(system|assistant)\s*:/im],
+  ['delimiter_escape', /<\s*\/?\s*untrusted\b/i],
+  ['jailbreak', /\b(jailbreak|DAN\s+mode|developer\s+mode)\b/i]
+];
+
+// Names of the signals found in the text, empty when it looks like ordinary input
+export const detectInjection = (text: string): string[] =>
+  SIGNALS.filter(([, pattern]) => pattern.test(text)).map(([name]) => name);
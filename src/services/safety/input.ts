@@ -0,0 +1,24 @@
+import { InputValidationError } from './errors';
+
+const DEFAULT_QUERY_MAX_LENGTH = 500;
+
+// Zero-width characters and bidi overrides can hide text from a reviewer while the model still reads it
+const INVISIBLE = /[\u200b-\u200f\u202a-\u202e\u2060-\u2064\u2066-\u2069\ufeff]/g;
+// Control characters other than tab, newline and carriage return
+const CONTROL = /[\u0000-\u0008\u000b\u000c\u000e-\u001f\u007f-\u009f]/g;
+
+export const getQueryMaxLength = () => {
+  const value = Number(process.env.QUERY_MAX_LENGTH);
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_QUERY_MAX_LENGTH;
+};
+
+// NFKC folds look-alike characters (fullwidth letters, ligatures) into plain ones before
+// length checks and injection detection see the text
+export const normalizeUserText = (value: unknown, field: string, maxLength: number): string => {
+  if (typeof value !== 'string') throw new InputValidationError(`${field} must be a string`);
+  const normalized = value.normalize('NFKC').replace(INVISIBLE, '').replace(CONTROL, '').trim();
+  if (normalized.length > maxLength) {
+    throw new InputValidationError(`${field} must be at most ${maxLength} characters`);
+  }
+  return normalized;
+};
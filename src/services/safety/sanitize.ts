@@ -0,0 +1,272 @@
+import MarkdownIt from 'markdown-it';
+
+type Token = MarkdownIt.Token;
+
+// Inline HTML the report renderer may keep; everything else is escaped and shown as text
+const ALLOWED_TAGS = new Set(['span', 'sup', 'sub', 'br', 'em', 'strong', 'b', 'i', 'u', 'mark', 'del', 's', 'small']);
+// Only <span style> keeps an attribute, and only these properties
+const ALLOWED_STYLES = new Set(['color', 'background-color', 'font-weight', 'font-style', 'text-decoration']);
+const STYLE_VALUE = /^[#\w\s.,%()-]+$/;
+const SAFE_SCHEMES = new Set(['http:', 'https:', 'mailto:']);
+
+const HTML_PIECE = /<!--[\s\S]*?(?:-->|$)|<(\/?)([a-zA-Z][\w-]*)(?=[\s/>])([^<>]*)>/g;
+const STYLE_ATTRIBUTE = /\bstyle\s*=\s*("([^"]*)"|'([^']*)')/i;
+const ALIGNMENT = /text-align:\s*(left|right|center)/;
+
+// CommonMark with GFM tables and strikethrough. Every link is let through the parser so
+// that unsafe ones can be replaced rather than left as text that looks like a link
+const parser = new MarkdownIt({ html: true });
+parser.validateLink = () => true;
+
+const decodeEntities = (value: string) =>
+  value
+    .replace(/&#x([0-9a-f]+);?/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);?/g, (_, dec) => String.fromCodePoint(Number(dec)))
+    .replace(/&colon;/gi, ':')
+    .replace(/&tab;|&newline;/gi, '');
+
+// Relative links and anchors are fine; absolute ones need an allowed scheme
+export const isSafeUrl = (url: string) => {
+  // Browsers ignore whitespace and control characters inside schemes ("java\tscript:")
+  const normalized = decodeEntities(url).replace(/[\u0000- \u007f-\u009f]/g, '');
+  const scheme = /^([a-zA-Z][\w+.-]*:)/.exec(normalized)?.[1]?.toLowerCase();
+  return !scheme || SAFE_SCHEMES.has(scheme);
+};
+
+const sanitizeStyle = (style: string) =>
+  style.split(';')
+    .map(declaration => declaration.split(':').map(part => part.trim()))
+    .filter(([property, value, ...extra]) =>
+      extra.length === 0 && ALLOWED_STYLES.has(property?.toLowerCase()) && value && STYLE_VALUE.test(value) && !/url|expression/i.test(value))
+    .map(([property, value]) => `${property.toLowerCase()}: ${value}`)
+    .join('; ');
+
+const rebuildTag = (closing: string, name: string, attributes: string) => {
+  const tag = name.toLowerCase();
+  if (closing) return `</${tag}>`;
+  if (tag === 'span') {
+    const match = STYLE_ATTRIBUTE.exec(attributes);
+    const style = match ? sanitizeStyle(match[2] ?? match[3] ?? '') : '';
+    return style ? `<span style="${style}">` : '<span>';
+  }
+  return `<${tag}>`;
+};
+
+// Text comes back out with every character that could start markup escaped, so it can
+// only ever parse as the same text
+const escapeText = (text: string) =>
+  text
+    .replace(/[\\`*_[\]~|]/g, '\\$&')
+    .replace(/&(?=#?\w+;)/g, '&amp;')
+    .replace(/</g, '&lt;');
+
+// Headings, quotes, list items, setext underlines and table delimiter rows are only markup
+// at the start of a line, and indentation or trailing spaces would turn lines into code or
+// hard breaks
+const escapeLines = (text: string) =>
+  text
+    .replace(/^[ \t]+|[ \t]+$/gm, '')
+    .replace(/^([#>+=:-])/gm, '\\$1')
+    .replace(/^(\d{1,9})([.)])/gm, '$1\\$2');
+
+// Allowed tags are rebuilt from scratch; comments are dropped and anything else is escaped
+const sanitizeHtml = (html: string) => {
+  let result = '';
+  let last = 0;
+  for (const match of html.matchAll(HTML_PIECE)) {
+    result += escapeText(html.slice(last, match.index));
+    const [piece, closing, name, attributes] = match;
+    if (name) result += ALLOWED_TAGS.has(name.toLowerCase()) ? rebuildTag(closing, name, attributes) : escapeText(piece);
+    last = match.index! + piece.length;
+  }
+  return result + escapeText(html.slice(last));
+};
+
+const codeSpan = (code: string, inTable: boolean) => {
+  const longest = Math.max(0, ...(code.match(/`+/g) ?? []).map(run => run.length));
+  const fence = '`'.repeat(longest + 1);
+  // The parser strips one space from each end of a padded span
+  const padded = /^`|`$|^ .+ $/.test(code) ? ` ${code} ` : code;
+  return `${fence}${inTable ? padded.replace(/\|/g, '\\|') : padded}${fence}`;
+};
+
+const destination = (url: string, title: string | null) => {
+  const target = isSafeUrl(url) ? url.replace(/[()\\\s<>]/g, '\\$&') : '#';
+  return title ? `(${target} "${title.replace(/\s+/g, ' ').replace(/["\\]/g, '\\$&')}")` : `(${target})`;
+};
+
+const closingIndex = (tokens: Token[], start: number) => {
+  let depth = 0;
+  for (let i = start; i < tokens.length; i++) {
+    depth += tokens[i].nesting;
+    if (depth === 0) return i;
+  }
+  return tokens.length - 1;
+};
+
+// Table cells and headings must stay on one line
+const renderInline = (tokens: Token[], inTable = false, singleLine = inTable): string => {
+  let result = '';
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    switch (token.type) {
+      case 'softbreak':
+        result += singleLine ? ' ' : '\n';
+        break;
+      case 'hardbreak':
+        result += singleLine ? ' ' : '\\\n';
+        break;
+      case 'code_inline':
+        result += codeSpan(token.content, inTable);
+        break;
+      case 'em_open':
+      case 'em_close':
+      case 'strong_open':
+      case 'strong_close':
+      case 's_open':
+      case 's_close':
+        result += token.markup;
+        break;
+      case 'link_open': {
+        const end = closingIndex(tokens, i);
+        const href = token.attrGet('href') ?? '';
+        const text = renderInline(tokens.slice(i + 1, end), inTable);
+        result += token.markup === 'autolink' && isSafeUrl(href) && !/[\s<>]/.test(tokens[i + 1]?.content ?? '<')
+          ? `<${tokens[i + 1].content}>`
+          : `[${text}]${destination(href, token.attrGet('title'))}`;
+        i = end;
+        break;
+      }
+      case 'image':
+        result += `![${renderInline(token.children ?? [], inTable)}]${destination(token.attrGet('src') ?? '', token.attrGet('title'))}`;
+        break;
+      case 'html_inline':
+        result += sanitizeHtml(token.content);
+        break;
+      default:
+        result += escapeText(token.content);
+    }
+  }
+  return result;
+};
+
+const renderTable = (tokens: Token[]) => {
+  const rows: string[][] = [];
+  const alignments: string[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.type === 'tr_open') rows.push([]);
+    if (token.type === 'th_open') alignments.push(ALIGNMENT.exec(token.attrGet('style') ?? '')?.[1] ?? '');
+    if (token.type === 'inline') rows[rows.length - 1].push(renderInline(token.children ?? [], true).trim() || ' ');
+  }
+  const delimiter = alignments.map(align =>
+    align === 'center' ? ':---:' : align === 'left' ? ':---' : align === 'right' ? '---:' : '---');
+  return [rows[0], delimiter, ...rows.slice(1)].map(cells => `| ${cells.join(' | ')} |`).join('\n');
+};
+
+const fenced = (code: string, info: string) => {
+  const fenceChar = info.includes('`') ? '~' : '`';
+  const longest = Math.max(2, ...(code.match(fenceChar === '`' ? /^ {0,3}`+/gm : /^ {0,3}~+/gm) ?? []).map(run => run.trim().length));
+  const fence = fenceChar.repeat(longest + 1);
+  return `${fence}${info}\n${code}${code && !code.endsWith('\n') ? '\n' : ''}${fence}`;
+};
+
+const indent = (text: string, first: string, rest: string) =>
+  text.split('\n').map((line, i) => (i === 0 ? first : line ? rest : '') + line).join('\n');
+
+// Serializes block tokens back to markdown, one string per block
+const renderBlocks = (tokens: Token[]): string[] => {
+  const blocks: string[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const end = token.nesting === 1 ? closingIndex(tokens, i) : i;
+    const inner = tokens.slice(i + 1, end);
+
+    switch (token.type) {
+      case 'paragraph_open':
+        blocks.push(escapeLines(renderInline(inner[0]?.children ?? [])));
+        break;
+      case 'heading_open': {
+        const text = escapeLines(renderInline(inner[0]?.children ?? [], false, true)).replace(/#$/, '\\#');
+        blocks.push(`${'#'.repeat(Number(token.tag.slice(1)))} ${text}`);
+        break;
+      }
+      case 'blockquote_open':
+        blocks.push(indent(renderBlocks(inner).join('\n\n'), '> ', '> ').replace(/^$/gm, '>'));
+        break;
+      case 'bullet_list_open':
+      case 'ordered_list_open': {
+        const tight = inner.some(child => child.type === 'paragraph_open' && child.level === token.level + 2 && child.hidden);
+        const items: string[] = [];
+        for (let j = 0; j < inner.length; j++) {
+          const itemEnd = closingIndex(inner, j);
+          const item = inner[j];
+          const marker = token.type === 'ordered_list_open' ? `${item.info}${item.markup} ` : `${item.markup} `;
+          const content = renderBlocks(inner.slice(j + 1, itemEnd)).join(tight ? '\n' : '\n\n');
+          items.push(content ? indent(content, marker, ' '.repeat(marker.length)) : marker.trimEnd());
+          j = itemEnd;
+        }
+        blocks.push(items.join(tight ? '\n' : '\n\n'));
+        break;
+      }
+      case 'fence':
+      case 'code_block':
+        blocks.push(fenced(token.content, token.info.trim()));
+        break;
+      case 'hr':
+        blocks.push('***');
+        break;
+      // Raw HTML blocks are reduced to the same inline allowlist as HTML inside paragraphs
+      case 'html_block':
+        blocks.push(...token.content.split(/\n[ \t]*\n/).map(part =>
+          escapeLines(renderInline(parser.parseInline(part.trim(), {})[0]?.children ?? []))));
+        break;
+      case 'table_open':
+        blocks.push(renderTable(inner));
+        break;
+    }
+    i = end;
+  }
+  return blocks.filter(Boolean);
+};
+
+interface ParserEnv {
+  // Link reference definitions seen so far, so [text][ref] resolves across stream chunks
+  references?: Record<string, unknown>;
+}
+
+const render = (markdown: string, env: ParserEnv) => renderBlocks(parser.parse(markdown, env)).join('\n\n');
+
+// Reduces model markdown to what the frontend can render safely: inline formatting tags
+// from an allowlist, <span> colours, and links with http(s), mailto or relative URLs.
+// The text is parsed as CommonMark and written back out from the parse tree, so what is
+// kept is exactly what a renderer would see
+export const sanitizeMarkdown = (markdown: string): string => render(markdown, {});
+
+// For streamed reports: a block is sanitized and passed on once a later block has started,
+// so a tag or link split across tokens or lines is only judged once it is whole
+export const createMarkdownStreamSanitizer = (emit: (text: string) => void) => {
+  const env: ParserEnv = {};
+  let pending = '';
+
+  return {
+    write(text: string) {
+      pending += text;
+      if (!text.includes('\n')) return;
+      const lines = pending.replace(/\r\n?/g, '\n').split('\n');
+      // Parse a copy of the references: a definition may still be incomplete
+      const starts = parser.parse(pending, { references: { ...env.references } })
+        .filter(token => token.level === 0 && token.nesting !== -1 && token.map)
+        .map(token => token.map![0]);
+      const last = starts[starts.length - 1];
+      if (starts.length < 2 || !last) return;
+      const complete = render(`${lines.slice(0, last).join('\n')}\n`, env);
+      pending = lines.slice(last).join('\n');
+      if (complete) emit(`${complete}\n\n`);
+    },
+    flush() {
+      if (pending) emit(render(pending, env));
+      pending = '';
+    }
+  };
+};
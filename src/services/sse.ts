@@ -0,0 +1,43 @@
+import { Response } from 'express';
+
+export interface EventStream {
+  send(event: string, data: unknown): void;
+  close(): void;
+  // True once the client has gone away
+  readonly closed: boolean;
+}
+
+export const openEventStream = (res: Response): EventStream => {
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  // Stop nginx and similar proxies from buffering the stream
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+
+  let closed = false;
+  const heartbeat = setInterval(() => {
+    if (!closed) res.write(': keep-alive\n\n');
+  }, 15000);
+
+  res.on('close', () => {
+    closed = true;
+    clearInterval(heartbeat);
+  });
+
+  return {
+    send(event: string, data: unknown) {
+      if (closed) return;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+    close() {
+      clearInterval(heartbeat);
+      if (!closed) res.end();
+      closed = true;
+    },
+    get closed() {
+      return closed;
+    }
+  };
+};
@@ -0,0 +1,88 @@
+import { completeStructured } from '../llm';
+import { promptSuggestionSchema, researchTagsSchema, PromptSuggestion } from './schemas';
+import { logger } from '../observability';
+import { untrusted } from '../safety';
+
+export { promptSuggestionSchema, researchTagsSchema } from './schemas';
+export type { PromptSuggestion } from './schemas';
+
+const emptySuggestion = (query: string): PromptSuggestion => ({
+  refinedQuery: query,
+  suggestedElements: { specificity: [], researchType: [], practicalApplication: [] },
+  questionVariations: [],
+  relatedConcepts: []
+});
+
+export const suggestPrompt = async (initialQuery: string) => {
+  const result = await completeStructured('suggestPrompt',
+    `As a research assistant, analyze this query and suggest improvements:
+          
+          Original query:
+          ${untrusted('query', initialQuery)}
+
+          Provide response in this JSON format:
+          {
+            "refinedQuery": "improved version of the query",
+            "suggestedElements": {
+              "specificity": [
+                "specific aspect 1",
+                "specific aspect 2"
+              ],
+              "researchType": [
+                "methodology 1",
+                "methodology 2"
+              ],
+              "practicalApplication": [
+                "application 1",
+                "application 2"
+              ]
+            },
+            "questionVariations": [
+              {
+                "question": "more specific version of the query",
+                "explanation": "why this version is more effective"
+              },
+              {
+                "question": "alternative approach to the query",
+                "explanation": "how this approach differs"
+              }
+            ],
+            "relatedConcepts": [
+              "technical term 1",
+              "technical term 2"
+            ]
+          }
+
+          Guidelines:
+          1. Make suggestions more specific and measurable
+          2. Include relevant technical terms
+          3. Consider different research approaches
+          4. Focus on practical applications
+          5. Break down complex queries into specific elements
+
+          Respond with the JSON object only, without markdown fences or commentary.`,
+    promptSuggestionSchema,
+    emptySuggestion(initialQuery)
+  );
+
+  if (result.status === 'partial') {
+    logger.warn('Prompt suggestion fell back to partial output', { errors: result.errors });
+  }
+  return result.value;
+};
+
+export const getResearchTags = async (query: string): Promise<string[]> => {
+  try {
+    const result = await completeStructured('researchTags',
+      `Generate 3-4 relevant research type tags for this query:
+          ${untrusted('query', query)}
+          Return only JSON like: {"tags": ["Specificity", "Research type", "Practical application"]}`,
+      researchTagsSchema,
+      { tags: [] }
+    );
+    return result.value.tags;
+  } catch (error) {
+    logger.error('Tag generation error', error);
+    return [];
+  }
+};
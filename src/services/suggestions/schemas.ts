@@ -0,0 +1,23 @@
+import { schema, Infer } from '../llm';
+
+const list = schema.array(schema.string({ minLength: 1 }));
+
+export const promptSuggestionSchema = schema.object({
+  refinedQuery: schema.string({ minLength: 1 }),
+  suggestedElements: schema.object({
+    specificity: list,
+    researchType: list,
+    practicalApplication: list
+  }),
+  questionVariations: schema.array(schema.object({
+    question: schema.string({ minLength: 1 }),
+    explanation: schema.string()
+  })),
+  relatedConcepts: list
+});
+
+export const researchTagsSchema = schema.object({
+  tags: schema.array(schema.string({ minLength: 1, maxLength: 40 }), { minItems: 1, maxItems: 6 })
+});
+
+export type PromptSuggestion = Infer<typeof promptSuggestionSchema>;
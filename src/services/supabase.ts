@@ -0,0 +1,49 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import { recordUpstreamCall } from './observability';
+
+dotenv.config();
+
+let client: SupabaseClient | null = null;
+
+// Counts Supabase requests (database and auth) alongside the other upstreams in /metrics
+const instrumentedFetch: typeof fetch = async (input, init) => {
+  const started = Date.now();
+  try {
+    const response = await fetch(input, init);
+    recordUpstreamCall('supabase', response.status >= 500 ? 'error' : 'success', (Date.now() - started) / 1000);
+    return response;
+  } catch (error) {
+    recordUpstreamCall('supabase', 'error', (Date.now() - started) / 1000);
+    throw error;
+  }
+};
+
+// Created on first use so a setup without Supabase (REPORTS_BACKEND=postgres, AUTH_MODE=local)
+// starts without SUPABASE_URL; only features that still need Supabase fail
+export const getSupabase = (): SupabaseClient => {
+  if (!client) {
+    if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+      throw new Error('Missing Supabase environment variables');
+    }
+    client = createClient(
+      process.env.SUPABASE_URL,
+      process.env.SUPABASE_SERVICE_ROLE_KEY,
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false
+        },
+        global: { fetch: instrumentedFetch }
+      }
+    );
+  }
+  return client;
+};
+
+export const supabase = new Proxy({} as SupabaseClient, {
+  get(_target, property) {
+    const value = Reflect.get(getSupabase(), property);
+    return typeof value === 'function' ? value.bind(getSupabase()) : value;
+  }
+});
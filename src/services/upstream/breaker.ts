@@ -0,0 +1,75 @@
+import { CircuitOpenError } from './errors';
+
+interface BreakerState {
+  failures: number;
+  openedAt?: number;
+  // A single trial request is let through once the cooldown has passed
+  probing: boolean;
+}
+
+const breakers = new Map<string, BreakerState>();
+
+// Upstream keys can come from user input (one breaker per webhook host), so the map is capped.
+// Closed breakers are evicted first, oldest first; forgetting one only resets its failure count.
+const MAX_BREAKERS = 1000;
+
+const evictOne = () => {
+  for (const [upstream, state] of breakers) {
+    if (state.openedAt === undefined) {
+      breakers.delete(upstream);
+      return;
+    }
+  }
+  const oldest = breakers.keys().next();
+  if (!oldest.done) breakers.delete(oldest.value);
+};
+
+const stateFor = (upstream: string) => {
+  let state = breakers.get(upstream);
+  if (!state) {
+    if (breakers.size >= MAX_BREAKERS) evictOne();
+    state = { failures: 0, probing: false };
+    breakers.set(upstream, state);
+  }
+  return state;
+};
+
+export const beforeCall = (upstream: string, cooldownMs: number) => {
+  const state = stateFor(upstream);
+  if (state.openedAt === undefined) return;
+
+  const remaining = state.openedAt + cooldownMs - Date.now();
+  if (remaining > 0 || state.probing) {
+    throw new CircuitOpenError(upstream, Math.max(1, Math.ceil(remaining / 1000)));
+  }
+  state.probing = true;
+};
+
+export const recordSuccess = (upstream: string) => {
+  // Re-inserted so recently used upstreams are the last to be evicted
+  breakers.delete(upstream);
+  stateFor(upstream);
+};
+
+// The probe ended without saying anything about the upstream (the caller gave up), so the
+// next request may probe instead; without this the circuit would stay open for good
+export const releaseProbe = (upstream: string) => {
+  const state = breakers.get(upstream);
+  if (state) state.probing = false;
+};
+
+export const recordFailure = (upstream: string, failureThreshold: number) => {
+  const state = stateFor(upstream);
+  state.failures++;
+  if (state.probing || state.failures >= failureThreshold) {
+    state.openedAt = Date.now();
+  }
+  state.probing = false;
+};
+
+export const circuitStates = () =>
+  Array.from(breakers.entries()).map(([upstream, state]) => ({
+    upstream,
+    state: state.openedAt === undefined ? 'closed' : state.probing ? 'half-open' : 'open',
+    failures: state.failures
+  }));
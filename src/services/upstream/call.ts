@@ -0,0 +1,148 @@
+import { logger, recordUpstreamCall } from '../observability';
+import { beforeCall, recordFailure, recordSuccess, releaseProbe } from './breaker';
+import { CircuitOpenError, UpstreamError, UpstreamTimeoutError } from './errors';
+import { getUpstreamPolicy, UpstreamKind } from './policy';
+
+export interface AttemptContext {
+  signal: AbortSignal;
+  attempt: number;
+  // Restarts the timeout; streams call it for every chunk received
+  touch(): void;
+}
+
+export interface CallOptions {
+  // Breaker and pacing key; defaults to the kind (LLM calls use one per model)
+  upstream?: string;
+  signal?: AbortSignal;
+  // Extra veto on retrying, e.g. once a stream has emitted tokens
+  canRetry?: () => boolean;
+}
+
+const lastRequestAt = new Map<string, number>();
+const pacing = new Map<string, Promise<void>>();
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(abortError());
+    return;
+  }
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(abortError());
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+const abortError = () => {
+  const error = new Error('The operation was aborted');
+  error.name = 'AbortError';
+  return error;
+};
+
+// Requests to a paced upstream go out one at a time, minIntervalMs apart
+const waitForTurn = (upstream: string, minIntervalMs: number, signal?: AbortSignal) => {
+  if (minIntervalMs <= 0) return Promise.resolve();
+
+  const turn = (pacing.get(upstream) || Promise.resolve()).then(async () => {
+    const wait = (lastRequestAt.get(upstream) || 0) + minIntervalMs - Date.now();
+    if (wait > 0) await sleep(wait);
+    lastRequestAt.set(upstream, Date.now());
+  });
+  pacing.set(upstream, turn.catch(() => undefined));
+  if (!signal) return turn;
+
+  return new Promise<void>((resolve, reject) => {
+    if (signal.aborted) {
+      reject(abortError());
+      return;
+    }
+    const onAbort = () => reject(abortError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    turn.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+};
+
+const isRetryable = (error: unknown) =>
+  error instanceof UpstreamError ? error.retryable : !(error instanceof Error && error.name === 'AbortError');
+
+const backoff = (attempt: number, base: number, max: number, error: unknown) => {
+  if (error instanceof UpstreamError && error.retryAfter !== undefined) {
+    return Math.min(error.retryAfter * 1000, max);
+  }
+  const exponential = Math.min(base * 2 ** attempt, max);
+  return exponential / 2 + Math.random() * exponential / 2;
+};
+
+// Runs fn with the upstream's timeout, retry, pacing and circuit-breaker policy.
+// Aborts from the caller's signal are passed through untouched and never retried.
+export const callUpstream = async <T>(
+  kind: UpstreamKind,
+  fn: (context: AttemptContext) => Promise<T>,
+  options: CallOptions = {}
+): Promise<T> => {
+  const policy = getUpstreamPolicy(kind);
+  const upstream = options.upstream || kind;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      beforeCall(upstream, policy.cooldownMs);
+    } catch (error) {
+      if (error instanceof CircuitOpenError) recordUpstreamCall(kind, 'rejected');
+      throw error;
+    }
+    try {
+      await waitForTurn(upstream, policy.minIntervalMs, options.signal);
+    } catch (error) {
+      releaseProbe(upstream);
+      throw error;
+    }
+
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+
+    let timedOut = false;
+    let timer: NodeJS.Timeout | undefined;
+    const touch = () => {
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, policy.timeoutMs);
+    };
+
+    const started = Date.now();
+    try {
+      touch();
+      const result = await fn({ signal: controller.signal, attempt, touch });
+      recordSuccess(upstream);
+      recordUpstreamCall(kind, 'success', (Date.now() - started) / 1000);
+      return result;
+    } catch (caught) {
+      if (options.signal?.aborted) {
+        releaseProbe(upstream);
+        throw caught;
+      }
+
+      const error = timedOut ? new UpstreamTimeoutError(upstream, policy.timeoutMs) : caught;
+      recordUpstreamCall(kind, timedOut ? 'timeout' : 'error', (Date.now() - started) / 1000);
+      // Client errors such as 400 say nothing about the upstream's health
+      const retryable = isRetryable(error);
+      if (retryable) recordFailure(upstream, policy.failureThreshold);
+      else recordSuccess(upstream);
+
+      const retry = attempt < policy.retries && retryable && (!options.canRetry || options.canRetry());
+      if (!retry) throw error;
+
+      logger.warn(`${upstream} attempt ${attempt + 1} failed, retrying`, { upstream, reason: (error as Error).message });
+      await sleep(backoff(attempt, policy.backoffMs, policy.maxBackoffMs, error), options.signal);
+    } finally {
+      if (timer) clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onAbort);
+    }
+  }
+};
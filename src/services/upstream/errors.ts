@@ -0,0 +1,34 @@
+export class UpstreamError extends Error {
+  constructor(
+    public readonly upstream: string,
+    message: string,
+    public readonly status?: number,
+    // Seconds from a Retry-After header, when the upstream sent one
+    public readonly retryAfter?: number
+  ) {
+    super(message);
+    this.name = 'UpstreamError';
+  }
+
+  get retryable() {
+    return this.status === undefined || this.status === 408 || this.status === 429 || this.status >= 500;
+  }
+}
+
+export class UpstreamTimeoutError extends UpstreamError {
+  constructor(upstream: string, timeoutMs: number) {
+    super(upstream, `${upstream} did not respond within ${Math.round(timeoutMs / 1000)}s`);
+    this.name = 'UpstreamTimeoutError';
+  }
+}
+
+export class CircuitOpenError extends UpstreamError {
+  constructor(upstream: string, retryAfter: number) {
+    super(upstream, `${upstream} is temporarily unavailable after repeated failures`, undefined, retryAfter);
+    this.name = 'CircuitOpenError';
+  }
+
+  get retryable() {
+    return false;
+  }
+}
@@ -0,0 +1,55 @@
+import fetch, { Headers, RequestInit, Response } from 'node-fetch';
+import { getRequestId } from '../observability';
+import { callUpstream, CallOptions } from './call';
+import { UpstreamError } from './errors';
+import { UpstreamKind } from './policy';
+
+const retryAfterSeconds = (response: Response) => {
+  const header = response.headers.get('retry-after');
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return seconds;
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+};
+
+// Throws an UpstreamError carrying the status so the call policy can decide whether to retry
+export const ensureOk = async (upstream: string, response: Response, label = upstream) => {
+  if (response.ok) return response;
+  const data = await response.json().catch(() => null);
+  throw new UpstreamError(
+    upstream,
+    data?.error?.message || `${label} API error: ${response.status} ${response.statusText}`,
+    response.status,
+    retryAfterSeconds(response)
+  );
+};
+
+// Propagates the current request id so upstream logs can be correlated with ours
+const withRequestId = (headers: RequestInit['headers']) => {
+  const requestId = getRequestId();
+  if (!requestId) return headers;
+  const merged = new Headers(headers);
+  if (!merged.has('x-request-id')) merged.set('X-Request-Id', requestId);
+  return merged;
+};
+
+const fetchWithPolicy = <T>(
+  kind: UpstreamKind,
+  url: string,
+  init: RequestInit,
+  read: (response: Response) => Promise<T>,
+  options: CallOptions & { label?: string }
+) =>
+  callUpstream(kind, async ({ signal }) => {
+    const response = await fetch(url, { ...init, headers: withRequestId(init.headers), signal: signal as any });
+    await ensureOk(options.upstream || kind, response, options.label);
+    // Reading the body stays inside the attempt so it is covered by the timeout
+    return read(response);
+  }, options);
+
+export const fetchJson = (kind: UpstreamKind, url: string, init: RequestInit = {}, options: CallOptions & { label?: string } = {}) =>
+  fetchWithPolicy(kind, url, init, response => response.json(), options);
+
+export const fetchText = (kind: UpstreamKind, url: string, init: RequestInit = {}, options: CallOptions & { label?: string } = {}) =>
+  fetchWithPolicy(kind, url, init, response => response.text(), options);
@@ -0,0 +1,7 @@
+export { callUpstream } from './call';
+export type { AttemptContext, CallOptions } from './call';
+export { fetchJson, fetchText, ensureOk } from './http';
+export { getUpstreamPolicy } from './policy';
+export type { UpstreamKind, UpstreamPolicy } from './policy';
+export { circuitStates } from './breaker';
+export { UpstreamError, UpstreamTimeoutError, CircuitOpenError } from './errors';
@@ -0,0 +1,59 @@
+export interface UpstreamPolicy {
+  // Per attempt; for streams it is the longest allowed gap between chunks
+  timeoutMs: number;
+  retries: number;
+  backoffMs: number;
+  maxBackoffMs: number;
+  // Minimum spacing between requests to the upstream (arXiv asks for 3s)
+  minIntervalMs: number;
+  // Consecutive failures that open the circuit, and how long it stays open
+  failureThreshold: number;
+  cooldownMs: number;
+}
+
+export type UpstreamKind = 'llm' | 'arxiv' | 'semanticScholar' | 'pubmed' | 'crossref' | 'webhook';
+
+const BASE: UpstreamPolicy = {
+  timeoutMs: 20_000,
+  retries: 2,
+  backoffMs: 500,
+  maxBackoffMs: 8000,
+  minIntervalMs: 0,
+  failureThreshold: 5,
+  cooldownMs: 30_000
+};
+
+const DEFAULTS: Record<UpstreamKind, Partial<UpstreamPolicy>> = {
+  llm: { timeoutMs: 60_000 },
+  arxiv: { minIntervalMs: 3000, backoffMs: 3000 },
+  semanticScholar: { backoffMs: 1000 },
+  // NCBI allows 3 requests/s without an API key
+  pubmed: { minIntervalMs: process.env.NCBI_API_KEY ? 100 : 340 },
+  crossref: {},
+  webhook: { timeoutMs: 10_000 }
+};
+
+const numberFromEnv = (name: string): number | undefined => {
+  const value = process.env[name];
+  if (value === undefined || value === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+// semanticScholar -> UPSTREAM_SEMANTIC_SCHOLAR
+const envPrefix = (kind: UpstreamKind) => `UPSTREAM_${kind.replace(/([A-Z])/g, '_$1').toUpperCase()}`;
+
+// Precedence: UPSTREAM_<KIND>_<SETTING> > per-upstream defaults > base defaults
+export const getUpstreamPolicy = (kind: UpstreamKind): UpstreamPolicy => {
+  const policy = { ...BASE, ...DEFAULTS[kind] };
+  const prefix = envPrefix(kind);
+  return {
+    timeoutMs: numberFromEnv(`${prefix}_TIMEOUT_MS`) ?? policy.timeoutMs,
+    retries: numberFromEnv(`${prefix}_RETRIES`) ?? policy.retries,
+    backoffMs: numberFromEnv(`${prefix}_BACKOFF_MS`) ?? policy.backoffMs,
+    maxBackoffMs: policy.maxBackoffMs,
+    minIntervalMs: numberFromEnv(`${prefix}_MIN_INTERVAL_MS`) ?? policy.minIntervalMs,
+    failureThreshold: numberFromEnv(`${prefix}_FAILURE_THRESHOLD`) ?? policy.failureThreshold,
+    cooldownMs: numberFromEnv(`${prefix}_COOLDOWN_MS`) ?? policy.cooldownMs
+  };
+};
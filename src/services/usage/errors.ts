@@ -0,0 +1,11 @@
+export class UsageLimitError extends Error {
+  constructor(
+    message: string,
+    // Seconds until the limit resets, sent as Retry-After
+    public readonly retryAfter: number,
+    public readonly limit: 'rate' | 'daily' | 'monthly'
+  ) {
+    super(message);
+    this.name = 'UsageLimitError';
+  }
+}
@@ -0,0 +1,90 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { createMemoryUsageStore } from './memory';
+import { createPostgresUsageStore } from './postgres';
+import { checkQuota, checkRateLimit, startOfDay, startOfMonth } from './limits';
+import { getPlanLimits, planForUser } from './plans';
+import { UsageEndpoint, UsageStore } from './types';
+import { logger } from '../observability';
+
+export { UsageLimitError } from './errors';
+export { getPlanLimits, planForUser } from './plans';
+export type { PlanLimits, QuotaLimits, TokenUsageRecord, UsageEndpoint, UsageStore, UsageTotals } from './types';
+
+let store: UsageStore | null = null;
+
+export const getUsageStore = (): UsageStore => {
+  if (!store) {
+    store = process.env.USAGE_BACKEND === 'postgres' ? createPostgresUsageStore() : createMemoryUsageStore();
+  }
+  return store;
+};
+
+interface UsageContext {
+  userId: string;
+  endpoint?: UsageEndpoint;
+}
+
+// Lets LLM calls deep inside the pipelines charge the user who triggered them
+const usageContext = new AsyncLocalStorage<UsageContext>();
+
+export const withUsageContext = <T>(context: UsageContext, fn: () => T): T =>
+  usageContext.run(context, fn);
+
+// Called for every completion that actually reached the provider (cache hits are free)
+export const recordTokenUsage = (
+  task: string,
+  result: { model: string; provider: string; usage?: { promptTokens: number; completionTokens: number; totalTokens: number } }
+) => {
+  const context = usageContext.getStore();
+  if (!context || !result.usage) return;
+
+  getUsageStore().recordTokens({
+    userId: context.userId,
+    endpoint: context.endpoint,
+    task,
+    model: result.model,
+    provider: result.provider,
+    ...result.usage
+  }).catch(error => logger.error('Usage record error', error));
+};
+
+// Throws UsageLimitError when the request must be refused; otherwise counts it
+export const admitRequest = async (userId: string, plan: string, endpoint: UsageEndpoint) => {
+  const limits = getPlanLimits(plan);
+  checkRateLimit(userId, endpoint, limits.rateLimits[endpoint]);
+  await checkQuota(getUsageStore(), userId, plan, endpoint);
+  await getUsageStore().recordRequest(userId, endpoint);
+};
+
+const remaining = (limit: number | null, used: number) => limit === null ? null : Math.max(0, limit - used);
+
+export const getUsageSummary = async (user: any) => {
+  const plan = planForUser(user);
+  const limits = getPlanLimits(plan);
+  const now = new Date();
+  const [today, month] = await Promise.all([
+    getUsageStore().totals(user.id, startOfDay(now)),
+    getUsageStore().totals(user.id, startOfMonth(now))
+  ]);
+
+  return {
+    plan,
+    limits,
+    daily: {
+      since: startOfDay(now).toISOString(),
+      ...today,
+      remaining: {
+        reports: remaining(limits.daily.reports, today.requests.report || 0),
+        tokens: remaining(limits.daily.tokens, today.totalTokens)
+      }
+    },
+    monthly: {
+      since: startOfMonth(now).toISOString(),
+      ...month,
+      remaining: {
+        reports: remaining(limits.monthly.reports, month.requests.report || 0),
+        tokens: remaining(limits.monthly.tokens, month.totalTokens)
+      }
+    }
+  };
+};
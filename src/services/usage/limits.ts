@@ -0,0 +1,74 @@
+import { UsageLimitError } from './errors';
+import { getPlanLimits } from './plans';
+import { QuotaLimits, UsageEndpoint, UsageStore, UsageTotals } from './types';
+
+const RATE_WINDOW_MS = 60 * 1000;
+
+// Fixed one-minute windows per user and endpoint; kept in process memory
+const windows = new Map<string, { startedAt: number; count: number }>();
+
+const pruneWindows = (now: number) => {
+  for (const [key, window] of Array.from(windows.entries())) {
+    if (now - window.startedAt >= RATE_WINDOW_MS) windows.delete(key);
+  }
+};
+
+export const checkRateLimit = (userId: string, endpoint: UsageEndpoint, perMinute: number | null) => {
+  if (perMinute === null || perMinute === undefined) return;
+
+  const now = Date.now();
+  if (windows.size > 10_000) pruneWindows(now);
+
+  const key = `${userId}:${endpoint}`;
+  let window = windows.get(key);
+  if (!window || now - window.startedAt >= RATE_WINDOW_MS) {
+    window = { startedAt: now, count: 0 };
+    windows.set(key, window);
+  }
+
+  if (window.count >= perMinute) {
+    const retryAfter = Math.ceil((window.startedAt + RATE_WINDOW_MS - now) / 1000);
+    throw new UsageLimitError(`Rate limit of ${perMinute} ${endpoint} requests per minute exceeded`, retryAfter, 'rate');
+  }
+  window.count++;
+};
+
+export const startOfDay = (now = new Date()) =>
+  new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+
+export const startOfMonth = (now = new Date()) =>
+  new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+
+const nextDay = (now: Date) => new Date(startOfDay(now).getTime() + 24 * 60 * 60 * 1000);
+
+const nextMonth = (now: Date) => new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+
+const secondsUntil = (date: Date, now: Date) => Math.max(1, Math.ceil((date.getTime() - now.getTime()) / 1000));
+
+const exceeded = (totals: UsageTotals, limits: QuotaLimits, endpoint: UsageEndpoint): string | null => {
+  if (limits.tokens !== null && totals.totalTokens >= limits.tokens) {
+    return `token quota of ${limits.tokens}`;
+  }
+  if (endpoint === 'report' && limits.reports !== null && (totals.requests.report || 0) >= limits.reports) {
+    return `report quota of ${limits.reports}`;
+  }
+  return null;
+};
+
+// Daily and monthly windows reset at UTC midnight and the first of the month
+export const checkQuota = async (store: UsageStore, userId: string, plan: string, endpoint: UsageEndpoint) => {
+  const limits = getPlanLimits(plan);
+  const now = new Date();
+
+  const monthly = await store.totals(userId, startOfMonth(now));
+  const monthlyReason = exceeded(monthly, limits.monthly, endpoint);
+  if (monthlyReason) {
+    throw new UsageLimitError(`Monthly ${monthlyReason} reached`, secondsUntil(nextMonth(now), now), 'monthly');
+  }
+
+  const daily = await store.totals(userId, startOfDay(now));
+  const dailyReason = exceeded(daily, limits.daily, endpoint);
+  if (dailyReason) {
+    throw new UsageLimitError(`Daily ${dailyReason} reached`, secondsUntil(nextDay(now), now), 'daily');
+  }
+};
@@ -0,0 +1,60 @@
+import { TokenUsageRecord, UsageEndpoint, UsageStore, UsageTotals } from './types';
+
+type Event =
+  | { kind: 'request'; endpoint: UsageEndpoint; at: number }
+  | { kind: 'tokens'; record: TokenUsageRecord; at: number };
+
+// Enough history for the monthly quota window
+const RETENTION_MS = 32 * 24 * 60 * 60 * 1000;
+
+export const emptyTotals = (): UsageTotals => ({
+  requests: {},
+  promptTokens: 0,
+  completionTokens: 0,
+  totalTokens: 0,
+  byModel: {}
+});
+
+export const addTokens = (totals: UsageTotals, model: string, tokens: { promptTokens: number; completionTokens: number; totalTokens: number }) => {
+  totals.promptTokens += tokens.promptTokens;
+  totals.completionTokens += tokens.completionTokens;
+  totals.totalTokens += tokens.totalTokens;
+  const entry = totals.byModel[model] || (totals.byModel[model] = { promptTokens: 0, completionTokens: 0, totalTokens: 0 });
+  entry.promptTokens += tokens.promptTokens;
+  entry.completionTokens += tokens.completionTokens;
+  entry.totalTokens += tokens.totalTokens;
+};
+
+export const createMemoryUsageStore = (): UsageStore => {
+  const events = new Map<string, Event[]>();
+
+  const push = (userId: string, event: Event) => {
+    const list = events.get(userId) || [];
+    const cutoff = Date.now() - RETENTION_MS;
+    while (list.length > 0 && list[0].at < cutoff) list.shift();
+    list.push(event);
+    events.set(userId, list);
+  };
+
+  return {
+    name: 'memory',
+    async recordRequest(userId, endpoint) {
+      push(userId, { kind: 'request', endpoint, at: Date.now() });
+    },
+    async recordTokens(record) {
+      push(record.userId, { kind: 'tokens', record, at: Date.now() });
+    },
+    async totals(userId, since) {
+      const totals = emptyTotals();
+      for (const event of events.get(userId) || []) {
+        if (event.at < since.getTime()) continue;
+        if (event.kind === 'request') {
+          totals.requests[event.endpoint] = (totals.requests[event.endpoint] || 0) + 1;
+        } else {
+          addTokens(totals, event.record.model, event.record);
+        }
+      }
+      return totals;
+    }
+  };
+};
@@ -0,0 +1,65 @@
+import fs from 'fs';
+import { PlanLimits } from './types';
+import { logger } from '../observability';
+
+const DEFAULT_PLANS: Record<string, PlanLimits> = {
+  free: {
+    rateLimits: { search: 20, report: 3, suggest: 10, analyze: 20, chat: 20 },
+    daily: { reports: 5, tokens: 200_000 },
+    monthly: { reports: 50, tokens: 2_000_000 }
+  },
+  pro: {
+    rateLimits: { search: 60, report: 10, suggest: 30, analyze: 60, chat: 60 },
+    daily: { reports: 50, tokens: 2_000_000 },
+    monthly: { reports: 1000, tokens: 40_000_000 }
+  },
+  team: {
+    rateLimits: { search: 120, report: 20, suggest: 60, analyze: 120, chat: 120 },
+    daily: { reports: 200, tokens: 10_000_000 },
+    monthly: { reports: 5000, tokens: 200_000_000 }
+  }
+};
+
+type PlansFile = Record<string, Partial<PlanLimits>>;
+
+let cachedFile: { path: string; mtimeMs: number; contents: PlansFile } | null = null;
+
+// USAGE_PLANS_FILE is re-read whenever it changes on disk, like LLM_CONFIG_FILE
+const readPlansFile = (): PlansFile => {
+  const path = process.env.USAGE_PLANS_FILE;
+  if (!path) return {};
+
+  try {
+    const { mtimeMs } = fs.statSync(path);
+    if (cachedFile && cachedFile.path === path && cachedFile.mtimeMs === mtimeMs) {
+      return cachedFile.contents;
+    }
+
+    const contents = JSON.parse(fs.readFileSync(path, 'utf8')) as PlansFile;
+    cachedFile = { path, mtimeMs, contents };
+    return contents;
+  } catch (error) {
+    logger.error('Usage plans file error', error);
+    return cachedFile?.contents || {};
+  }
+};
+
+export const defaultPlan = () => process.env.USAGE_DEFAULT_PLAN || 'free';
+
+// Plans from the file are merged over the built-in tier of the same name (or the default tier)
+export const getPlanLimits = (plan: string): PlanLimits => {
+  const file = readPlansFile();
+  const base = DEFAULT_PLANS[plan] || DEFAULT_PLANS[defaultPlan()] || DEFAULT_PLANS.free;
+  const override = file[plan] || {};
+  return {
+    rateLimits: { ...base.rateLimits, ...override.rateLimits },
+    daily: { ...base.daily, ...override.daily },
+    monthly: { ...base.monthly, ...override.monthly }
+  };
+};
+
+// The tier is stored in the user's Supabase app_metadata (`plan`)
+export const planForUser = (user: any): string => {
+  const plan = user?.app_metadata?.plan;
+  return typeof plan === 'string' && plan ? plan : defaultPlan();
+};
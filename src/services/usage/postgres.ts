@@ -0,0 +1,53 @@
+import { getPool } from '../db';
+import { addTokens, emptyTotals } from './memory';
+import { UsageEndpoint, UsageStore } from './types';
+
+// The table comes from db/migrations/0009_usage_events.sql
+export const createPostgresUsageStore = (): UsageStore => {
+  return {
+    name: 'postgres',
+    async recordRequest(userId, endpoint) {
+      await getPool().query(
+        "INSERT INTO usage_events (user_id, kind, endpoint) VALUES ($1, 'request', $2)",
+        [userId, endpoint]
+      );
+    },
+    async recordTokens(record) {
+      await getPool().query(
+        `INSERT INTO usage_events (user_id, kind, endpoint, task, provider, model, prompt_tokens, completion_tokens, total_tokens)
+         VALUES ($1, 'tokens', $2, $3, $4, $5, $6, $7, $8)`,
+        [
+          record.userId, record.endpoint || null, record.task, record.provider, record.model,
+          record.promptTokens, record.completionTokens, record.totalTokens
+        ]
+      );
+    },
+    async totals(userId, since) {
+      const { rows } = await getPool().query(
+        `SELECT kind, endpoint, model, COUNT(*)::int AS count,
+                SUM(prompt_tokens)::int AS prompt_tokens,
+                SUM(completion_tokens)::int AS completion_tokens,
+                SUM(total_tokens)::int AS total_tokens
+         FROM usage_events
+         WHERE user_id = $1 AND created_at >= $2
+         GROUP BY kind, endpoint, model`,
+        [userId, since.toISOString()]
+      );
+
+      const totals = emptyTotals();
+      for (const row of rows) {
+        if (row.kind === 'request') {
+          const endpoint = row.endpoint as UsageEndpoint;
+          totals.requests[endpoint] = (totals.requests[endpoint] || 0) + row.count;
+        } else {
+          addTokens(totals, row.model, {
+            promptTokens: row.prompt_tokens,
+            completionTokens: row.completion_tokens,
+            totalTokens: row.total_tokens
+          });
+        }
+      }
+      return totals;
+    }
+  };
+};
@@ -0,0 +1,41 @@
+// Endpoints that are rate limited and counted separately
+export type UsageEndpoint = 'search' | 'report' | 'suggest' | 'analyze' | 'chat';
+
+export interface TokenUsageRecord {
+  userId: string;
+  endpoint?: UsageEndpoint;
+  task: string;
+  model: string;
+  provider: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface UsageTotals {
+  requests: Partial<Record<UsageEndpoint, number>>;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  byModel: Record<string, { promptTokens: number; completionTokens: number; totalTokens: number }>;
+}
+
+export interface UsageStore {
+  name: string;
+  recordRequest(userId: string, endpoint: UsageEndpoint): Promise<void>;
+  recordTokens(record: TokenUsageRecord): Promise<void>;
+  totals(userId: string, since: Date): Promise<UsageTotals>;
+}
+
+export interface QuotaLimits {
+  // Report generations (streaming, synchronous and queued); null means unlimited
+  reports: number | null;
+  tokens: number | null;
+}
+
+export interface PlanLimits {
+  // Requests per minute for each endpoint; null means unlimited
+  rateLimits: Record<UsageEndpoint, number | null>;
+  daily: QuotaLimits;
+  monthly: QuotaLimits;
+}
@@ -0,0 +1,49 @@
+import { getReportRepository, ReportRecord } from '../reports';
+import { WorkspaceNotFoundError, WorkspacePermissionError } from './errors';
+import { hasRole } from './roles';
+import { getMembership } from './store';
+import { WorkspaceRole } from './types';
+
+const ROLE_ACTIONS: Record<WorkspaceRole, string> = {
+  viewer: 'view',
+  editor: 'edit',
+  owner: 'manage'
+};
+
+// Non-members get "not found" so other users' workspaces are not revealed
+export const requireWorkspaceRole = async (workspaceId: string, userId: string, required: WorkspaceRole): Promise<WorkspaceRole> => {
+  const role = await getMembership(workspaceId, userId);
+  if (!role) throw new WorkspaceNotFoundError();
+  if (!hasRole(role, required)) {
+    throw new WorkspacePermissionError(`You need the ${required} role to ${ROLE_ACTIONS[required]} this workspace`);
+  }
+  return role;
+};
+
+// A workspace report is reached through current membership only, so its creator loses access
+// when removed from the workspace. Personal reports belong to their creator.
+export const reportRole = async (
+  report: { user_id: string; workspace_id?: string | null },
+  userId: string
+): Promise<WorkspaceRole | null> => {
+  if (report.workspace_id) return getMembership(report.workspace_id, userId);
+  return report.user_id === userId ? 'owner' : null;
+};
+
+// Loads a report the user may access with at least `required`. Returns null when the report
+// doesn't exist or the user can't see it; throws when they can see it but not change it.
+export const findAccessibleReport = async (
+  reportId: string | number,
+  userId: string,
+  required: WorkspaceRole
+): Promise<(ReportRecord & { role: WorkspaceRole }) | null> => {
+  const report = await getReportRepository().get(String(reportId));
+  if (!report) return null;
+
+  const role = await reportRole(report, userId);
+  if (!role) return null;
+  if (!hasRole(role, required)) {
+    throw new WorkspacePermissionError(`You need the ${required} role in this workspace to ${ROLE_ACTIONS[required]} the report`);
+  }
+  return { ...report, role };
+};
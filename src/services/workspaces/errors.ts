@@ -0,0 +1,21 @@
+// Also used when the user is not a member, so workspaces of others are not revealed
+export class WorkspaceNotFoundError extends Error {
+  constructor(message = 'Workspace not found') {
+    super(message);
+    this.name = 'WorkspaceNotFoundError';
+  }
+}
+
+export class WorkspacePermissionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WorkspacePermissionError';
+  }
+}
+
+export class WorkspaceValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WorkspaceValidationError';
+  }
+}
@@ -0,0 +1,181 @@
+import { paperIdentity, Paper } from '../papers';
+import { getReportRepository, ReportRecord, ReportSummary } from '../reports';
+import { WorkspaceNotFoundError, WorkspacePermissionError, WorkspaceValidationError } from './errors';
+import { findAccessibleReport, requireWorkspaceRole } from './access';
+import {
+  deleteMember,
+  findCollection,
+  getCollection,
+  getMembership,
+  insertCollectionPapers,
+  insertWorkspace,
+  listCollectionPapers,
+  listMembers,
+  upsertMember,
+  deleteWorkspace as removeWorkspace
+} from './store';
+import { Collection, CollectionPaper, Workspace, WorkspaceMember, WorkspaceRole } from './types';
+
+export { WorkspaceNotFoundError, WorkspacePermissionError, WorkspaceValidationError } from './errors';
+export { WORKSPACE_ROLES, hasRole, isWorkspaceRole } from './roles';
+export { requireWorkspaceRole, findAccessibleReport, reportRole } from './access';
+export {
+  getMembership,
+  getWorkspace,
+  listWorkspacesForUser,
+  updateWorkspace,
+  listMembers,
+  listCollections,
+  insertCollection,
+  getCollection,
+  updateCollection,
+  deleteCollection,
+  listCollectionPapers,
+  deleteCollectionPaper
+} from './store';
+export type { Collection, CollectionPaper, Workspace, WorkspaceMember, WorkspaceRole, WorkspaceStore } from './types';
+
+const MAX_NAME_LENGTH = 200;
+// Reports listed with a collection
+const MAX_COLLECTION_REPORTS = 500;
+// Papers a single report can be generated from
+export const MAX_COLLECTION_REPORT_PAPERS = 20;
+
+export const validateName = (value: unknown, label: string): string => {
+  const name = typeof value === 'string' ? value.trim() : '';
+  if (!name) throw new WorkspaceValidationError(`${label} is required`);
+  if (name.length > MAX_NAME_LENGTH) throw new WorkspaceValidationError(`${label} must be at most ${MAX_NAME_LENGTH} characters`);
+  return name;
+};
+
+export const createWorkspace = async (userId: string, name: string): Promise<Workspace & { role: WorkspaceRole }> => {
+  const workspace = await insertWorkspace({ name, created_by: userId, created_at: new Date().toISOString() });
+  await upsertMember({ workspace_id: workspace.id, user_id: userId, role: 'owner' });
+  return { ...workspace, role: 'owner' };
+};
+
+export const deleteWorkspace = async (workspaceId: string, userId: string) => {
+  await requireWorkspaceRole(workspaceId, userId, 'owner');
+  await removeWorkspace(workspaceId);
+};
+
+// A workspace always keeps at least one owner
+const ensureOwnerRemains = async (workspaceId: string, changedUserId: string) => {
+  const owners = (await listMembers(workspaceId)).filter(member => member.role === 'owner');
+  if (owners.length === 1 && owners[0].user_id === changedUserId) {
+    throw new WorkspaceValidationError('A workspace needs at least one owner');
+  }
+};
+
+export const setMemberRole = async (
+  workspaceId: string,
+  actingUserId: string,
+  memberUserId: string,
+  role: WorkspaceRole
+): Promise<WorkspaceMember> => {
+  await requireWorkspaceRole(workspaceId, actingUserId, 'owner');
+  const current = await getMembership(workspaceId, memberUserId);
+  if (current === 'owner' && role !== 'owner') await ensureOwnerRemains(workspaceId, memberUserId);
+  return upsertMember({ workspace_id: workspaceId, user_id: memberUserId, role });
+};
+
+// Owners remove anyone; every member can leave
+export const removeMember = async (workspaceId: string, actingUserId: string, memberUserId: string): Promise<boolean> => {
+  if (actingUserId !== memberUserId) {
+    await requireWorkspaceRole(workspaceId, actingUserId, 'owner');
+  } else if (!await getMembership(workspaceId, actingUserId)) {
+    throw new WorkspaceNotFoundError();
+  }
+  if (await getMembership(workspaceId, memberUserId) === 'owner') await ensureOwnerRemains(workspaceId, memberUserId);
+  return deleteMember(workspaceId, memberUserId);
+};
+
+export const addPapersToCollection = async (
+  collection: Collection,
+  userId: string,
+  papers: Paper[],
+  note?: string
+): Promise<{ added: CollectionPaper[]; skipped: number }> => {
+  const byKey = new Map<string, Paper>();
+  papers.forEach(paper => byKey.set(paperIdentity(paper), paper));
+
+  const now = new Date().toISOString();
+  const added = await insertCollectionPapers(Array.from(byKey.entries()).map(([key, paper]) => ({
+    collection_id: collection.id,
+    paper_key: key,
+    // Ranking data belongs to the search the paper came from, not the collection
+    paper: { ...paper, relevance: undefined },
+    note: note || null,
+    added_by: userId,
+    created_at: now
+  })));
+  return { added, skipped: papers.length - added.length };
+};
+
+// Resolves where a new report goes and, for a collection, the papers to write it from.
+// Saving into a workspace requires the editor role there.
+export const resolveReportTarget = async (
+  userId: string,
+  input: { workspaceId?: string; collectionId?: string }
+): Promise<{ workspaceId?: string; collection?: Collection; papers?: Paper[] }> => {
+  if (input.collectionId) {
+    const collection = await findCollection(input.collectionId);
+    if (!collection || (input.workspaceId && collection.workspace_id !== input.workspaceId)) {
+      throw new WorkspaceNotFoundError('Collection not found');
+    }
+    try {
+      await requireWorkspaceRole(collection.workspace_id, userId, 'editor');
+    } catch (error) {
+      // Hide collections of workspaces the user isn't in
+      if (error instanceof WorkspaceNotFoundError) throw new WorkspaceNotFoundError('Collection not found');
+      throw error;
+    }
+
+    const papers = (await listCollectionPapers(collection.id, MAX_COLLECTION_REPORT_PAPERS)).map(entry => entry.paper);
+    if (papers.length === 0) throw new WorkspaceValidationError('The collection has no papers');
+    return { workspaceId: collection.workspace_id, collection, papers };
+  }
+
+  if (input.workspaceId) {
+    await requireWorkspaceRole(input.workspaceId, userId, 'editor');
+    return { workspaceId: input.workspaceId };
+  }
+  return {};
+};
+
+// Moves a report into a collection (and its workspace), or back out of the collection
+export const placeReport = async (
+  reportId: string,
+  userId: string,
+  target: { workspaceId: string; collectionId: string | null }
+) => {
+  await requireWorkspaceRole(target.workspaceId, userId, 'editor');
+  if (target.collectionId && !await getCollection(target.workspaceId, target.collectionId)) {
+    throw new WorkspaceNotFoundError('Collection not found');
+  }
+
+  const report = await findAccessibleReport(reportId, userId, 'editor');
+  if (!report) throw new WorkspaceNotFoundError('Report not found');
+  // Only the creator can move a personal report into a workspace, or between workspaces
+  if (report.workspace_id !== target.workspaceId && report.user_id !== userId) {
+    throw new WorkspacePermissionError('Only the report\'s creator can move it to another workspace');
+  }
+
+  const moved = await getReportRepository().update(reportId, {
+    workspace_id: target.workspaceId,
+    collection_id: target.collectionId
+  });
+  if (!moved) throw new WorkspaceNotFoundError('Report not found');
+  return toSummary(moved);
+};
+
+const toSummary = ({ content, papers, ...summary }: ReportRecord): ReportSummary => summary;
+
+export const listCollectionReports = async (workspaceId: string, collectionId: string): Promise<ReportSummary[]> => {
+  const { reports } = await getReportRepository().list({
+    scope: { workspaceId, collectionId },
+    offset: 0,
+    limit: MAX_COLLECTION_REPORTS
+  });
+  return reports;
+};
@@ -0,0 +1,163 @@
+import { getPool } from '../db';
+import { Collection, CollectionPaper, Workspace, WorkspaceMember, WorkspaceStore } from './types';
+
+// Anything else is not a valid uuid and would make Postgres raise instead of finding nothing
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const isUuid = (...ids: string[]) => ids.every(id => UUID_PATTERN.test(id));
+
+// Same JSON shape as PostgREST returns
+const toRow = <T>(row: any): T => ({
+  ...row,
+  created_at: row.created_at instanceof Date ? row.created_at.toISOString() : row.created_at
+});
+
+// The tables are created by db/migrations/0004_workspaces.sql
+export const createPostgresWorkspaceStore = (): WorkspaceStore => ({
+  name: 'postgres',
+  async getMembership(workspaceId, userId) {
+    if (!isUuid(workspaceId)) return null;
+    const { rows } = await getPool().query(
+      'SELECT role FROM workspace_members WHERE workspace_id = $1 AND user_id = $2',
+      [workspaceId, userId]
+    );
+    return rows[0]?.role || null;
+  },
+  async insertWorkspace(workspace) {
+    const { rows } = await getPool().query(
+      'INSERT INTO workspaces (name, created_by) VALUES ($1, $2) RETURNING *',
+      [workspace.name, workspace.created_by]
+    );
+    return toRow<Workspace>(rows[0]);
+  },
+  async getWorkspace(id) {
+    if (!isUuid(id)) return null;
+    const { rows } = await getPool().query('SELECT * FROM workspaces WHERE id = $1', [id]);
+    return rows[0] ? toRow<Workspace>(rows[0]) : null;
+  },
+  async listWorkspacesForUser(userId) {
+    const { rows } = await getPool().query(
+      `SELECT w.*, m.role FROM workspace_members m JOIN workspaces w ON w.id = m.workspace_id
+       WHERE m.user_id = $1 ORDER BY w.created_at DESC`,
+      [userId]
+    );
+    return rows.map(row => toRow<Workspace & { role: WorkspaceMember['role'] }>(row));
+  },
+  async updateWorkspace(id, changes) {
+    if (!isUuid(id)) return null;
+    if (changes.name === undefined) return this.getWorkspace(id);
+    const { rows } = await getPool().query('UPDATE workspaces SET name = $2 WHERE id = $1 RETURNING *', [id, changes.name]);
+    return rows[0] ? toRow<Workspace>(rows[0]) : null;
+  },
+  async deleteWorkspace(id) {
+    if (!isUuid(id)) return;
+    await getPool().query('DELETE FROM workspaces WHERE id = $1', [id]);
+  },
+  async listMembers(workspaceId) {
+    if (!isUuid(workspaceId)) return [];
+    const { rows } = await getPool().query(
+      'SELECT * FROM workspace_members WHERE workspace_id = $1 ORDER BY created_at ASC',
+      [workspaceId]
+    );
+    return rows.map(row => toRow<WorkspaceMember>(row));
+  },
+  async upsertMember(member) {
+    const { rows } = await getPool().query(
+      `INSERT INTO workspace_members (workspace_id, user_id, role) VALUES ($1, $2, $3)
+       ON CONFLICT (workspace_id, user_id) DO UPDATE SET role = EXCLUDED.role
+       RETURNING *`,
+      [member.workspace_id, member.user_id, member.role]
+    );
+    return toRow<WorkspaceMember>(rows[0]);
+  },
+  async deleteMember(workspaceId, userId) {
+    if (!isUuid(workspaceId)) return false;
+    const { rowCount } = await getPool().query(
+      'DELETE FROM workspace_members WHERE workspace_id = $1 AND user_id = $2',
+      [workspaceId, userId]
+    );
+    return (rowCount ?? 0) > 0;
+  },
+  async insertCollection(collection) {
+    const { rows } = await getPool().query(
+      `INSERT INTO collections (workspace_id, name, description, created_by) VALUES ($1, $2, $3, $4)
+       RETURNING *`,
+      [collection.workspace_id, collection.name, collection.description, collection.created_by]
+    );
+    return toRow<Collection>(rows[0]);
+  },
+  async getCollection(workspaceId, id) {
+    if (!isUuid(workspaceId, id)) return null;
+    const { rows } = await getPool().query(
+      'SELECT * FROM collections WHERE id = $1 AND workspace_id = $2',
+      [id, workspaceId]
+    );
+    return rows[0] ? toRow<Collection>(rows[0]) : null;
+  },
+  async findCollection(id) {
+    if (!isUuid(id)) return null;
+    const { rows } = await getPool().query('SELECT * FROM collections WHERE id = $1', [id]);
+    return rows[0] ? toRow<Collection>(rows[0]) : null;
+  },
+  async listCollections(workspaceId) {
+    if (!isUuid(workspaceId)) return [];
+    const { rows } = await getPool().query(
+      'SELECT * FROM collections WHERE workspace_id = $1 ORDER BY created_at DESC',
+      [workspaceId]
+    );
+    return rows.map(row => toRow<Collection>(row));
+  },
+  async updateCollection(workspaceId, id, changes) {
+    if (!isUuid(workspaceId, id)) return null;
+    const columns = (['name', 'description'] as const).filter(column => changes[column] !== undefined);
+    if (columns.length === 0) return this.getCollection(workspaceId, id);
+
+    const { rows } = await getPool().query(
+      `UPDATE collections SET ${columns.map((column, i) => `${column} = $${i + 3}`).join(', ')}
+       WHERE id = $1 AND workspace_id = $2 RETURNING *`,
+      [id, workspaceId, ...columns.map(column => changes[column])]
+    );
+    return rows[0] ? toRow<Collection>(rows[0]) : null;
+  },
+  async deleteCollection(workspaceId, id) {
+    if (!isUuid(workspaceId, id)) return false;
+    const { rowCount } = await getPool().query(
+      'DELETE FROM collections WHERE id = $1 AND workspace_id = $2',
+      [id, workspaceId]
+    );
+    return (rowCount ?? 0) > 0;
+  },
+  async listCollectionPapers(collectionId, limit) {
+    if (!isUuid(collectionId)) return [];
+    const { rows } = await getPool().query(
+      `SELECT * FROM collection_papers WHERE collection_id = $1 ORDER BY created_at ASC
+       ${limit ? 'LIMIT $2' : ''}`,
+      limit ? [collectionId, limit] : [collectionId]
+    );
+    return rows.map(row => toRow<CollectionPaper>(row));
+  },
+  async insertCollectionPapers(papers) {
+    if (papers.length === 0) return [];
+    const { rows } = await getPool().query(
+      `INSERT INTO collection_papers (collection_id, paper_key, paper, note, added_by)
+       SELECT * FROM UNNEST($1::uuid[], $2::text[], $3::jsonb[], $4::text[], $5::text[])
+       ON CONFLICT (collection_id, paper_key) DO NOTHING
+       RETURNING *`,
+      [
+        papers.map(paper => paper.collection_id),
+        papers.map(paper => paper.paper_key),
+        papers.map(paper => JSON.stringify(paper.paper)),
+        papers.map(paper => paper.note),
+        papers.map(paper => paper.added_by)
+      ]
+    );
+    return rows.map(row => toRow<CollectionPaper>(row));
+  },
+  async deleteCollectionPaper(collectionId, id) {
+    if (!isUuid(collectionId, id)) return false;
+    const { rowCount } = await getPool().query(
+      'DELETE FROM collection_papers WHERE id = $1 AND collection_id = $2',
+      [id, collectionId]
+    );
+    return (rowCount ?? 0) > 0;
+  }
+});
@@ -0,0 +1,13 @@
+import { WorkspaceRole } from './types';
+
+export const WORKSPACE_ROLES: WorkspaceRole[] = ['owner', 'editor', 'viewer'];
+
+// viewer: read workspace content; editor: also add and change papers, collections and reports;
+// owner: also manage members and the workspace itself
+const RANK: Record<WorkspaceRole, number> = { viewer: 1, editor: 2, owner: 3 };
+
+export const hasRole = (role: WorkspaceRole | null | undefined, required: WorkspaceRole) =>
+  Boolean(role) && RANK[role!] >= RANK[required];
+
+export const isWorkspaceRole = (value: unknown): value is WorkspaceRole =>
+  WORKSPACE_ROLES.includes(value as WorkspaceRole);
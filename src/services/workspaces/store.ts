@@ -0,0 +1,36 @@
+import { createPostgresWorkspaceStore } from './postgres';
+import { createSupabaseWorkspaceStore } from './supabase';
+import { WorkspaceStore } from './types';
+
+let store: WorkspaceStore | null = null;
+
+// Workspaces live next to the reports they hold, so REPORTS_BACKEND picks their storage too
+export const getWorkspaceStore = (): WorkspaceStore => {
+  if (!store) {
+    store = process.env.REPORTS_BACKEND === 'postgres' ? createPostgresWorkspaceStore() : createSupabaseWorkspaceStore();
+  }
+  return store;
+};
+
+export const getMembership: WorkspaceStore['getMembership'] = (...args) => getWorkspaceStore().getMembership(...args);
+export const insertWorkspace: WorkspaceStore['insertWorkspace'] = (...args) => getWorkspaceStore().insertWorkspace(...args);
+export const getWorkspace: WorkspaceStore['getWorkspace'] = (...args) => getWorkspaceStore().getWorkspace(...args);
+export const listWorkspacesForUser: WorkspaceStore['listWorkspacesForUser'] = (...args) =>
+  getWorkspaceStore().listWorkspacesForUser(...args);
+export const updateWorkspace: WorkspaceStore['updateWorkspace'] = (...args) => getWorkspaceStore().updateWorkspace(...args);
+export const deleteWorkspace: WorkspaceStore['deleteWorkspace'] = (...args) => getWorkspaceStore().deleteWorkspace(...args);
+export const listMembers: WorkspaceStore['listMembers'] = (...args) => getWorkspaceStore().listMembers(...args);
+export const upsertMember: WorkspaceStore['upsertMember'] = (...args) => getWorkspaceStore().upsertMember(...args);
+export const deleteMember: WorkspaceStore['deleteMember'] = (...args) => getWorkspaceStore().deleteMember(...args);
+export const insertCollection: WorkspaceStore['insertCollection'] = (...args) => getWorkspaceStore().insertCollection(...args);
+export const getCollection: WorkspaceStore['getCollection'] = (...args) => getWorkspaceStore().getCollection(...args);
+export const findCollection: WorkspaceStore['findCollection'] = (...args) => getWorkspaceStore().findCollection(...args);
+export const listCollections: WorkspaceStore['listCollections'] = (...args) => getWorkspaceStore().listCollections(...args);
+export const updateCollection: WorkspaceStore['updateCollection'] = (...args) => getWorkspaceStore().updateCollection(...args);
+export const deleteCollection: WorkspaceStore['deleteCollection'] = (...args) => getWorkspaceStore().deleteCollection(...args);
+export const listCollectionPapers: WorkspaceStore['listCollectionPapers'] = (...args) =>
+  getWorkspaceStore().listCollectionPapers(...args);
+export const insertCollectionPapers: WorkspaceStore['insertCollectionPapers'] = (...args) =>
+  getWorkspaceStore().insertCollectionPapers(...args);
+export const deleteCollectionPaper: WorkspaceStore['deleteCollectionPaper'] = (...args) =>
+  getWorkspaceStore().deleteCollectionPaper(...args);
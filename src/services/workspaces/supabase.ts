@@ -0,0 +1,177 @@
+import { supabase } from '../supabase';
+import { Collection, CollectionPaper, Workspace, WorkspaceMember, WorkspaceRole, WorkspaceStore } from './types';
+
+// PostgREST "no rows" for .single()
+const NOT_FOUND_CODE = 'PGRST116';
+
+const single = <T>(data: unknown, error: { code?: string; message: string } | null, action: string): T | null => {
+  if (error?.code === NOT_FOUND_CODE || (!error && !data)) return null;
+  if (error) throw new Error(`Failed to ${action}: ${error.message}`);
+  return data as T;
+};
+
+export const createSupabaseWorkspaceStore = (): WorkspaceStore => ({
+  name: 'supabase',
+  async getMembership(workspaceId, userId) {
+    const { data, error } = await supabase
+      .from('workspace_members')
+      .select('role')
+      .eq('workspace_id', workspaceId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to check workspace membership: ${error.message}`);
+    return (data?.role as WorkspaceRole) || null;
+  },
+  async insertWorkspace(workspace) {
+    const { data, error } = await supabase
+      .from('workspaces')
+      .insert(workspace)
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to create workspace: ${error.message}`);
+    return data as Workspace;
+  },
+  async getWorkspace(id) {
+    const { data, error } = await supabase.from('workspaces').select().eq('id', id).single();
+    return single<Workspace>(data, error, 'fetch workspace');
+  },
+  async listWorkspacesForUser(userId) {
+    const { data, error } = await supabase
+      .from('workspace_members')
+      .select('role, workspaces(*)')
+      .eq('user_id', userId);
+
+    if (error) throw new Error(`Failed to list workspaces: ${error.message}`);
+    return ((data || []) as any[])
+      .filter(row => row.workspaces)
+      .map(row => ({ ...row.workspaces, role: row.role }))
+      .sort((a, b) => String(b.created_at).localeCompare(String(a.created_at)));
+  },
+  async updateWorkspace(id, changes) {
+    const { data, error } = await supabase.from('workspaces').update(changes).eq('id', id).select().single();
+    return single<Workspace>(data, error, 'update workspace');
+  },
+  async deleteWorkspace(id) {
+    const { error } = await supabase.from('workspaces').delete().eq('id', id);
+    if (error) throw new Error(`Failed to delete workspace: ${error.message}`);
+  },
+  async listMembers(workspaceId) {
+    const { data, error } = await supabase
+      .from('workspace_members')
+      .select()
+      .eq('workspace_id', workspaceId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw new Error(`Failed to list members: ${error.message}`);
+    return (data || []) as WorkspaceMember[];
+  },
+  async upsertMember(member) {
+    const { data, error } = await supabase
+      .from('workspace_members')
+      .upsert(member, { onConflict: 'workspace_id,user_id' })
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to save member: ${error.message}`);
+    return data as WorkspaceMember;
+  },
+  async deleteMember(workspaceId, userId) {
+    const { data, error } = await supabase
+      .from('workspace_members')
+      .delete()
+      .eq('workspace_id', workspaceId)
+      .eq('user_id', userId)
+      .select('user_id');
+
+    if (error) throw new Error(`Failed to remove member: ${error.message}`);
+    return (data || []).length > 0;
+  },
+  async insertCollection(collection) {
+    const { data, error } = await supabase
+      .from('collections')
+      .insert(collection)
+      .select()
+      .single();
+
+    if (error) throw new Error(`Failed to create collection: ${error.message}`);
+    return data as Collection;
+  },
+  async getCollection(workspaceId, id) {
+    const { data, error } = await supabase
+      .from('collections')
+      .select()
+      .eq('id', id)
+      .eq('workspace_id', workspaceId)
+      .single();
+    return single<Collection>(data, error, 'fetch collection');
+  },
+  async findCollection(id) {
+    const { data, error } = await supabase.from('collections').select().eq('id', id).single();
+    return single<Collection>(data, error, 'fetch collection');
+  },
+  async listCollections(workspaceId) {
+    const { data, error } = await supabase
+      .from('collections')
+      .select()
+      .eq('workspace_id', workspaceId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw new Error(`Failed to list collections: ${error.message}`);
+    return (data || []) as Collection[];
+  },
+  async updateCollection(workspaceId, id, changes) {
+    const { data, error } = await supabase
+      .from('collections')
+      .update(changes)
+      .eq('id', id)
+      .eq('workspace_id', workspaceId)
+      .select()
+      .single();
+    return single<Collection>(data, error, 'update collection');
+  },
+  async deleteCollection(workspaceId, id) {
+    const { data, error } = await supabase
+      .from('collections')
+      .delete()
+      .eq('id', id)
+      .eq('workspace_id', workspaceId)
+      .select('id');
+
+    if (error) throw new Error(`Failed to delete collection: ${error.message}`);
+    return (data || []).length > 0;
+  },
+  async listCollectionPapers(collectionId, limit) {
+    let query = supabase
+      .from('collection_papers')
+      .select()
+      .eq('collection_id', collectionId)
+      .order('created_at', { ascending: true });
+    if (limit) query = query.limit(limit);
+
+    const { data, error } = await query;
+    if (error) throw new Error(`Failed to list collection papers: ${error.message}`);
+    return (data || []) as CollectionPaper[];
+  },
+  async insertCollectionPapers(papers) {
+    const { data, error } = await supabase
+      .from('collection_papers')
+      .upsert(papers, { onConflict: 'collection_id,paper_key', ignoreDuplicates: true })
+      .select();
+
+    if (error) throw new Error(`Failed to add papers: ${error.message}`);
+    return (data || []) as CollectionPaper[];
+  },
+  async deleteCollectionPaper(collectionId, id) {
+    const { data, error } = await supabase
+      .from('collection_papers')
+      .delete()
+      .eq('id', id)
+      .eq('collection_id', collectionId)
+      .select('id');
+
+    if (error) throw new Error(`Failed to remove paper: ${error.message}`);
+    return (data || []).length > 0;
+  }
+});
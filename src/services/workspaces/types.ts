@@ -0,0 +1,66 @@
+import { Paper } from '../papers';
+
+export type WorkspaceRole = 'owner' | 'editor' | 'viewer';
+
+export interface Workspace {
+  id: string;
+  name: string;
+  created_by: string;
+  created_at?: string;
+}
+
+export interface WorkspaceMember {
+  workspace_id: string;
+  user_id: string;
+  role: WorkspaceRole;
+  created_at?: string;
+}
+
+export interface Collection {
+  id: string;
+  workspace_id: string;
+  name: string;
+  description: string | null;
+  created_by: string;
+  created_at?: string;
+}
+
+export interface CollectionPaper {
+  id?: string;
+  collection_id: string;
+  // paperIdentity(), so the same paper is only added once per collection
+  paper_key: string;
+  paper: Paper;
+  note: string | null;
+  added_by: string;
+  created_at?: string;
+}
+
+// Rows come back in the JSON shape PostgREST returns, whichever backend stores them
+export interface WorkspaceStore {
+  name: string;
+  getMembership(workspaceId: string, userId: string): Promise<WorkspaceRole | null>;
+  insertWorkspace(workspace: Omit<Workspace, 'id'>): Promise<Workspace>;
+  getWorkspace(id: string): Promise<Workspace | null>;
+  // The user's workspaces with their role in each, newest first
+  listWorkspacesForUser(userId: string): Promise<(Workspace & { role: WorkspaceRole })[]>;
+  updateWorkspace(id: string, changes: Partial<Pick<Workspace, 'name'>>): Promise<Workspace | null>;
+  deleteWorkspace(id: string): Promise<void>;
+  listMembers(workspaceId: string): Promise<WorkspaceMember[]>;
+  upsertMember(member: WorkspaceMember): Promise<WorkspaceMember>;
+  deleteMember(workspaceId: string, userId: string): Promise<boolean>;
+  insertCollection(collection: Omit<Collection, 'id'>): Promise<Collection>;
+  getCollection(workspaceId: string, id: string): Promise<Collection | null>;
+  findCollection(id: string): Promise<Collection | null>;
+  listCollections(workspaceId: string): Promise<Collection[]>;
+  updateCollection(
+    workspaceId: string,
+    id: string,
+    changes: Partial<Pick<Collection, 'name' | 'description'>>
+  ): Promise<Collection | null>;
+  deleteCollection(workspaceId: string, id: string): Promise<boolean>;
+  listCollectionPapers(collectionId: string, limit?: number): Promise<CollectionPaper[]>;
+  // Papers already in the collection are left as they are
+  insertCollectionPapers(papers: CollectionPaper[]): Promise<CollectionPaper[]>;
+  deleteCollectionPaper(collectionId: string, id: string): Promise<boolean>;
+}
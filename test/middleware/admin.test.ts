@@ -0,0 +1,29 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Request, Response } from 'express';
+import { requireAdmin } from '../../src/middleware/admin';
+
+const check = (user: unknown) => {
+  const res = { status: vi.fn().mockReturnThis(), json: vi.fn() } as unknown as Response;
+  const next = vi.fn();
+  requireAdmin({ user } as unknown as Request, res, next);
+  return next.mock.calls.length > 0;
+};
+
+describe('requireAdmin', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('admits users listed by id', () => {
+    vi.stubEnv('ADMIN_USER_IDS', 'abc, 42');
+    expect(check({ id: 42 })).toBe(true);
+    expect(check({ id: 43 })).toBe(false);
+  });
+
+  it('admits listed emails only once the provider has confirmed them', () => {
+    vi.stubEnv('ADMIN_EMAILS', 'Admin@Example.com');
+    expect(check({ id: 'u1', email: 'admin@example.com', email_confirmed_at: '2026-01-01T00:00:00Z' })).toBe(true);
+    expect(check({ id: 'u2', email: 'admin@example.com' })).toBe(false);
+    expect(check({ id: 'u3', email: 'admin@example.com', email_confirmed_at: null })).toBe(false);
+  });
+});
@@ -0,0 +1,44 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import healthRoutes from '../../src/routes/health';
+
+describe('GET /metrics', () => {
+  let server: http.Server;
+
+  const scrape = (authorization?: string) => new Promise<number>((resolve, reject) => {
+    const { port } = server.address() as AddressInfo;
+    const headers = authorization === undefined ? {} : { Authorization: authorization };
+    http.get({ host: '127.0.0.1', port, path: '/metrics', headers }, res => {
+      res.resume();
+      resolve(res.statusCode!);
+    }).on('error', reject);
+  });
+
+  beforeAll(async () => {
+    vi.stubEnv('METRICS_TOKEN', 'secret');
+    const app = express();
+    app.use(healthRoutes);
+    server = http.createServer(app);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  });
+
+  afterAll(async () => {
+    vi.unstubAllEnvs();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('accepts the configured token', async () => {
+    await expect(scrape('Bearer secret')).resolves.toBe(200);
+  });
+
+  it.each([
+    ['no token', undefined],
+    ['a wrong token', 'Bearer secreT'],
+    // Header values arrive as Latin-1, so this is as long as the token in characters but not in bytes
+    ['a non-ASCII token', 'Bearer sécret']
+  ])('rejects %s without failing', async (_, authorization) => {
+    await expect(scrape(authorization)).resolves.toBe(401);
+  });
+});
@@ -0,0 +1,92 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { findNewPapers, mergeSeenIds, paperSeenKeys } from '../../src/services/alerts/digest';
+import { deliverWebhook, isPrivateAddress, validateWebhookUrl } from '../../src/services/alerts/webhook';
+import { Paper } from '../../src/services/papers';
+
+const paper = (title: string, overrides: Partial<Paper> = {}): Paper => ({
+  title,
+  authors: ['A. Author'],
+  abstract: '',
+  link: '',
+  source: 'arxiv',
+  ...overrides
+});
+
+describe('alert diffing', () => {
+  it('keys papers by identity and by title', () => {
+    const keys = paperSeenKeys(paper('Graph Networks', { arxivId: '2101.00001' }));
+    expect(keys).toHaveLength(2);
+    expect(keys.some(key => key.startsWith('title:'))).toBe(true);
+  });
+
+  it('treats a paper seen through another source as already seen', () => {
+    const seen = mergeSeenIds([], [paper('Graph Networks', { arxivId: '2101.00001' })]);
+    const fromPubmed = paper('Graph networks.', { source: 'pubmed', pmid: '123' });
+    const fresh = paper('Diffusion Models', { arxivId: '2101.00002' });
+    expect(findNewPapers([fromPubmed, fresh], seen)).toEqual([fresh]);
+  });
+
+  it('moves re-seen keys to the end so they are kept longest', () => {
+    const first = paper('First', { arxivId: '1' });
+    const second = paper('Second', { arxivId: '2' });
+    const seen = mergeSeenIds(mergeSeenIds([], [first, second]), [first]);
+    expect(seen.slice(-2)).toEqual(paperSeenKeys(first));
+  });
+});
+
+describe('webhook targets', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it.each([
+    '127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0',
+    '::1', '::', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1', '::ffff:7f00:1', '64:ff9b::a00:1'
+  ])('treats %s as private', address => {
+    expect(isPrivateAddress(address)).toBe(true);
+  });
+
+  it.each(['8.8.8.8', '172.32.0.1', '2606:4700::1111'])('treats %s as public', address => {
+    expect(isPrivateAddress(address)).toBe(false);
+  });
+
+  it.each([
+    'https://localhost/hook',
+    'https://api.localhost/hook',
+    'https://2130706433/hook',
+    'https://0x7f.1/hook',
+    'https://[::ffff:127.0.0.1]/hook',
+    'https://[fd12::1]/hook'
+  ])('rejects %s', url => {
+    expect(() => validateWebhookUrl(url)).toThrow('webhookUrl must be a public address');
+  });
+
+  it('accepts public hosts', () => {
+    expect(validateWebhookUrl('https://hooks.example.com/alerts')).toBe('https://hooks.example.com/alerts');
+  });
+
+  it('refuses private targets at delivery time', async () => {
+    vi.stubEnv('ALERT_WEBHOOK_ALLOW_HTTP', 'true');
+    await expect(deliverWebhook('http://127.0.0.1:9/hook', {}, { publicOnly: true }))
+      .rejects.toThrow('webhookUrl must be a public address');
+  });
+
+  it('does not follow redirects', async () => {
+    vi.stubEnv('UPSTREAM_WEBHOOK_RETRIES', '0');
+    const paths: string[] = [];
+    const server = http.createServer((req, res) => {
+      paths.push(req.url!);
+      res.writeHead(req.url === '/hook' ? 307 : 200, { Location: '/internal' }).end();
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    try {
+      const { port } = server.address() as AddressInfo;
+      await expect(deliverWebhook(`http://127.0.0.1:${port}/hook`, {})).rejects.toThrow('307');
+      expect(paths).toEqual(['/hook']);
+    } finally {
+      server.close();
+    }
+  });
+});
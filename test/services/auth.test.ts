@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const { users, tokens } = vi.hoisted(() => {
+  process.env.BCRYPT_ROUNDS = '4';
+  process.env.AUTH_MODE = 'local';
+  process.env.JWT_SECRET = 'x'.repeat(32);
+  return { users: new Map<string, any>(), tokens: new Map<string, string>() };
+});
+
+vi.mock('../../src/services/auth/store', () => ({
+  UNIQUE_VIOLATION: '23505',
+  insertUser: async (email: string, passwordHash: string, fullName: string | null) => {
+    const user = {
+      id: String(users.size + 1), email, password_hash: passwordHash, full_name: fullName,
+      plan: null, email_verified_at: null, created_at: new Date()
+    };
+    users.set(user.id, user);
+    return user;
+  },
+  findUserByEmail: async (email: string) => [...users.values()].find(user => user.email === email) ?? null,
+  insertVerificationToken: async (tokenHash: string, userId: string) => {
+    tokens.set(tokenHash, userId);
+  },
+  consumeVerificationToken: async (tokenHash: string) => {
+    const user = users.get(tokens.get(tokenHash) ?? '');
+    tokens.delete(tokenHash);
+    if (!user) return null;
+    user.email_verified_at ??= new Date('2026-01-01T00:00:00Z');
+    return user;
+  },
+  insertSession: async () => undefined,
+  insertRefreshToken: async () => undefined
+}));
+
+import { signIn, signUp, verifyEmail, resendVerification } from '../../src/services/auth';
+import { logger } from '../../src/services/observability';
+
+// Without a webhook the link is logged; the token is the last word of the message
+const sentTokens = () =>
+  vi.mocked(logger.info).mock.calls.map(([message]) => String(message)).filter(message => message.startsWith('Email verification'))
+    .map(message => message.split(' ').pop()!);
+
+describe('email verification', () => {
+  const credentials = { email: 'alice@example.com', password: 'correct horse battery' };
+
+  beforeEach(() => {
+    users.clear();
+    tokens.clear();
+    vi.spyOn(logger, 'info').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+  });
+
+  it('signs up without a session and refuses to sign in until the email is verified', async () => {
+    const { user, session } = await signUp(credentials);
+    expect(session).toBeNull();
+    expect(user.email_confirmed_at).toBeUndefined();
+    await expect(signIn(credentials)).rejects.toMatchObject({ status: 403 });
+
+    const [token] = sentTokens();
+    const verified = await verifyEmail(token);
+    expect(verified.user.email_confirmed_at).toBe('2026-01-01T00:00:00.000Z');
+    await expect(signIn(credentials)).resolves.toMatchObject({ user: { id: user.id } });
+  });
+
+  it('accepts a verification token once', async () => {
+    await signUp(credentials);
+    const [token] = sentTokens();
+    await verifyEmail(token);
+    await expect(verifyEmail(token)).rejects.toMatchObject({ status: 400 });
+    await expect(verifyEmail('made-up')).rejects.toMatchObject({ status: 400 });
+  });
+
+  it('resends only to unverified accounts', async () => {
+    await signUp(credentials);
+    await resendVerification('ALICE@example.com');
+    await resendVerification('nobody@example.com');
+    expect(sentTokens()).toHaveLength(2);
+
+    await verifyEmail(sentTokens()[1]);
+    await resendVerification(credentials.email);
+    expect(sentTokens()).toHaveLength(2);
+  });
+
+  it('signs in straight away when verification is turned off', async () => {
+    vi.stubEnv('AUTH_REQUIRE_EMAIL_VERIFICATION', 'false');
+    const { session } = await signUp(credentials);
+    expect(session).not.toBeNull();
+  });
+});
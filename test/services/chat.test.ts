@@ -0,0 +1,35 @@
+import { describe, expect, it, vi } from 'vitest';
+
+const { answer } = vi.hoisted(() => ({ answer: { content: '' } }));
+
+vi.mock('../../src/services/llm', () => ({ complete: async () => answer }));
+vi.mock('../../src/services/chat/store', () => ({
+  loadChatReport: async () => ({
+    title: 'Graphs',
+    content: 'A report',
+    papers: [
+      { title: 'First paper', link: 'https://example.org/1' },
+      { title: 'Second paper', link: 'https://example.org/2' },
+      { title: 'Third paper', link: 'https://example.org/3' }
+    ]
+  }),
+  listMessages: async () => [],
+  clearMessages: async () => undefined,
+  insertMessages: async (rows: unknown[]) => rows
+}));
+
+import { askAboutReport } from '../../src/services/chat';
+
+describe('askAboutReport', () => {
+  it('keeps markers that point at the report papers and drops made-up ones', async () => {
+    answer.content = 'Graphs help in [2], while [1, 3] use trees [9].';
+    const { answer: reply } = await askAboutReport('report', 'user', 'What helps?');
+
+    expect(reply.citations).toEqual([
+      { number: 1, title: 'First paper', link: 'https://example.org/1' },
+      { number: 2, title: 'Second paper', link: 'https://example.org/2' },
+      { number: 3, title: 'Third paper', link: 'https://example.org/3' }
+    ]);
+    expect(reply.content).toBe('Graphs help in \\[2\\], while \\[1, 3\\] use trees.');
+  });
+});
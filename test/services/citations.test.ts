@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { citationKeys, formatCitations, formatInlineCitation, formatReferences, parseName } from '../../src/services/citations';
+import { Paper } from '../../src/services/papers';
+
+const paper = (overrides: Partial<Paper> = {}): Paper => ({
+  title: 'Attention Is All You Need',
+  authors: ['Ashish Vaswani', 'Noam Shazeer', 'Niki Parmar'],
+  abstract: 'The dominant sequence transduction models...',
+  link: 'http://arxiv.org/abs/1706.03762v5',
+  source: 'arxiv',
+  arxivId: '1706.03762',
+  primaryCategory: 'cs.CL',
+  year: 2017,
+  publishedAt: '2017-06-12T17:57:34Z',
+  ...overrides
+});
+
+describe('parseName', () => {
+  it('reads both name orders', () => {
+    expect(parseName('Ada M. Lovelace')).toEqual({ family: 'Lovelace', given: 'Ada M.' });
+    expect(parseName('Lovelace, Ada M.')).toEqual({ family: 'Lovelace', given: 'Ada M.' });
+    expect(parseName('Plato')).toEqual({ family: 'Plato', given: '' });
+  });
+});
+
+describe('citationKeys', () => {
+  it('builds lastname, year and first significant title word', () => {
+    expect(citationKeys([paper()])).toEqual(['vaswani2017attention']);
+  });
+
+  it('suffixes colliding keys in list order', () => {
+    expect(citationKeys([paper(), paper({ title: 'Attention again' }), paper({ year: 2018 })]))
+      .toEqual(['vaswani2017attentiona', 'vaswani2017attentionb', 'vaswani2018attention']);
+  });
+});
+
+describe('formatCitations', () => {
+  it('writes arXiv preprints as BibTeX misc entries with eprint fields', () => {
+    const bibtex = formatCitations([paper()], ['vaswani2017attention'], 'bibtex');
+    expect(bibtex).toContain('@misc{vaswani2017attention,');
+    expect(bibtex).toContain('author = {Vaswani, Ashish and Shazeer, Noam and Parmar, Niki}');
+    expect(bibtex).toContain('eprint = {1706.03762}');
+    expect(bibtex).toContain('archivePrefix = {arXiv}');
+    expect(bibtex).toContain('primaryClass = {cs.CL}');
+    expect(bibtex).toContain('url = {https://arxiv.org/abs/1706.03762}');
+  });
+
+  it('escapes LaTeX specials in BibTeX', () => {
+    const bibtex = formatCitations([paper({ title: 'Costs & 50% savings_now' })], ['k'], 'bibtex');
+    expect(bibtex).toContain('title = {{Costs \\& 50\\% savings\\_now}}');
+  });
+
+  it('writes journal articles as RIS JOUR records', () => {
+    const ris = formatCitations([paper({ arxivId: undefined, journalRef: 'Nature 521', doi: '10.1038/nature14539' })], ['k'], 'ris');
+    expect(ris.split('\n')).toEqual(expect.arrayContaining(['TY  - JOUR', 'AU  - Vaswani, Ashish', 'JO  - Nature 521', 'DO  - 10.1038/nature14539', 'ER  -']));
+  });
+
+  it('writes CSL-JSON with date parts and the arXiv number', () => {
+    const [entry] = JSON.parse(formatCitations([paper()], ['vaswani2017attention'], 'csl-json'));
+    expect(entry).toMatchObject({
+      id: 'vaswani2017attention',
+      type: 'article',
+      issued: { 'date-parts': [[2017, 6, 12]] },
+      number: 'arXiv:1706.03762',
+      publisher: 'arXiv'
+    });
+  });
+});
+
+describe('formatReferences', () => {
+  const papers = [paper(), paper({ authors: ['Yann LeCun', 'Yoshua Bengio'], title: 'Deep learning', year: 2015, arxivId: undefined, journalRef: 'Nature' })];
+
+  it('orders APA and Harvard alphabetically and IEEE by citation order', () => {
+    expect(formatReferences(papers, 'apa')[0]).toMatch(/^LeCun, Y\., & Bengio, Y\. \(2015\)/);
+    expect(formatReferences(papers, 'harvard')[0]).toMatch(/^LeCun, Y\. and Bengio, Y\. \(2015\)/);
+    expect(formatReferences(papers, 'ieee')[0]).toMatch(/^\[1\] A\. Vaswani, N\. Shazeer, and N\. Parmar, "Attention Is All You Need," arXiv:1706\.03762 \[cs\.CL\], 2017\./);
+  });
+
+  it('formats in-text citations per style', () => {
+    const cited = papers.map((p, i) => ({ paper: p, number: i + 1 }));
+    expect(formatInlineCitation(cited, 'apa')).toBe('(Vaswani et al., 2017; LeCun & Bengio, 2015)');
+    expect(formatInlineCitation(cited, 'harvard')).toBe('(Vaswani et al. 2017; LeCun and Bengio 2015)');
+    expect(formatInlineCitation(cited, 'ieee')).toBe('[1, 2]');
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, expect, it, vi } from 'vitest';
+
+const runs = vi.hoisted(() => ({ active: 0, maxActive: 0, started: 0 }));
+
+// Each run keeps working for a while after it is cancelled, like an in-flight LLM call
+vi.mock('../../src/services/jobs/runner', () => ({
+  JobCancelledError: class JobCancelledError extends Error {},
+  runReportJob: async (_store: unknown, _id: string, signal: AbortSignal) => {
+    runs.started++;
+    runs.active++;
+    runs.maxActive = Math.max(runs.maxActive, runs.active);
+    await new Promise<void>(resolve => signal.addEventListener('abort', () => setTimeout(resolve, 50)));
+    runs.active--;
+  }
+}));
+
+import { createInMemoryJobStore, ReportJobQueue } from '../../src/services/jobs';
+
+const waitFor = async (condition: () => boolean) => {
+  for (let i = 0; i < 100 && !condition(); i++) await new Promise(resolve => setTimeout(resolve, 5));
+};
+
+describe('ReportJobQueue.resume', () => {
+  it('waits for the cancelled run to stop before starting another', async () => {
+    const queue = new ReportJobQueue(createInMemoryJobStore(), 2);
+    const { job } = await queue.enqueue('user-1', 'graph neural networks');
+    await waitFor(() => runs.started === 1);
+
+    await queue.cancel(job.id);
+    const resumed = queue.resume(job.id);
+    await expect(queue.resume(job.id)).rejects.toThrow('Job is already being resumed');
+    expect((await resumed).status).toBe('queued');
+
+    await waitFor(() => runs.started === 2);
+    expect(runs.started).toBe(2);
+    expect(runs.maxActive).toBe(1);
+    await queue.cancel(job.id);
+  });
+
+  it('only resumes failed or cancelled jobs', async () => {
+    const queue = new ReportJobQueue(createInMemoryJobStore(), 1);
+    const { job } = await queue.enqueue('user-2', 'protein folding');
+    await expect(queue.resume(job.id)).rejects.toThrow(/Cannot resume a (queued|running) job/);
+    await queue.cancel(job.id);
+  });
+});
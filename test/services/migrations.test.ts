@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { loadMigrations } from '../../src/services/migrations';
+
+describe('migrations', () => {
+  const migrations = loadMigrations();
+
+  it('are numbered without gaps', () => {
+    expect(migrations.map(migration => migration.version)).toEqual(migrations.map((_, i) => i + 1));
+  });
+
+  // Every table a Postgres store reads or writes has to come from a migration
+  it.each([
+    'users', 'auth_sessions', 'refresh_tokens', 'password_reset_tokens', 'reports', 'api_keys',
+    'workspaces', 'workspace_members', 'collections', 'collection_papers', 'search_alerts', 'notifications', 'report_messages',
+    'email_verification_tokens', 'cache_entries', 'usage_events'
+  ])('create %s', table => {
+    expect(migrations.some(migration => migration.sql.includes(`CREATE TABLE IF NOT EXISTS ${table} (`))).toBe(true);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, expect, it, vi } from 'vitest';
+import { decodeCursor, nextSourceCursor, searchPaperPage, Paper } from '../../src/services/papers';
+
+// Synthetic sources: `arxiv` returns 30 papers, `pubmed` 12 of its own plus copies of arxiv 0–2
+const { ARXIV, PUBMED, fakeSource } = vi.hoisted(() => {
+  const corpus = (source: 'arxiv' | 'pubmed', count: number) =>
+    Array.from({ length: count }, (_, i) => ({
+      title: `${source} item${i} ${'graph '.repeat(i % 4)}alpha${i} beta${i}`,
+      authors: [`Author ${source} ${i}`],
+      abstract: `gamma${i} delta${i} ${i % 3 === 0 ? 'graph' : 'epsilon'}${i} zeta${i}`,
+      link: `https://example.org/${source}/${i}`,
+      source,
+      doi: `10.1000/${source}.${i}`
+    }));
+  const ARXIV = corpus('arxiv', 30);
+  const PUBMED = [...corpus('pubmed', 12), ...ARXIV.slice(0, 3).map(paper => ({ ...paper, source: 'pubmed' as const }))];
+  const fakeSource = (papers: unknown[]) => ({
+    search: async (_query: string, { limit, offset = 0 }: { limit: number; offset?: number }) =>
+      ({ papers: papers.slice(offset, offset + limit), totalResults: papers.length })
+  });
+  return { ARXIV, PUBMED, fakeSource };
+});
+
+vi.mock('../../src/services/cache', () => ({
+  cached: (_namespace: string, _key: unknown, compute: () => Promise<unknown>) => compute()
+}));
+vi.mock('../../src/services/papers/sources/arxiv', () => ({ arxivSource: { name: 'arxiv', ...fakeSource(ARXIV) } }));
+vi.mock('../../src/services/papers/sources/pubmed', () => ({ pubmedSource: { name: 'pubmed', ...fakeSource(PUBMED) } }));
+
+const cursor = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+describe('decodeCursor', () => {
+  it('reads per-source offsets', () => {
+    expect(decodeCursor(cursor({ arxiv: 20, pubmed: { offset: 10, skip: [12, 15] } }))).toEqual({
+      arxiv: { offset: 20, skip: [] },
+      pubmed: { offset: 10, skip: [12, 15] }
+    });
+  });
+
+  it.each([
+    ['garbage', 'not a cursor'],
+    ['an array', cursor([1, 2])],
+    ['an unknown source', cursor({ scholar: 10 })],
+    ['a negative offset', cursor({ arxiv: -1 })],
+    ['a fractional offset', cursor({ arxiv: 1.5 })],
+    ['a skipped position before the offset', cursor({ arxiv: { offset: 10, skip: [4] } })],
+    ['a skip list that is not an array', cursor({ arxiv: { offset: 10, skip: 12 } })]
+  ])('rejects %s', (_, value) => {
+    expect(() => decodeCursor(value)).toThrow('Invalid cursor');
+  });
+});
+
+describe('nextSourceCursor', () => {
+  it('stops at the first position that was not returned', () => {
+    expect(nextSourceCursor({ offset: 0, skip: [] }, [0, 1, 2, 3, 4, 5], new Set([0, 1, 3, 5])))
+      .toEqual({ offset: 2, skip: [3, 5] });
+  });
+
+  it('carries earlier skips forward', () => {
+    expect(nextSourceCursor({ offset: 2, skip: [3, 5] }, [2, 4, 6, 7], new Set([2, 4])))
+      .toEqual({ offset: 6, skip: [] });
+  });
+
+  it('moves past the whole fetch when everything was returned', () => {
+    expect(nextSourceCursor({ offset: 10, skip: [] }, [10, 11, 12], new Set([10, 11, 12])))
+      .toEqual({ offset: 13, skip: [] });
+  });
+
+  it('gives up on the oldest leftovers once the skip list is full', () => {
+    const positions = Array.from({ length: 60 }, (_, i) => i);
+    const next = nextSourceCursor({ offset: 0, skip: [] }, positions, new Set(positions.filter(i => i !== 0 && i !== 30)));
+    expect(next).toEqual({ offset: 30, skip: positions.slice(31) });
+  });
+});
+
+describe('searchPaperPage', () => {
+  const collect = async (sources: ('arxiv' | 'pubmed')[]) => {
+    const pages: Paper[][] = [];
+    let nextCursor: string | undefined;
+    do {
+      const page = await searchPaperPage('graph', { limit: 5, sources, cursor: nextCursor });
+      pages.push(page.papers);
+      nextCursor = page.nextCursor ?? undefined;
+    } while (nextCursor && pages.length < 20);
+    return pages;
+  };
+
+  it('reaches every candidate of a reranked source exactly once', async () => {
+    const pages = await collect(['arxiv']);
+    const links = pages.flat().map(paper => paper.link);
+    expect(new Set(links).size).toBe(links.length);
+    expect(new Set(links)).toEqual(new Set(ARXIV.map(paper => paper.link)));
+    pages.slice(0, -1).forEach(page => expect(page).toHaveLength(5));
+  });
+
+  it('treats a paper returned through one source as returned in the other', async () => {
+    const pages = await collect(['arxiv', 'pubmed']);
+    const dois = pages.flat().map(paper => paper.doi);
+    expect(new Set(dois).size).toBe(dois.length);
+    expect(dois).toHaveLength(42);
+  });
+});
@@ -0,0 +1,20 @@
+import { describe, expect, it, vi } from 'vitest';
+
+const { from } = vi.hoisted(() => ({ from: vi.fn() }));
+
+vi.mock('../../src/services/supabase', () => ({ supabase: { from } }));
+
+import { createSupabaseReportRepository } from '../../src/services/reports/supabase';
+
+describe('Supabase report repository', () => {
+  const repository = createSupabaseReportRepository();
+
+  it('treats an id that is not a uuid as a missing report', async () => {
+    await expect(repository.get('not-a-uuid')).resolves.toBeNull();
+    await expect(repository.update('42', { title: 'New title' })).resolves.toBeNull();
+    await expect(repository.delete('../reports')).resolves.toBe(false);
+    await expect(repository.list({ scope: { workspaceId: 'nope' }, offset: 0, limit: 10 }))
+      .resolves.toEqual({ reports: [], total: 0 });
+    expect(from).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,102 @@
+import MarkdownIt from 'markdown-it';
+import { describe, expect, it } from 'vitest';
+import { createMarkdownStreamSanitizer, sanitizeMarkdown } from '../../src/services/safety';
+
+// A renderer as permissive as a frontend could be: raw HTML on and no link checks of its own
+const renderer = new MarkdownIt({ html: true });
+renderer.validateLink = () => true;
+const render = (markdown: string) => renderer.render(markdown);
+
+const REPORT = [
+  '# Findings',
+  '',
+  'Some *em*, **strong** and ~~struck~~ text with a [link](https://example.org/a_(b) "Title") and `code`.',
+  '',
+  '- one',
+  '- two',
+  '  - nested',
+  '',
+  '1. first',
+  '2. second',
+  '',
+  '> quoted',
+  '',
+  '| Paper | Year |',
+  '|:------|-----:|',
+  '| Smith *et al.* | 2021 |',
+  '',
+  '```js',
+  'const tag = "<script>";',
+  '```',
+  '',
+  '<span style="color: red; background: url(x)">red</span> <sup>1</sup>',
+  '',
+  '[1]: https://doi.org/10.1000/1',
+  '',
+  '[cited][1] and <https://example.org>'
+].join('\n');
+
+describe('sanitizeMarkdown', () => {
+  it.each([
+    ['nested brackets in the link text', '[a [b] c](javascript:alert(1))'],
+    ['nested parentheses in the URL', '[x](javascript:alert((1)))'],
+    ['link text across lines', '[x\ny](javascript:alert(1))'],
+    ['an unmatched backtick run', '``<img src=x onerror=alert(1)>`'],
+    ['an encoded scheme', '[x](java&#x09;script&colon;alert(1))'],
+    ['an autolink', '<javascript:alert(1)>'],
+    ['a reference definition', '[x][evil]\n\n[evil]: javascript:alert(1)'],
+    ['an image', '![x](javascript:alert(1))'],
+    ['raw HTML in a block', '<div onclick="alert(1)">\n<img src=x onerror=alert(1)>\n</div>'],
+    ['a script tag', '<script>alert(1)</script>']
+  ])('neutralizes %s', (_, markdown) => {
+    const html = render(sanitizeMarkdown(markdown));
+    expect(html).not.toMatch(/(href|src)="\s*javascript/i);
+    expect(html).not.toMatch(/<(div|script)|<[^>]*\son\w+=/i);
+  });
+
+  it('keeps allowed tags and styles and drops everything else', () => {
+    expect(sanitizeMarkdown('<span style="color: red; position: fixed" onclick="x">a</span> <sub>2</sub><!-- note -->'))
+      .toBe('<span style="color: red">a</span> <sub>2</sub>');
+    expect(sanitizeMarkdown('<b class="x">bold</b> <iframe src="x"></iframe>')).toBe('<b>bold</b> &lt;iframe src="x">&lt;/iframe>');
+  });
+
+  it('replaces unsafe URLs with an anchor and keeps safe ones', () => {
+    expect(sanitizeMarkdown('[a](javascript:alert(1)) [b](https://example.org) [c](/relative) [d](#top) [e](mailto:a@b.c)'))
+      .toBe('[a](#) [b](https://example.org) [c](/relative) [d](#top) [e](mailto:a@b.c)');
+  });
+
+  it('leaves code untouched', () => {
+    expect(sanitizeMarkdown('`<img src=x>` and\n\n```\n<script>alert(1)</script>\n```'))
+      .toBe('`<img src=x>` and\n\n```\n<script>alert(1)</script>\n```');
+  });
+
+  it('renders a typical report the same way before and after', () => {
+    const clean = REPORT.replace(' background: url(x);', '').replace('; background: url(x)', '');
+    expect(render(sanitizeMarkdown(REPORT))).toBe(render(clean));
+  });
+
+  it('is idempotent', () => {
+    const once = sanitizeMarkdown(REPORT);
+    expect(sanitizeMarkdown(once)).toBe(once);
+  });
+});
+
+describe('createMarkdownStreamSanitizer', () => {
+  const stream = (chunks: string[]) => {
+    let output = '';
+    const sanitizer = createMarkdownStreamSanitizer(text => { output += text; });
+    chunks.forEach(chunk => sanitizer.write(chunk));
+    sanitizer.flush();
+    return output;
+  };
+
+  it.each([1, 3, 7, 40])('matches the whole-text result when streamed in %i-character chunks', size => {
+    const chunks = REPORT.match(new RegExp(`[\\s\\S]{1,${size}}`, 'g'))!;
+    expect(render(stream(chunks))).toBe(render(sanitizeMarkdown(REPORT)));
+  });
+
+  it('judges a link only once it is complete', () => {
+    const output = stream(['[click\n', 'here](javas', 'cript:alert(1))\n\nnext']);
+    expect(render(output)).not.toMatch(/javascript/i);
+  });
+});
@@ -0,0 +1,58 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { listReportTemplates, MAX_PAPER_COUNT } from '../../src/services/report/templates';
+
+const writeTemplates = (templates: unknown[]) => {
+  const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'templates-')), 'templates.json');
+  fs.writeFileSync(file, JSON.stringify(templates));
+  vi.stubEnv('REPORT_TEMPLATES_FILE', file);
+};
+
+const template = (id: string, overrides: Record<string, unknown> = {}) => ({
+  id,
+  name: id,
+  maxWords: 500,
+  citationStyle: 'apa',
+  sections: [{ heading: 'Summary', instructions: 'Summarize the papers.' }],
+  ...overrides
+});
+
+describe('custom report templates', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('accepts paper counts within the built-in bounds', () => {
+    writeTemplates([template('default-count'), template('max-count', { paperCount: MAX_PAPER_COUNT })]);
+    const ids = listReportTemplates().map(t => t.id);
+    expect(ids).toEqual(expect.arrayContaining(['default-count', 'max-count']));
+  });
+
+  it.each([0, MAX_PAPER_COUNT + 1, 2.5, '5'])('ignores a template with paperCount %s', (paperCount) => {
+    writeTemplates([template('bad-count', { paperCount })]);
+    expect(listReportTemplates().map(t => t.id)).not.toContain('bad-count');
+  });
+
+  it('accepts guidelines, section budgets and a description of the right types', () => {
+    writeTemplates([template('complete', {
+      description: 'Short summary.',
+      guidelines: ['Be concise.'],
+      sections: [{ heading: 'Summary', instructions: 'Summarize the papers.', words: 200 }]
+    })]);
+    expect(listReportTemplates().map(t => t.id)).toContain('complete');
+  });
+
+  it.each([
+    ['guidelines as a string', { guidelines: 'be concise' }],
+    ['a guideline that is not a string', { guidelines: ['be concise', 3] }],
+    ['a section budget as a string', { sections: [{ heading: 'Summary', instructions: 'Summarize.', words: '200' }] }],
+    ['a fractional section budget', { sections: [{ heading: 'Summary', instructions: 'Summarize.', words: 20.5 }] }],
+    ['a zero section budget', { sections: [{ heading: 'Summary', instructions: 'Summarize.', words: 0 }] }],
+    ['a description that is not a string', { description: ['Summary'] }]
+  ])('ignores a template with %s', (_, overrides) => {
+    writeTemplates([template('bad-fields', overrides)]);
+    expect(listReportTemplates().map(t => t.id)).not.toContain('bad-fields');
+  });
+});
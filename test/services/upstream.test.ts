@@ -0,0 +1,70 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { callUpstream, circuitStates, CircuitOpenError, UpstreamError } from '../../src/services/upstream';
+
+const stateOf = (upstream: string) => circuitStates().find(state => state.upstream === upstream);
+
+const failing = () => Promise.reject(new UpstreamError('crossref', 'Service unavailable', 503));
+
+// crossref has no pacing by default, so calls go out immediately
+const openCircuit = async (upstream: string) => {
+  for (let i = 0; i < 2; i++) {
+    await expect(callUpstream('crossref', failing, { upstream })).rejects.toThrow('Service unavailable');
+  }
+  expect(stateOf(upstream)?.state).toBe('open');
+};
+
+describe('circuit breaker', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  const configure = () => {
+    vi.stubEnv('UPSTREAM_CROSSREF_RETRIES', '0');
+    vi.stubEnv('UPSTREAM_CROSSREF_FAILURE_THRESHOLD', '2');
+    vi.stubEnv('UPSTREAM_CROSSREF_COOLDOWN_MS', '20');
+  };
+
+  it('opens after the failure threshold and rejects calls during the cooldown', async () => {
+    configure();
+    await openCircuit('test-open');
+    const fn = vi.fn();
+    await expect(callUpstream('crossref', fn, { upstream: 'test-open' })).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  it('closes again when the half-open probe succeeds', async () => {
+    configure();
+    await openCircuit('test-probe');
+    await new Promise(resolve => setTimeout(resolve, 30));
+    await expect(callUpstream('crossref', async () => 'ok', { upstream: 'test-probe' })).resolves.toBe('ok');
+    expect(stateOf('test-probe')?.state).toBe('closed');
+  });
+
+  it('lets another request probe when the caller aborts during the probe', async () => {
+    configure();
+    await openCircuit('test-abort');
+    await new Promise(resolve => setTimeout(resolve, 30));
+
+    const controller = new AbortController();
+    const probe = callUpstream('crossref', ({ signal }) => new Promise((_, reject) => {
+      signal.addEventListener('abort', () => reject(Object.assign(new Error('aborted'), { name: 'AbortError' })));
+    }), { upstream: 'test-abort', signal: controller.signal });
+    await new Promise(resolve => setTimeout(resolve, 5));
+    controller.abort();
+    await expect(probe).rejects.toThrow('aborted');
+
+    await expect(callUpstream('crossref', async () => 'ok', { upstream: 'test-abort' })).resolves.toBe('ok');
+    expect(stateOf('test-abort')?.state).toBe('closed');
+  });
+
+  it('caps the number of breakers, keeping open circuits', async () => {
+    configure();
+    await openCircuit('test-cap');
+    for (let i = 0; i < 1100; i++) {
+      await callUpstream('crossref', async () => 'ok', { upstream: `test-cap-${i}` });
+    }
+    expect(circuitStates().length).toBeLessThanOrEqual(1000);
+    expect(stateOf('test-cap')?.state).toBe('open');
+    expect(stateOf('test-cap-1099')).toBeDefined();
+  });
+});
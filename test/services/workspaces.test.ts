@@ -0,0 +1,29 @@
+import { describe, expect, it, vi } from 'vitest';
+
+const { memberships } = vi.hoisted(() => ({ memberships: new Map<string, string>() }));
+
+vi.mock('../../src/services/workspaces/store', () => ({
+  getMembership: async (workspaceId: string, userId: string) => memberships.get(`${workspaceId}:${userId}`) ?? null
+}));
+vi.mock('../../src/services/reports', () => ({ getReportRepository: () => ({}) }));
+
+import { reportRole } from '../../src/services/workspaces/access';
+
+describe('reportRole', () => {
+  it('gives the creator full rights on a personal report', async () => {
+    await expect(reportRole({ user_id: 'alice' }, 'alice')).resolves.toBe('owner');
+    await expect(reportRole({ user_id: 'alice', workspace_id: null }, 'bob')).resolves.toBeNull();
+  });
+
+  it('uses the current role in the workspace, for the creator too', async () => {
+    memberships.set('ws:alice', 'viewer');
+    memberships.set('ws:bob', 'editor');
+    await expect(reportRole({ user_id: 'alice', workspace_id: 'ws' }, 'alice')).resolves.toBe('viewer');
+    await expect(reportRole({ user_id: 'alice', workspace_id: 'ws' }, 'bob')).resolves.toBe('editor');
+  });
+
+  it('denies a creator who was removed from the workspace', async () => {
+    memberships.delete('ws:alice');
+    await expect(reportRole({ user_id: 'alice', workspace_id: 'ws' }, 'alice')).resolves.toBeNull();
+  });
+});